@@ -1,7 +1,49 @@
-import React, { useState } from 'react';
-import { KnowledgeGraphData, AppMode } from './types';
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  KnowledgeGraphData, GraphNode, GraphLink, AppMode, Workspace, WorkspaceSummary, ImportRecord, GraphOperation, GraphVersion,
+  GraphLayout
+} from './types';
 import DataImporter from './components/DataImporter';
 import ScenarioSolver from './components/ScenarioSolver';
+import GraphExplorer, { GraphHighlight } from './components/GraphExplorer';
+import QueryConsole from './components/QueryConsole';
+import VersionHistory from './components/VersionHistory';
+import OntologyEditor from './components/OntologyEditor';
+import ModelSettings from './components/ModelSettings';
+import WorkspaceSwitcher from './components/WorkspaceSwitcher';
+import MergeReview from './components/MergeReview';
+import { QueueItem } from './components/IngestionQueue';
+import {
+  initWorkspaces, listWorkspaces, loadWorkspace, saveWorkspaceGraph, saveWorkspaceLayout, createWorkspace,
+  renameWorkspace, duplicateWorkspace, deleteWorkspace, storeActiveWorkspaceId
+} from './services/workspaceStore';
+import { DEFAULT_LAYOUT } from './services/graphLayout';
+import { proposeMerges, mergeIntoGraph, MergeProposal } from './services/entityResolution';
+import { removeImport, createImportRecord } from './services/provenance';
+import { listGraphVersions, recordGraphVersion, combineOperations } from './services/versionHistory';
+import { diffGraphs, summarizeDiff } from './services/graphDiff';
+import { extractKnowledgeFromText } from './services/geminiService';
+import { runChunkedExtraction } from './services/extractionPipeline';
+import { readSourceFile } from './services/sourceFiles';
+
+// Undo steps kept per session; older states stay reachable through the version history
+const MAX_UNDO = 50;
+
+interface UndoEntry {
+  graph: KnowledgeGraphData;
+  label: string; // The operation undoing (or redoing) this entry reverts
+}
+
+const importOperation = (source?: ImportRecord): GraphOperation => ({
+  kind: 'import',
+  label: !source ? "Imported knowledge"
+    : source.kind === 'scenario' ? `Learned from scenario "${source.label}"`
+    : `Imported ${source.label}`,
+  importId: source?.id
+});
+
+const storageErrorMessage = (action: string, err: unknown) =>
+  `Could not ${action}${err instanceof Error && err.message ? `: ${err.message}` : "."}`;
 
 // Initial dummy data
 const INITIAL_DATA: KnowledgeGraphData = {
@@ -27,32 +69,298 @@ const INITIAL_DATA: KnowledgeGraphData = {
 const App: React.FC = () => {
   const [graphData, setGraphData] = useState<KnowledgeGraphData>(INITIAL_DATA);
   const [activeTab, setActiveTab] = useState<AppMode>(AppMode.IMPORT_DATA);
+  const [workspaces, setWorkspaces] = useState<WorkspaceSummary[]>([]);
+  const [activeWorkspaceId, setActiveWorkspaceId] = useState<string | null>(null);
+  const [workspaceError, setWorkspaceError] = useState<string | null>(null);
+  // The graph as last loaded from storage; used to skip writing it straight back.
+  const loadedGraphRef = useRef<KnowledgeGraphData | null>(null);
+  const initStartedRef = useRef(false);
+  // Imports waiting on merge review, oldest first (batch ingestion can queue several).
+  // `settle` tells whoever started the import whether it was applied or cancelled.
+  const [pendingMerges, setPendingMerges] = useState<Array<{
+    nodes: GraphNode[]; links: GraphLink[]; source?: ImportRecord; carriedImports?: ImportRecord[]; proposals: MergeProposal[];
+    settle: (applied: boolean) => void;
+  }>>([]);
+  const pendingMerge = pendingMerges[0];
+  // Files queued for ingestion. The queue lives here rather than in the importer so it
+  // keeps running while other tabs are open.
+  const [ingestionQueue, setIngestionQueue] = useState<QueueItem[]>([]);
+  const [queuePaused, setQueuePaused] = useState(false);
+  // Latest state for work that finishes asynchronously
+  const latestRef = useRef({ graphData, activeWorkspaceId, pendingMerges });
+  latestRef.current = { graphData, activeWorkspaceId, pendingMerges };
+  // Entities to highlight when the Graph Explorer opens, e.g. query matches
+  const [graphHighlight, setGraphHighlight] = useState<GraphHighlight | null>(null);
+  // Version history: mutations describe themselves here before updating the graph, and the
+  // persist effect stores a copy of the graph under that label (unlabelled changes are
+  // described from the diff)
+  const pendingOperationsRef = useRef<GraphOperation[]>([]);
+  const committedGraphRef = useRef<KnowledgeGraphData | null>(null);
+  const [undoStack, setUndoStack] = useState<UndoEntry[]>([]);
+  const [redoStack, setRedoStack] = useState<UndoEntry[]>([]);
+  const [versionsRevision, setVersionsRevision] = useState(0);
+  const [graphLayout, setGraphLayout] = useState<GraphLayout>(DEFAULT_LAYOUT);
 
-  // Handle merging new knowledge into existing graph
-  const updateGraph = (newNodes: any[], newLinks: any[]) => {
-    setGraphData(prev => {
-      const nodeMap = new Map(prev.nodes.map(n => [n.id.toLowerCase(), n]));
-      newNodes.forEach(node => {
-        if (!nodeMap.has(node.id.toLowerCase())) {
-          nodeMap.set(node.id.toLowerCase(), { ...node, val: 5 });
-        }
+  const activeWorkspace = workspaces.find(w => w.id === activeWorkspaceId);
+
+  const openWorkspace = (workspace: Workspace) => {
+    loadedGraphRef.current = workspace.graph;
+    committedGraphRef.current = workspace.graph;
+    pendingOperationsRef.current = [];
+    setGraphData(workspace.graph);
+    setGraphLayout(workspace.layout ?? DEFAULT_LAYOUT);
+    setGraphHighlight(null);
+    // Reviews belong to the graph they were proposed against
+    latestRef.current.pendingMerges.forEach(merge => merge.settle(false));
+    setPendingMerges([]);
+    setUndoStack([]);
+    setRedoStack([]);
+    setActiveWorkspaceId(workspace.id);
+    storeActiveWorkspaceId(workspace.id);
+
+    // Start the log with the graph as first opened, so the first change has something to diff against
+    listGraphVersions(workspace.id)
+      .then(versions => versions.length
+        ? undefined
+        : recordGraphVersion(workspace.id, { kind: 'initial', label: "Initial graph" }, workspace.graph))
+      .then(() => setVersionsRevision(r => r + 1))
+      .catch(err => console.error("Failed to open version history:", err));
+  };
+
+  // Restore the last active workspace on load
+  useEffect(() => {
+    if (initStartedRef.current) return;
+    initStartedRef.current = true;
+    initWorkspaces(INITIAL_DATA)
+      .then(({ workspaces, active }) => {
+        setWorkspaces(workspaces);
+        openWorkspace(active);
+      })
+      .catch(err => {
+        console.error("Failed to open workspace storage:", err);
+        setWorkspaceError(storageErrorMessage("open workspace storage", err));
       });
+  }, []);
+
+  // Persist every graph change to the active workspace and its version history
+  useEffect(() => {
+    if (!activeWorkspaceId || graphData === loadedGraphRef.current) return;
+    loadedGraphRef.current = null; // Undo may return to the loaded graph, which must then be saved
+
+    const previous = committedGraphRef.current;
+    committedGraphRef.current = graphData;
+    const operation = combineOperations(pendingOperationsRef.current.splice(0)) ?? {
+      kind: 'edit',
+      label: previous ? summarizeDiff(diffGraphs(previous, graphData)) : "Edited the graph"
+    };
+    if (previous && operation.kind !== 'undo' && operation.kind !== 'redo') {
+      setUndoStack(prev => [...prev, { graph: previous, label: operation.label }].slice(-MAX_UNDO));
+      setRedoStack([]);
+    }
+
+    saveWorkspaceGraph(activeWorkspaceId, graphData)
+      .then(listWorkspaces)
+      .then(setWorkspaces)
+      .catch(err => console.error("Failed to save workspace:", err));
+    recordGraphVersion(activeWorkspaceId, operation, graphData)
+      .then(() => setVersionsRevision(r => r + 1))
+      .catch(err => console.error("Failed to record graph version:", err));
+  }, [graphData, activeWorkspaceId]);
+
+  const undo = () => {
+    const entry = undoStack[undoStack.length - 1];
+    if (!entry) return;
+    pendingOperationsRef.current.push({ kind: 'undo', label: `Undid: ${entry.label}` });
+    setUndoStack(prev => prev.slice(0, -1));
+    setRedoStack(prev => [...prev, { graph: graphData, label: entry.label }]);
+    setGraphData(entry.graph);
+  };
+
+  const redo = () => {
+    const entry = redoStack[redoStack.length - 1];
+    if (!entry) return;
+    pendingOperationsRef.current.push({ kind: 'redo', label: `Redid: ${entry.label}` });
+    setRedoStack(prev => prev.slice(0, -1));
+    setUndoStack(prev => [...prev, { graph: graphData, label: entry.label }]);
+    setGraphData(entry.graph);
+  };
+
+  // Ctrl/⌘+Z and Ctrl/⌘+Shift+Z (or Ctrl+Y), unless the user is typing in a field
+  const historyShortcutsRef = useRef({ undo, redo });
+  historyShortcutsRef.current = { undo, redo };
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (!(e.ctrlKey || e.metaKey) || target?.closest('input, textarea, select, [contenteditable="true"]')) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) historyShortcutsRef.current.undo();
+      else if ((key === 'z' && e.shiftKey) || key === 'y') historyShortcutsRef.current.redo();
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // Replaces the graph with an edited one, logging it under the given description
+  const editGraph = (next: KnowledgeGraphData, label: string) => {
+    pendingOperationsRef.current.push({ kind: 'edit', label });
+    setGraphData(next);
+  };
+
+  const restoreVersion = (version: GraphVersion) => {
+    const name = version.snapshotName ? `snapshot "${version.snapshotName}"` : `"${version.label}"`;
+    pendingOperationsRef.current.push({
+      kind: 'restore',
+      label: `Restored ${name} from ${new Date(version.createdAt).toLocaleString()}`
+    });
+    setGraphData(version.graph);
+  };
+
+  // Runs a workspace action from the switcher, showing storage failures there
+  const runWorkspaceAction = (description: string, action: () => Promise<void>) => {
+    setWorkspaceError(null);
+    action().catch(err => {
+      console.error(`Failed to ${description}:`, err);
+      setWorkspaceError(storageErrorMessage(description, err));
+    });
+  };
+
+  const handleSwitchWorkspace = (id: string) => runWorkspaceAction("switch workspace", async () => {
+    const workspace = await loadWorkspace(id);
+    if (!workspace) throw new Error("The workspace no longer exists.");
+    openWorkspace(workspace);
+  });
+
+  const handleCreateWorkspace = (name: string) => runWorkspaceAction("create the workspace", async () => {
+    const workspace = await createWorkspace(name, { nodes: [], links: [] });
+    setWorkspaces(await listWorkspaces());
+    openWorkspace(workspace);
+  });
 
-      const linkSet = new Set(prev.links.map(l => `${l.source}-${l.target}-${l.relationship}`));
-      const finalLinks = [...prev.links];
-
-      newLinks.forEach(link => {
-        const key = `${link.source}-${link.target}-${link.relationship}`;
-        if (!linkSet.has(key)) {
-          if (nodeMap.has(link.source.toLowerCase()) && nodeMap.has(link.target.toLowerCase())) {
-             finalLinks.push(link);
-             linkSet.add(key);
-          }
-        }
+  // Layout changes are saved straight away; they aren't graph edits, so they skip the
+  // version history and undo
+  const handleLayoutChange = (layout: GraphLayout) => {
+    setGraphLayout(layout);
+    if (!activeWorkspaceId) return;
+    saveWorkspaceLayout(activeWorkspaceId, layout).catch(err => console.error("Failed to save graph layout:", err));
+  };
+
+  const handleRenameWorkspace = (name: string) => runWorkspaceAction("rename the workspace", async () => {
+    if (!activeWorkspaceId) return;
+    await renameWorkspace(activeWorkspaceId, name);
+    setWorkspaces(await listWorkspaces());
+  });
+
+  const handleDuplicateWorkspace = () => runWorkspaceAction("copy the workspace", async () => {
+    if (!activeWorkspace) return;
+    const workspace = await duplicateWorkspace(activeWorkspace.id, `${activeWorkspace.name} (copy)`);
+    setWorkspaces(await listWorkspaces());
+    openWorkspace(workspace);
+  });
+
+  const handleDeleteWorkspace = () => runWorkspaceAction("delete the workspace", async () => {
+    if (!activeWorkspaceId) return;
+    await deleteWorkspace(activeWorkspaceId);
+    const remaining = await listWorkspaces();
+    setWorkspaces(remaining);
+    const next = remaining.length ? await loadWorkspace(remaining[0].id) : undefined;
+    if (next) openWorkspace(next);
+  });
+
+  // Handle merging new knowledge into existing graph. Likely duplicates
+  // (acronyms, spelling variants) are held back for review first. Resolves to whether
+  // the knowledge was added, i.e. false when its review is cancelled.
+  const updateGraph = (
+    newNodes: GraphNode[], newLinks: GraphLink[], source?: ImportRecord, carriedImports?: ImportRecord[]
+  ): Promise<boolean> => {
+    const proposals = proposeMerges(latestRef.current.graphData, newNodes);
+    if (proposals.length > 0) {
+      return new Promise(settle => {
+        setPendingMerges(prev => [...prev, { nodes: newNodes, links: newLinks, source, carriedImports, proposals, settle }]);
       });
+    }
+    pendingOperationsRef.current.push(importOperation(source));
+    setGraphData(prev => mergeIntoGraph(prev, newNodes, newLinks, { source, carriedImports }));
+    return Promise.resolve(true);
+  };
 
-      return { nodes: Array.from(nodeMap.values()), links: finalLinks };
+  const confirmPendingMerge = (accepted: MergeProposal[]) => {
+    if (!pendingMerge) return;
+    const { nodes, links, source, carriedImports, settle } = pendingMerge;
+    pendingOperationsRef.current.push(importOperation(source));
+    setGraphData(prev => mergeIntoGraph(prev, nodes, links, { acceptedMerges: accepted, source, carriedImports }));
+    setPendingMerges(prev => prev.slice(1));
+    settle(true);
+  };
+
+  const cancelPendingMerge = () => {
+    if (!pendingMerge) return;
+    setPendingMerges(prev => prev.slice(1));
+    pendingMerge.settle(false);
+  };
+
+  const updateQueueItem = (id: string, patch: Partial<QueueItem>) => {
+    setIngestionQueue(prev => prev.map(item => item.id === id ? { ...item, ...patch } : item));
+  };
+
+  // Queued files skip the review step; each becomes its own import so it can be removed later
+  const runQueueItem = async (item: QueueItem) => {
+    updateQueueItem(item.id, { status: 'extracting', error: undefined, failedChunks: undefined });
+    const workspaceId = latestRef.current.activeWorkspaceId;
+    try {
+      const input = await readSourceFile(item.file);
+      const source = createImportRecord('file', item.file.name);
+      const graph = latestRef.current.graphData;
+      const { graph: result, progress } = typeof input === 'string'
+        ? await runChunkedExtraction(input, graph, { importId: source.id })
+        : { graph: await extractKnowledgeFromText(input, graph, source.id), progress: undefined };
+      if (latestRef.current.activeWorkspaceId !== workspaceId) {
+        updateQueueItem(item.id, { status: 'failed', error: "The workspace was switched during extraction. Retry to add it here." });
+        return;
+      }
+      if (progress?.totalChunks && !progress.completedChunks) throw new Error(`All ${progress.totalChunks} chunks failed to extract.`);
+      updateQueueItem(item.id, { status: 'reviewing' });
+      if (!await updateGraph(result.nodes, result.links, source)) {
+        updateQueueItem(item.id, { status: 'failed', error: "Cancelled in duplicate review; nothing was added." });
+        return;
+      }
+      updateQueueItem(item.id, {
+        status: progress?.failedChunks ? 'partial' : 'done',
+        importId: source.id,
+        entities: result.nodes.length,
+        links: result.links.length,
+        failedChunks: progress?.failedChunks,
+        totalChunks: progress?.totalChunks
+      });
+    } catch (err) {
+      console.error(`Queued extraction failed for ${item.file.name}:`, err);
+      updateQueueItem(item.id, { status: 'failed', error: err instanceof Error ? err.message : undefined });
+    }
+  };
+
+  // Work through the queue one file at a time
+  useEffect(() => {
+    if (queuePaused || ingestionQueue.some(item => item.status === 'extracting' || item.status === 'reviewing')) return;
+    const next = ingestionQueue.find(item => item.status === 'pending');
+    if (next) runQueueItem(next);
+  }, [ingestionQueue, queuePaused]);
+
+  const enqueueFiles = (files: File[]) => {
+    setIngestionQueue(prev => [
+      ...prev,
+      ...files.map(file => ({ id: `q-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`, file, status: 'pending' as const }))
+    ]);
+  };
+
+  const handleRemoveImport = (importId: string, removeOrphanedFacts: boolean) => {
+    const record = graphData.imports?.find(r => r.id === importId);
+    pendingOperationsRef.current.push({
+      kind: 'remove-import',
+      label: `Removed import ${record ? record.label : importId}`,
+      importId
     });
+    setGraphData(prev => removeImport(prev, importId, removeOrphanedFacts));
   };
 
   return (
@@ -102,6 +410,37 @@ const App: React.FC = () => {
               Data Import
             </button>
 
+            <button
+              onClick={() => setActiveTab(AppMode.GRAPH_VIEW)}
+              className={`w-full flex items-center px-4 py-3 rounded-full text-sm font-medium transition-all duration-300 ${
+                activeTab === AppMode.GRAPH_VIEW 
+                  ? 'bg-emerald-500/10 text-emerald-400' 
+                  : 'text-slate-400 hover:bg-slate-800/50 hover:text-slate-200'
+              }`}
+            >
+              <svg className={`w-5 h-5 mr-3 ${activeTab === AppMode.GRAPH_VIEW ? 'text-emerald-400' : 'text-slate-500'}`} xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <circle cx="6" cy="6" r="2.5" strokeWidth={2} />
+                <circle cx="18" cy="8" r="2.5" strokeWidth={2} />
+                <circle cx="10" cy="18" r="2.5" strokeWidth={2} />
+                <path strokeLinecap="round" strokeWidth={2} d="M8.3 6.5l7.4 1M7.2 8.2l2 7.5M16.4 10l-4.8 6" />
+              </svg>
+              Graph Explorer
+            </button>
+
+            <button
+              onClick={() => setActiveTab(AppMode.QUERY_CONSOLE)}
+              className={`w-full flex items-center px-4 py-3 rounded-full text-sm font-medium transition-all duration-300 ${
+                activeTab === AppMode.QUERY_CONSOLE 
+                  ? 'bg-amber-500/10 text-amber-400' 
+                  : 'text-slate-400 hover:bg-slate-800/50 hover:text-slate-200'
+              }`}
+            >
+              <svg className={`w-5 h-5 mr-3 ${activeTab === AppMode.QUERY_CONSOLE ? 'text-amber-400' : 'text-slate-500'}`} xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 9l3 3-3 3m5 0h3M5 20h14a2 2 0 002-2V6a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+              </svg>
+              Query Console
+            </button>
+
             <button
               onClick={() => setActiveTab(AppMode.SOLVE_SCENARIO)}
               className={`w-full flex items-center px-4 py-3 rounded-full text-sm font-medium transition-all duration-300 ${
@@ -115,12 +454,72 @@ const App: React.FC = () => {
               </svg>
               Event Solutions
             </button>
+
+            <button
+              onClick={() => setActiveTab(AppMode.ONTOLOGY)}
+              className={`w-full flex items-center px-4 py-3 rounded-full text-sm font-medium transition-all duration-300 ${
+                activeTab === AppMode.ONTOLOGY 
+                  ? 'bg-cyan-500/10 text-cyan-400' 
+                  : 'text-slate-400 hover:bg-slate-800/50 hover:text-slate-200'
+              }`}
+            >
+              <svg className={`w-5 h-5 mr-3 ${activeTab === AppMode.ONTOLOGY ? 'text-cyan-400' : 'text-slate-500'}`} xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11H5m14 0a2 2 0 012 2v6a2 2 0 01-2 2H5a2 2 0 01-2-2v-6a2 2 0 012-2m14 0V9a2 2 0 00-2-2M5 11V9a2 2 0 012-2m0 0V5a2 2 0 012-2h6a2 2 0 012 2v2M7 7h10" />
+              </svg>
+              Ontology
+            </button>
+
+            <button
+              onClick={() => setActiveTab(AppMode.VERSION_HISTORY)}
+              className={`w-full flex items-center px-4 py-3 rounded-full text-sm font-medium transition-all duration-300 ${
+                activeTab === AppMode.VERSION_HISTORY 
+                  ? 'bg-pink-500/10 text-pink-400' 
+                  : 'text-slate-400 hover:bg-slate-800/50 hover:text-slate-200'
+              }`}
+            >
+              <svg className={`w-5 h-5 mr-3 ${activeTab === AppMode.VERSION_HISTORY ? 'text-pink-400' : 'text-slate-500'}`} xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+              </svg>
+              Version History
+            </button>
+
+            <button
+              onClick={() => setActiveTab(AppMode.SETTINGS)}
+              className={`w-full flex items-center px-4 py-3 rounded-full text-sm font-medium transition-all duration-300 ${
+                activeTab === AppMode.SETTINGS 
+                  ? 'bg-slate-500/10 text-slate-200' 
+                  : 'text-slate-400 hover:bg-slate-800/50 hover:text-slate-200'
+              }`}
+            >
+              <svg className={`w-5 h-5 mr-3 ${activeTab === AppMode.SETTINGS ? 'text-slate-200' : 'text-slate-500'}`} xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" />
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+              </svg>
+              Model Settings
+            </button>
           </nav>
         </div>
 
         <div className="p-6">
+             <WorkspaceSwitcher
+               workspaces={workspaces}
+               activeWorkspaceId={activeWorkspaceId}
+               onSwitch={handleSwitchWorkspace}
+               onCreate={handleCreateWorkspace}
+               onRename={handleRenameWorkspace}
+               onDuplicate={handleDuplicateWorkspace}
+               onDelete={handleDeleteWorkspace}
+               error={workspaceError}
+               onDismissError={() => setWorkspaceError(null)}
+             />
              <div className="p-5 rounded-3xl bg-slate-800/30 border border-slate-700/30">
                <h3 className="text-xs font-semibold text-slate-400 uppercase tracking-wider mb-4">Knowledge Base Stats</h3>
+               <div className="flex justify-between items-center gap-3 mb-3">
+                 <span className="text-sm text-slate-300">Workspace</span>
+                 <span className="text-sm font-bold text-white bg-slate-700/50 px-2 py-0.5 rounded-md truncate" title={activeWorkspace?.name}>
+                   {activeWorkspace?.name || 'Loading...'}
+                 </span>
+               </div>
                <div className="flex justify-between items-center mb-3">
                  <span className="text-sm text-slate-300">Entities</span>
                  <span className="text-sm font-bold text-white bg-slate-700/50 px-2 py-0.5 rounded-md">{graphData.nodes.length}</span>
@@ -129,6 +528,24 @@ const App: React.FC = () => {
                  <span className="text-sm text-slate-300">Connections</span>
                  <span className="text-sm font-bold text-white bg-slate-700/50 px-2 py-0.5 rounded-md">{graphData.links.length}</span>
                </div>
+               <div className="flex gap-2 mt-4">
+                 <button
+                   onClick={undo}
+                   disabled={!undoStack.length}
+                   className="flex-1 px-3 py-1.5 rounded-full text-xs font-medium bg-slate-700/40 hover:bg-slate-700/70 text-slate-300 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+                   title={undoStack.length ? `Undo: ${undoStack[undoStack.length - 1].label}` : 'Nothing to undo'}
+                 >
+                   ↶ Undo
+                 </button>
+                 <button
+                   onClick={redo}
+                   disabled={!redoStack.length}
+                   className="flex-1 px-3 py-1.5 rounded-full text-xs font-medium bg-slate-700/40 hover:bg-slate-700/70 text-slate-300 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+                   title={redoStack.length ? `Redo: ${redoStack[redoStack.length - 1].label}` : 'Nothing to redo'}
+                 >
+                   ↷ Redo
+                 </button>
+               </div>
                <div className="mt-5 pt-4 border-t border-slate-700/30 flex items-center gap-2">
                  <div className="relative flex h-2.5 w-2.5">
                     <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-emerald-400 opacity-75"></span>
@@ -142,19 +559,93 @@ const App: React.FC = () => {
 
       {/* Main Content Area */}
       <main className="flex-1 h-full relative overflow-hidden">
-        <div className="h-full w-full max-w-5xl mx-auto p-8 lg:p-12 overflow-y-auto custom-scrollbar">
+        <div className={`h-full w-full mx-auto p-8 lg:p-12 overflow-y-auto custom-scrollbar ${activeTab === AppMode.GRAPH_VIEW ? 'max-w-none' : 'max-w-5xl'}`}>
            {activeTab === AppMode.IMPORT_DATA && (
              <div className="animate-fade-in">
-               <DataImporter currentGraph={graphData} onUpdateGraph={updateGraph} />
+               <DataImporter
+                 currentGraph={graphData}
+                 onUpdateGraph={updateGraph}
+                 onRemoveImport={handleRemoveImport}
+                 queue={ingestionQueue}
+                 queuePaused={queuePaused}
+                 onEnqueueFiles={enqueueFiles}
+                 onQueueChange={setIngestionQueue}
+                 onToggleQueuePause={() => setQueuePaused(p => !p)}
+               />
+             </div>
+           )}
+           {activeTab === AppMode.GRAPH_VIEW && (
+             <div className="animate-fade-in h-full">
+               <GraphExplorer
+                 key={activeWorkspaceId ?? undefined}
+                 data={graphData}
+                 onGraphChange={setGraphData}
+                 highlight={graphHighlight}
+                 onClearHighlight={() => setGraphHighlight(null)}
+                 layout={graphLayout}
+                 onLayoutChange={handleLayoutChange}
+               />
+             </div>
+           )}
+           {activeTab === AppMode.QUERY_CONSOLE && (
+             <div className="animate-fade-in">
+               <QueryConsole
+                 graph={graphData}
+                 onShowInGraph={(nodeIds, label, focusNodeId) => {
+                   setGraphHighlight({ nodeIds, label, focusNodeId });
+                   setActiveTab(AppMode.GRAPH_VIEW);
+                 }}
+               />
              </div>
            )}
            {activeTab === AppMode.SOLVE_SCENARIO && (
              <div className="animate-fade-in">
-               <ScenarioSolver knowledgeGraph={graphData} />
+               <ScenarioSolver
+                 knowledgeGraph={graphData}
+                 workspaceId={activeWorkspaceId}
+                 onUpdateGraph={updateGraph}
+                 onOpenEntity={(id) => {
+                   setGraphHighlight({ nodeIds: new Set([id]), label: `"${id}" from the solution`, focusNodeId: id });
+                   setActiveTab(AppMode.GRAPH_VIEW);
+                 }}
+               />
+             </div>
+           )}
+           {activeTab === AppMode.ONTOLOGY && (
+             <div className="animate-fade-in">
+               <OntologyEditor graph={graphData} onGraphChange={editGraph} />
+             </div>
+           )}
+           {activeTab === AppMode.VERSION_HISTORY && (
+             <div className="animate-fade-in">
+               <VersionHistory
+                 workspaceId={activeWorkspaceId}
+                 graph={graphData}
+                 revision={versionsRevision}
+                 undoLabel={undoStack[undoStack.length - 1]?.label}
+                 redoLabel={redoStack[redoStack.length - 1]?.label}
+                 onUndo={undo}
+                 onRedo={redo}
+                 onRestore={restoreVersion}
+               />
+             </div>
+           )}
+           {activeTab === AppMode.SETTINGS && (
+             <div className="animate-fade-in">
+               <ModelSettings />
              </div>
            )}
         </div>
       </main>
+
+      {pendingMerge && (
+        <MergeReview
+          key={pendingMerge.source?.id ?? 'pending-merge'}
+          proposals={pendingMerge.proposals}
+          onConfirm={confirmPendingMerge}
+          onCancel={cancelPendingMerge}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,84 @@
+import React from 'react';
+import { ActionPlan, PlanPriority } from '../types';
+
+interface ActionPlanViewProps {
+  plan: ActionPlan;
+  onToggleStep: (index: number) => void;
+}
+
+const PRIORITY_STYLES: Record<PlanPriority, string> = {
+  high: 'bg-red-500/10 text-red-300',
+  medium: 'bg-amber-500/10 text-amber-300',
+  low: 'bg-slate-800 text-slate-400'
+};
+
+const ActionPlanView: React.FC<ActionPlanViewProps> = ({ plan, onToggleStep }) => {
+  const doneCount = plan.steps.filter(s => s.done).length;
+
+  return (
+    <div className="space-y-8">
+      {plan.summary && <p className="text-slate-300 leading-relaxed">{plan.summary}</p>}
+
+      {plan.steps.length > 0 && (
+        <div>
+          <div className="flex items-center justify-between mb-3">
+            <h4 className="text-sm font-semibold text-slate-500 uppercase tracking-widest">Action Steps</h4>
+            <span className="text-xs text-slate-500">{doneCount} of {plan.steps.length} done</span>
+          </div>
+          <ol className="space-y-2">
+            {plan.steps.map((step, idx) => (
+              <li key={idx}>
+                <label className={`flex items-start gap-4 p-4 rounded-2xl border cursor-pointer transition-colors ${
+                  step.done ? 'border-emerald-500/20 bg-emerald-500/5' : 'border-slate-800 bg-[#0b0f19]'
+                }`}>
+                  <input type="checkbox" checked={!!step.done} onChange={() => onToggleStep(idx)} className="accent-emerald-500 mt-1" />
+                  <div className="flex-1 min-w-0">
+                    <p className={`text-sm font-medium ${step.done ? 'text-slate-500 line-through' : 'text-slate-200'}`}>
+                      {idx + 1}. {step.title}
+                    </p>
+                    {step.description && <p className="text-sm text-slate-400 mt-1">{step.description}</p>}
+                    <div className="flex flex-wrap items-center gap-1.5 mt-2 text-[11px]">
+                      <span className={`px-2 py-0.5 rounded-md font-bold uppercase ${PRIORITY_STYLES[step.priority]}`}>{step.priority}</span>
+                      {step.owner && <span className="px-2 py-0.5 rounded-md bg-blue-500/10 text-blue-300">{step.owner}</span>}
+                      {step.timeline && <span className="px-2 py-0.5 rounded-md bg-slate-800 text-slate-400">{step.timeline}</span>}
+                      {step.nodeIds.map(id => (
+                        <span key={id} className="px-2 py-0.5 rounded-md bg-purple-500/10 text-purple-300" title="Internal knowledge this step relies on">
+                          {id}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                </label>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+
+      {plan.risks.length > 0 && (
+        <div>
+          <h4 className="text-sm font-semibold text-slate-500 uppercase tracking-widest mb-3">Risks & Mitigations</h4>
+          <div className="rounded-2xl border border-slate-800 divide-y divide-slate-800 text-sm">
+            {plan.risks.map((r, idx) => (
+              <div key={idx} className="grid grid-cols-1 md:grid-cols-2 gap-2 md:gap-6 p-4">
+                <p className="text-red-200">{r.risk}</p>
+                <p className="text-slate-400">{r.mitigation || '—'}</p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {plan.assumptions.length > 0 && (
+        <div>
+          <h4 className="text-sm font-semibold text-slate-500 uppercase tracking-widest mb-3">Assumptions</h4>
+          <ul className="list-disc pl-5 space-y-1 text-sm text-slate-400">
+            {plan.assumptions.map((a, idx) => <li key={idx}>{a}</li>)}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ActionPlanView;
@@ -1,41 +1,83 @@
 import React, { useState, useRef } from 'react';
 import { extractKnowledgeFromText, FileInput } from '../services/geminiService';
-import { KnowledgeGraphData } from '../types';
+import { runChunkedExtraction, ExtractionProgress } from '../services/extractionPipeline';
+import { createImportRecord, countFactsOnlyFrom } from '../services/provenance';
+import { KnowledgeGraphData, GraphNode, GraphLink, ImportRecord } from '../types';
+import { readSourceFile, SOURCE_FILE_ACCEPT } from '../services/sourceFiles';
+import ImportReview from './ImportReview';
+import IngestionQueue, { QueueItem } from './IngestionQueue';
+import GraphInterchange from './GraphInterchange';
+
+const IMPORT_KIND_LABELS: Record<ImportRecord['kind'], string> = {
+  file: 'File',
+  text: 'Text',
+  scenario: 'Scenario'
+};
 
 interface DataImporterProps {
   currentGraph: KnowledgeGraphData;
-  onUpdateGraph: (newNodes: any[], newLinks: any[]) => void;
+  onUpdateGraph: (newNodes: any[], newLinks: any[], source?: ImportRecord) => Promise<boolean>; // False if cancelled in merge review
+  onRemoveImport: (importId: string, removeOrphanedFacts: boolean) => void;
+  // The ingestion queue is run by the app, so it carries on while other tabs are open
+  queue: QueueItem[];
+  queuePaused: boolean;
+  onEnqueueFiles: (files: File[]) => void;
+  onQueueChange: (update: (queue: QueueItem[]) => QueueItem[]) => void;
+  onToggleQueuePause: () => void;
 }
 
-const DataImporter: React.FC<DataImporterProps> = ({ currentGraph, onUpdateGraph }) => {
+const DataImporter: React.FC<DataImporterProps> = ({
+  currentGraph, onUpdateGraph, onRemoveImport, queue, queuePaused, onEnqueueFiles, onQueueChange, onToggleQueuePause
+}) => {
   const [inputText, setInputText] = useState('');
+  const [textFileName, setTextFileName] = useState<string | null>(null);
+  const [removeOrphanedFacts, setRemoveOrphanedFacts] = useState(true);
+  const [staged, setStaged] = useState<{ extraction: KnowledgeGraphData; source: ImportRecord } | null>(null);
   const [uploadedFile, setUploadedFile] = useState<{ name: string; fileInput: FileInput } | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [progress, setProgress] = useState<ExtractionProgress | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
   const [notification, setNotification] = useState<{ type: 'success' | 'error', message: string } | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const processInput = async () => {
     setIsProcessing(true);
     setNotification(null);
+    setProgress(null);
 
     try {
       // Prioritize uploaded file if exists, otherwise use text input
-      const input = uploadedFile ? uploadedFile.fileInput : inputText;
-      
-      const result = await extractKnowledgeFromText(input, currentGraph);
-      
-      onUpdateGraph(result.nodes, result.links);
-      
-      // Reset state
-      setInputText('');
-      setUploadedFile(null);
-      if (fileInputRef.current) fileInputRef.current.value = '';
+      const source = uploadedFile
+        ? createImportRecord('file', uploadedFile.name)
+        : textFileName ? createImportRecord('file', textFileName) : createImportRecord('text', inputText);
 
-      setNotification({
-        type: 'success',
-        message: `Successfully integrated ${result.nodes.length} entities & ${result.links.length} links into the graph.`
+      if (uploadedFile) {
+        // Binary documents go to the model whole
+        const result = await extractKnowledgeFromText(uploadedFile.fileInput, currentGraph, source.id);
+        setStaged({ extraction: result, source });
+        return;
+      }
+
+      const controller = new AbortController();
+      abortRef.current = controller;
+      const { graph, progress: finalProgress, cancelled } = await runChunkedExtraction(inputText, currentGraph, {
+        importId: source.id,
+        signal: controller.signal,
+        onProgress: setProgress
       });
-      setTimeout(() => setNotification(null), 5000);
+
+      // Hold the extraction for review before anything lands in the graph
+      setStaged({ extraction: graph, source });
+      if (cancelled || finalProgress.failedChunks > 0) {
+        const skipped = finalProgress.totalChunks - finalProgress.completedChunks;
+        setNotification({
+          type: 'error',
+          message: cancelled
+            ? `Extraction cancelled after ${finalProgress.completedChunks} of ${finalProgress.totalChunks} chunks. Review the partial results below.`
+            : `${skipped} of ${finalProgress.totalChunks} chunks could not be extracted. Review the partial results below.`
+        });
+      }
     } catch (err) {
       console.error(err);
       setNotification({
@@ -43,66 +85,109 @@ const DataImporter: React.FC<DataImporterProps> = ({ currentGraph, onUpdateGraph
         message: "Processing failed. Please check the input format and try again."
       });
     } finally {
+      abortRef.current = null;
       setIsProcessing(false);
+      setProgress(null);
     }
   };
 
-  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
-
-    // Allowed mime types for binary processing
-    const binaryMimeTypes = [
-      'application/pdf',
-      'application/vnd.openxmlformats-officedocument.wordprocessingml.document', // docx
-      'application/msword', // doc
-      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', // xlsx
-      'application/vnd.ms-excel', // xls
-      'application/vnd.openxmlformats-officedocument.presentationml.presentation', // pptx
-      'application/vnd.ms-powerpoint' // ppt
-    ];
-
-    const isBinary = binaryMimeTypes.includes(file.type);
-
-    const reader = new FileReader();
-    
-    reader.onload = (event) => {
-      const result = event.target?.result as string;
-      
-      if (isBinary) {
-        // For binary files, we keep the base64 data for the API
-        // result format is "data:application/pdf;base64,....."
-        const base64Data = result.split(',')[1];
-        setUploadedFile({
-          name: file.name,
-          fileInput: {
-            mimeType: file.type,
-            data: base64Data
-          }
-        });
-        setInputText(''); // Clear text input if file is selected
-      } else {
-        // For text-based files, we can just put it in the textarea
-        setInputText(result);
-        setUploadedFile(null);
-      }
-    };
+  const commitStaged = async (nodes: GraphNode[], links: GraphLink[]) => {
+    if (!staged) return;
+    setStaged(null);
+    setNotification(null);
+    if (!await onUpdateGraph(nodes, links, staged.source)) {
+      // Keep the input so it can be ingested again
+      setNotification({ type: 'error', message: "Import cancelled in duplicate review; nothing was added to the graph." });
+      return;
+    }
+
+    // Reset state
+    setInputText('');
+    setTextFileName(null);
+    setUploadedFile(null);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+
+    setNotification({
+      type: 'success',
+      message: `Successfully integrated ${nodes.length} entities & ${links.length} links into the graph.`
+    });
+    setTimeout(() => setNotification(null), 5000);
+  };
 
-    if (isBinary) {
-      reader.readAsDataURL(file);
+  const selectFile = async (file: File) => {
+    const input = await readSourceFile(file);
+    if (typeof input === 'string') {
+      // Text-based files go into the textarea
+      setInputText(input);
+      setTextFileName(file.name);
+      setUploadedFile(null);
     } else {
-      reader.readAsText(file);
+      // Binary files keep the base64 data for the API
+      setUploadedFile({ name: file.name, fileInput: input });
+      setInputText(''); // Clear text input if file is selected
+    }
+  };
+
+  // A single file goes through the review flow; several go to the queue
+  const handleFiles = (files: File[]) => {
+    if (files.length > 1) {
+      onEnqueueFiles(files);
+    } else if (files.length === 1) {
+      selectFile(files[0]).catch(err => {
+        console.error(err);
+        setNotification({ type: 'error', message: `Could not read ${files[0].name}.` });
+      });
     }
-    
+  };
+
+  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    handleFiles(e.target.files ? Array.from<File>(e.target.files) : []);
     // Reset the input value so the same file can be selected again if needed
     e.target.value = '';
   };
 
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    handleFiles(Array.from<File>(e.dataTransfer.files));
+  };
+
   const clearFile = (e: React.MouseEvent) => {
     e.stopPropagation();
     setUploadedFile(null);
   };
 
+  const handleRemoveImport = (record: ImportRecord) => {
+    const orphaned = countFactsOnlyFrom(currentGraph, record.id);
+    const message = removeOrphanedFacts
+      ? `Remove "${record.label}"? ${orphaned.nodes} entities and ${orphaned.links} links found only in this import will be deleted.`
+      : `Remove "${record.label}" from the import history? Its facts stay in the graph without this source.`;
+    if (window.confirm(message)) onRemoveImport(record.id, removeOrphanedFacts);
+  };
+
+  const imports = [...(currentGraph.imports || [])].reverse();
+
+  const queuedImportIds = new Set(queue.map(item => item.importId).filter(Boolean));
+  const queueSummary = {
+    entities: currentGraph.nodes.filter(n => n.provenance?.some(p => queuedImportIds.has(p.importId))).length,
+    links: currentGraph.links.filter(l => l.provenance?.some(p => queuedImportIds.has(p.importId))).length
+  };
+
+  const notificationBanner = notification && (
+    <div className={`mb-6 p-4 rounded-2xl flex items-center gap-3 ${
+      notification.type === 'success' 
+        ? 'bg-emerald-500/10 text-emerald-300 border border-emerald-500/20' 
+        : 'bg-red-500/10 text-red-300 border border-red-500/20'
+    }`}>
+       {notification.type === 'success' ? (
+           <svg className="w-5 h-5 flex-shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" /></svg>
+       ) : (
+           <svg className="w-5 h-5 flex-shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
+       )}
+      <p className="text-sm font-medium">{notification.message}</p>
+    </div>
+  );
+
   return (
     <div className="flex flex-col gap-10 max-w-4xl mx-auto">
       <div className="text-center space-y-4 mb-4">
@@ -114,6 +199,18 @@ const DataImporter: React.FC<DataImporterProps> = ({ currentGraph, onUpdateGraph
         </p>
       </div>
 
+      {staged ? (
+        <>
+          {notificationBanner}
+          <ImportReview
+            currentGraph={currentGraph}
+            extraction={staged.extraction}
+            source={staged.source}
+            onCommit={commitStaged}
+            onDiscard={() => { setStaged(null); setNotification(null); }}
+          />
+        </>
+      ) : (
       <div className="bg-[#13161f] rounded-[2rem] p-8 border border-slate-800/50 shadow-2xl">
         
         {/* File Upload Zone - Gemini Style */}
@@ -121,16 +218,21 @@ const DataImporter: React.FC<DataImporterProps> = ({ currentGraph, onUpdateGraph
           className={`group border-2 border-dashed transition-all duration-300 rounded-3xl p-8 mb-6 cursor-pointer text-center relative
             ${uploadedFile 
               ? 'border-emerald-500/50 bg-emerald-500/5' 
-              : 'border-slate-700/50 hover:border-blue-500/50 hover:bg-slate-800/30'
+              : isDragging
+                ? 'border-blue-500/50 bg-slate-800/30'
+                : 'border-slate-700/50 hover:border-blue-500/50 hover:bg-slate-800/30'
             }`}
           onClick={() => fileInputRef.current?.click()}
+          onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={handleDrop}
         >
           <input 
             type="file" 
             ref={fileInputRef} 
             className="hidden" 
-            // Extended Accept List
-            accept=".txt,.md,.json,.csv,.log,.pdf,.doc,.docx,.xls,.xlsx,.ppt,.pptx"
+            multiple
+            accept={SOURCE_FILE_ACCEPT}
             onChange={handleFileUpload}
           />
           
@@ -156,8 +258,8 @@ const DataImporter: React.FC<DataImporterProps> = ({ currentGraph, onUpdateGraph
                 <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="text-blue-400"><path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"/><polyline points="17 8 12 3 7 8"/><line x1="12" x2="12" y1="3" y2="15"/></svg>
               </div>
               <div>
-                  <p className="text-slate-200 font-medium text-lg">Upload Source File</p>
-                  <p className="text-slate-500 text-sm mt-1">PDF, Excel, Word, PPT, TXT, JSON</p>
+                  <p className="text-slate-200 font-medium text-lg">Upload or Drop Source Files</p>
+                  <p className="text-slate-500 text-sm mt-1">PDF, Excel, Word, PPT, TXT, JSON • several files are queued and added directly</p>
               </div>
             </div>
           )}
@@ -170,7 +272,10 @@ const DataImporter: React.FC<DataImporterProps> = ({ currentGraph, onUpdateGraph
               className="w-full h-64 bg-[#0b0f19] border border-slate-800 rounded-3xl p-6 text-slate-200 focus:ring-2 focus:ring-blue-500/50 focus:border-transparent outline-none resize-none transition-all placeholder:text-slate-600 font-sans text-base leading-relaxed shadow-inner"
               placeholder="Or paste your raw knowledge content here..."
               value={inputText}
-              onChange={(e) => setInputText(e.target.value)}
+              onChange={(e) => {
+                setInputText(e.target.value);
+                if (!e.target.value) setTextFileName(null);
+              }}
               disabled={isProcessing}
             />
             {inputText && (
@@ -181,22 +286,32 @@ const DataImporter: React.FC<DataImporterProps> = ({ currentGraph, onUpdateGraph
           </div>
         )}
 
-        {notification && (
-          <div className={`mb-6 p-4 rounded-2xl flex items-center gap-3 ${
-            notification.type === 'success' 
-              ? 'bg-emerald-500/10 text-emerald-300 border border-emerald-500/20' 
-              : 'bg-red-500/10 text-red-300 border border-red-500/20'
-          }`}>
-             {notification.type === 'success' ? (
-                 <svg className="w-5 h-5 flex-shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" /></svg>
-             ) : (
-                 <svg className="w-5 h-5 flex-shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
-             )}
-            <p className="text-sm font-medium">{notification.message}</p>
+        {notificationBanner}
+
+        {isProcessing && progress && progress.totalChunks > 1 && (
+          <div className="mb-6 animate-fade-in">
+            <div className="flex justify-between text-xs text-slate-400 mb-2">
+              <span>Chunk {Math.min(progress.completedChunks + progress.failedChunks + 1, progress.totalChunks)} of {progress.totalChunks}</span>
+              <span>{progress.entities} entities & {progress.links} links so far{progress.failedChunks > 0 && ` • ${progress.failedChunks} failed`}</span>
+            </div>
+            <div className="h-1.5 bg-slate-800 rounded-full overflow-hidden">
+              <div
+                className="h-full gemini-button-gradient transition-all duration-300"
+                style={{ width: `${((progress.completedChunks + progress.failedChunks) / progress.totalChunks) * 100}%` }}
+              />
+            </div>
           </div>
         )}
 
-        <div className="flex justify-end">
+        <div className="flex justify-end gap-3">
+          {isProcessing && !uploadedFile && (
+            <button
+              onClick={() => abortRef.current?.abort()}
+              className="px-6 py-4 rounded-full font-medium bg-slate-800 hover:bg-slate-700 text-slate-300 transition-colors"
+            >
+              Cancel
+            </button>
+          )}
           <button
             onClick={processInput}
             disabled={isProcessing || (!inputText.trim() && !uploadedFile)}
@@ -225,6 +340,62 @@ const DataImporter: React.FC<DataImporterProps> = ({ currentGraph, onUpdateGraph
           </button>
         </div>
       </div>
+      )}
+
+      {queue.length > 0 && (
+        <IngestionQueue
+          items={queue}
+          paused={queuePaused}
+          summary={queueSummary}
+          onTogglePause={onToggleQueuePause}
+          onRetry={(id) => onQueueChange(prev => prev.map(item => item.id === id ? { ...item, status: 'pending' as const } : item))}
+          onRemove={(id) => onQueueChange(prev => prev.filter(item => item.id !== id))}
+          onClearFinished={() => onQueueChange(prev => prev.filter(item => item.status === 'pending' || item.status === 'extracting' || item.status === 'reviewing'))}
+        />
+      )}
+
+      <GraphInterchange currentGraph={currentGraph} onUpdateGraph={onUpdateGraph} />
+
+      {imports.length > 0 && (
+        <div className="bg-[#13161f] rounded-[2rem] p-8 border border-slate-800/50 shadow-2xl">
+          <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+            <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-widest">Import History</h3>
+            <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={removeOrphanedFacts}
+                onChange={(e) => setRemoveOrphanedFacts(e.target.checked)}
+                className="accent-blue-500"
+              />
+              On removal, also delete facts found only in that import
+            </label>
+          </div>
+          <ul className="space-y-2">
+            {imports.map(record => {
+              const onlyHere = countFactsOnlyFrom(currentGraph, record.id);
+              return (
+                <li key={record.id} className="flex items-center gap-4 p-4 rounded-2xl bg-[#0b0f19] border border-slate-800">
+                  <span className="flex-shrink-0 px-2 py-0.5 rounded-md bg-slate-800 text-[10px] font-bold uppercase text-slate-400">
+                    {IMPORT_KIND_LABELS[record.kind]}
+                  </span>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-slate-200 truncate" title={record.label}>{record.label}</p>
+                    <p className="text-xs text-slate-500 mt-0.5">
+                      {new Date(record.createdAt).toLocaleString()} • {onlyHere.nodes} entities & {onlyHere.links} links only from here
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => handleRemoveImport(record)}
+                    className="flex-shrink-0 px-3 py-1.5 bg-slate-800 hover:bg-red-500/10 text-slate-300 hover:text-red-400 rounded-lg text-xs font-medium transition-colors"
+                  >
+                    Remove
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,141 @@
+import React, { useEffect, useState } from 'react';
+import { PropertyType } from '../types';
+import { GraphDetails, PROPERTY_TYPES, formatPropertyValue, toProperty, validatePropertyValue } from '../services/properties';
+import { isSafeHref } from '../services/markdown';
+
+interface DetailsEditorProps {
+  details: GraphDetails;
+  onSave: (details: GraphDetails) => boolean; // Returns false when the edit was rejected
+}
+
+interface PropertyRow {
+  key: string;
+  type: PropertyType;
+  text: string;
+}
+
+const inputClass = "w-full bg-[#0b0f19] border border-slate-700 rounded-lg px-2 py-1 text-xs text-slate-200 outline-none focus:ring-2 focus:ring-blue-500/50";
+const smallButtonClass = "px-3 py-1.5 bg-slate-800 hover:bg-slate-700 text-slate-300 hover:text-white rounded-lg text-xs font-medium transition-colors disabled:opacity-40 disabled:cursor-not-allowed";
+
+const INPUT_TYPES: Partial<Record<PropertyType, string>> = { number: 'number', date: 'date', url: 'url' };
+
+const toRows = (details: GraphDetails): PropertyRow[] =>
+  (details.properties || []).map(p => ({ key: p.key, type: p.type, text: String(p.value) }));
+
+/**
+ * Description and typed properties of an entity or relationship, shown read-only
+ * until "Edit" is pressed.
+ */
+const DetailsEditor: React.FC<DetailsEditorProps> = ({ details, onSave }) => {
+  const [editing, setEditing] = useState(false);
+  const [description, setDescription] = useState(details.description || '');
+  const [rows, setRows] = useState<PropertyRow[]>(() => toRows(details));
+  const [error, setError] = useState<string | null>(null);
+
+  const reset = () => {
+    setDescription(details.description || '');
+    setRows(toRows(details));
+    setError(null);
+  };
+
+  useEffect(() => {
+    if (!editing) reset();
+  }, [details, editing]);
+
+  const updateRow = (index: number, patch: Partial<PropertyRow>) =>
+    setRows(prev => prev.map((row, i) => (i === index ? { ...row, ...patch } : row)));
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    const filled = rows.filter(row => row.key.trim() || row.text.trim());
+    for (const row of filled) {
+      if (!row.key.trim()) return setError("Every property needs a name.");
+      const invalid = validatePropertyValue(row.type, row.text);
+      if (invalid) return setError(`${row.key.trim()}: ${invalid}`);
+    }
+    const saved = onSave({
+      description,
+      properties: filled.map(row => toProperty(row.key.trim(), row.text, row.type))
+    });
+    if (saved) setEditing(false);
+  };
+
+  if (!editing) {
+    const properties = details.properties || [];
+    return (
+      <div className="space-y-2 text-sm">
+        {details.description
+          ? <p className="text-slate-300 leading-relaxed">{details.description}</p>
+          : !properties.length && <p className="text-xs text-slate-500">No description or properties.</p>}
+        {properties.length > 0 && (
+          <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-xs">
+            {properties.map(p => (
+              <React.Fragment key={p.key}>
+                <dt className="text-slate-500">{p.key}</dt>
+                <dd className="text-slate-300 break-words min-w-0">
+                  {p.type === 'url' && isSafeHref(String(p.value))
+                    ? <a href={String(p.value)} target="_blank" rel="noopener noreferrer" className="text-blue-300 hover:text-blue-200">{String(p.value)}</a>
+                    : formatPropertyValue(p)}
+                </dd>
+              </React.Fragment>
+            ))}
+          </dl>
+        )}
+        <button onClick={() => setEditing(true)} className={smallButtonClass}>Edit Details</button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSave} className="space-y-2">
+      <textarea
+        value={description}
+        onChange={(e) => setDescription(e.target.value)}
+        placeholder="Description"
+        rows={3}
+        className={`${inputClass} resize-y`}
+      />
+      {rows.map((row, i) => (
+        <div key={i} className="flex items-center gap-1">
+          <input value={row.key} onChange={(e) => updateRow(i, { key: e.target.value })} placeholder="Name" className={`${inputClass} !w-24`} />
+          <select value={row.type} onChange={(e) => updateRow(i, { type: e.target.value as PropertyType })} className={`${inputClass} !w-20`}>
+            {PROPERTY_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+          </select>
+          {row.type === 'boolean' ? (
+            <select value={row.text} onChange={(e) => updateRow(i, { text: e.target.value })} className={inputClass}>
+              <option value="">—</option>
+              <option value="true">Yes</option>
+              <option value="false">No</option>
+            </select>
+          ) : (
+            <input
+              type={INPUT_TYPES[row.type] ?? 'text'}
+              value={row.text}
+              onChange={(e) => updateRow(i, { text: e.target.value })}
+              placeholder="Value"
+              className={inputClass}
+            />
+          )}
+          <button
+            type="button"
+            onClick={() => setRows(prev => prev.filter((_, j) => j !== i))}
+            className="flex-shrink-0 text-slate-500 hover:text-red-400 text-xs"
+            title="Remove property"
+          >
+            ✕
+          </button>
+        </div>
+      ))}
+      {error && <p className="text-xs text-red-300">{error}</p>}
+      <div className="flex gap-2">
+        <button type="button" onClick={() => setRows(prev => [...prev, { key: '', type: 'string', text: '' }])} className={smallButtonClass}>
+          + Property
+        </button>
+        <button type="submit" className={smallButtonClass}>Save</button>
+        <button type="button" onClick={() => { reset(); setEditing(false); }} className={smallButtonClass}>Cancel</button>
+      </div>
+    </form>
+  );
+};
+
+export default DetailsEditor;
@@ -0,0 +1,221 @@
+import React, { useMemo, useState } from 'react';
+import { KnowledgeGraphData } from '../types';
+import {
+  CentralityMetric, CENTRALITY_LABELS, computeCentrality, findOrphans, shortestPath
+} from '../services/graphAnalytics';
+import { findNodeByName } from '../services/graphUtils';
+
+// 'weight' uses each node's `val`, derived from its mentions and degree for extracted entities
+export type NodeSizing = CentralityMetric | 'weight' | 'uniform';
+export type NodeColoring = 'group' | 'community' | 'component';
+
+interface GraphAnalyticsPanelProps {
+  graph: KnowledgeGraphData;
+  communities: string[][];
+  components: string[][];
+  clusterColor: (index: number) => string;
+  sizeBy: NodeSizing;
+  colorBy: NodeColoring;
+  onSizeByChange: (sizing: NodeSizing) => void;
+  onColorByChange: (coloring: NodeColoring) => void;
+  onSelectNode: (id: string, focus?: boolean) => void;
+  onHighlight: (ids: Set<string> | null) => void;
+}
+
+const TOP_COUNT = 10;
+
+const sectionTitleClass = "text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2";
+const selectClass = "w-full bg-[#0b0f19] border border-slate-700 rounded-lg px-3 py-1.5 text-sm text-slate-200 outline-none focus:ring-2 focus:ring-blue-500/50";
+
+const formatScore = (metric: CentralityMetric, value: number) =>
+  metric === 'degree' ? String(value) : value.toFixed(3);
+
+const GraphAnalyticsPanel: React.FC<GraphAnalyticsPanelProps> = ({
+  graph, communities, components, clusterColor, sizeBy, colorBy,
+  onSizeByChange, onColorByChange, onSelectNode, onHighlight
+}) => {
+  const [metric, setMetric] = useState<CentralityMetric>('degree');
+  const [pathEnds, setPathEnds] = useState({ from: '', to: '' });
+  const [pathResult, setPathResult] = useState<ReturnType<typeof shortestPath> | null>(null);
+  const [pathError, setPathError] = useState<string | null>(null);
+
+  const ranking = useMemo(() => {
+    const scores = computeCentrality(graph, metric);
+    return Array.from(scores).sort((a, b) => b[1] - a[1]).slice(0, TOP_COUNT);
+  }, [graph, metric]);
+
+  const orphans = useMemo(() => findOrphans(graph), [graph]);
+
+  const n = graph.nodes.length;
+  const density = n > 1 ? graph.links.length / (n * (n - 1)) : 0;
+
+  const findPath = (e: React.FormEvent) => {
+    e.preventDefault();
+    const from = findNodeByName(graph, pathEnds.from);
+    const to = findNodeByName(graph, pathEnds.to);
+    if (!from || !to) {
+      setPathResult(null);
+      setPathError(`No entity named "${!from ? pathEnds.from : pathEnds.to}".`);
+      return;
+    }
+    const path = shortestPath(graph, from, to);
+    setPathResult(path ?? null);
+    setPathError(path ? null : `${from} and ${to} are not connected.`);
+    onHighlight(path ? new Set(path.nodeIds) : null);
+  };
+
+  return (
+    <div className="w-80 flex-shrink-0 overflow-y-auto custom-scrollbar bg-[#13161f] rounded-2xl border border-slate-800/50 p-5 space-y-6 animate-fade-in">
+      <div>
+        <h3 className="text-lg font-semibold text-white">Graph Analytics</h3>
+        <div className="grid grid-cols-2 gap-2 mt-3 text-xs">
+          {[
+            ['Entities', n],
+            ['Links', graph.links.length],
+            ['Components', components.length],
+            ['Communities', communities.length],
+            ['Orphans', orphans.length],
+            ['Density', density.toFixed(3)]
+          ].map(([label, value]) => (
+            <div key={label} className="px-3 py-2 rounded-lg bg-[#0b0f19] border border-slate-800">
+              <p className="text-slate-500">{label}</p>
+              <p className="text-slate-200 font-semibold mt-0.5">{value}</p>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <label>
+          <p className={sectionTitleClass}>Size by</p>
+          <select value={sizeBy} onChange={(e) => onSizeByChange(e.target.value as NodeSizing)} className={selectClass}>
+            <option value="uniform">Uniform</option>
+            <option value="weight">Mentions</option>
+            {(Object.keys(CENTRALITY_LABELS) as CentralityMetric[]).map(m => <option key={m} value={m}>{CENTRALITY_LABELS[m]}</option>)}
+          </select>
+        </label>
+        <label>
+          <p className={sectionTitleClass}>Colour by</p>
+          <select value={colorBy} onChange={(e) => onColorByChange(e.target.value as NodeColoring)} className={selectClass}>
+            <option value="group">Group</option>
+            <option value="community">Community</option>
+            <option value="component">Component</option>
+          </select>
+        </label>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <p className={sectionTitleClass + " mb-0"}>Most central</p>
+          <select value={metric} onChange={(e) => setMetric(e.target.value as CentralityMetric)} className="bg-transparent text-xs text-slate-400 outline-none">
+            {(Object.keys(CENTRALITY_LABELS) as CentralityMetric[]).map(m => <option key={m} value={m}>{CENTRALITY_LABELS[m]}</option>)}
+          </select>
+        </div>
+        <ol className="space-y-1">
+          {ranking.map(([id, score]) => (
+            <li key={id}>
+              <button onClick={() => onSelectNode(id, true)} className="w-full flex justify-between gap-2 px-2 py-1 rounded-md text-sm hover:bg-slate-800 text-left">
+                <span className="text-slate-200 truncate">{id}</span>
+                <span className="text-slate-500 text-xs flex-shrink-0">{formatScore(metric, score)}</span>
+              </button>
+            </li>
+          ))}
+        </ol>
+      </div>
+
+      <div>
+        <p className={sectionTitleClass}>Shortest path</p>
+        <form onSubmit={findPath} className="space-y-2">
+          {(['from', 'to'] as const).map(end => (
+            <input
+              key={end}
+              list="graph-analytics-nodes"
+              value={pathEnds[end]}
+              onChange={(e) => setPathEnds({ ...pathEnds, [end]: e.target.value })}
+              placeholder={end === 'from' ? 'From entity' : 'To entity'}
+              className={selectClass}
+            />
+          ))}
+          <datalist id="graph-analytics-nodes">
+            {graph.nodes.map(node => <option key={node.id} value={node.id} />)}
+          </datalist>
+          <button
+            type="submit"
+            disabled={!pathEnds.from.trim() || !pathEnds.to.trim()}
+            className="w-full px-3 py-1.5 rounded-lg text-sm bg-slate-800 hover:bg-slate-700 text-slate-200 disabled:opacity-40"
+          >
+            Find Path
+          </button>
+        </form>
+        {pathError && <p className="text-xs text-red-300 mt-2">{pathError}</p>}
+        {pathResult && (
+          <ol className="mt-3 space-y-1 text-xs">
+            {pathResult.nodeIds.map((id, idx) => (
+              <li key={id}>
+                <button onClick={() => onSelectNode(id, true)} className="text-blue-300 hover:underline">{id}</button>
+                {idx < pathResult.links.length && (
+                  <p className="text-slate-500 pl-3 my-0.5">
+                    {pathResult.links[idx].source === id ? '→' : '←'} {pathResult.links[idx].relationship}
+                  </p>
+                )}
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+
+      <div>
+        <p className={sectionTitleClass}>Communities</p>
+        <ul className="space-y-1">
+          {communities.slice(0, TOP_COUNT).map((members, idx) => (
+            <li key={idx}>
+              <button
+                onClick={() => onHighlight(new Set(members))}
+                className="w-full flex items-center gap-2 px-2 py-1 rounded-md text-sm hover:bg-slate-800 text-left"
+                title={members.join(', ')}
+              >
+                <span className="w-2.5 h-2.5 rounded-full flex-shrink-0" style={{ backgroundColor: clusterColor(idx) }}></span>
+                <span className="text-slate-300 truncate flex-1">{members.slice(0, 3).join(', ')}{members.length > 3 ? '…' : ''}</span>
+                <span className="text-slate-500 text-xs">{members.length}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      {components.length > 1 && (
+        <div>
+          <p className={sectionTitleClass}>Components</p>
+          <ul className="space-y-1">
+            {components.slice(0, TOP_COUNT).map((members, idx) => (
+              <li key={idx}>
+                <button
+                  onClick={() => onHighlight(new Set(members))}
+                  className="w-full flex justify-between gap-2 px-2 py-1 rounded-md text-sm hover:bg-slate-800 text-left"
+                >
+                  <span className="text-slate-300 truncate">{members[0]}{members.length > 1 ? ` + ${members.length - 1} more` : ''}</span>
+                  <span className="text-slate-500 text-xs">{members.length}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {orphans.length > 0 && (
+        <div>
+          <p className={sectionTitleClass}>Orphans</p>
+          <div className="flex flex-wrap gap-1.5">
+            {orphans.map(id => (
+              <button key={id} onClick={() => onSelectNode(id, true)} className="px-2 py-0.5 rounded-md bg-slate-800 hover:bg-slate-700 text-xs text-slate-300">
+                {id}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GraphAnalyticsPanel;
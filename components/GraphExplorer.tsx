@@ -0,0 +1,329 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import * as d3 from 'd3';
+import GraphVisualization from './GraphVisualization';
+import NodeDetailsPanel from './NodeDetailsPanel';
+import GraphAnalyticsPanel, { NodeColoring, NodeSizing } from './GraphAnalyticsPanel';
+import { KnowledgeGraphData, GraphLayout, GraphLayoutKind } from '../types';
+import { getGroups, getNeighborhood, findNodeByName } from '../services/graphUtils';
+import { addNode } from '../services/graphEditing';
+import { computeCentrality, connectedComponents, louvainCommunities } from '../services/graphAnalytics';
+import { filterByConfidence } from '../services/confidence';
+import { LAYOUT_LABELS, pruneLayout } from '../services/graphLayout';
+
+const MIN_RADIUS = 5;
+const MAX_RADIUS = 18;
+
+const CONFIDENCE_THRESHOLDS = [0, 0.3, 0.5, 0.7, 0.9];
+
+const clusterColor = (index: number) => d3.schemeTableau10[index % d3.schemeTableau10.length];
+
+// Maps each member of a list of clusters to its cluster's colour
+const colorsByCluster = (clusters: string[][]): Map<string, string> =>
+  new Map(clusters.flatMap((members, idx) => members.map(id => [id, clusterColor(idx)] as [string, string])));
+
+// A set of entities highlighted from outside the explorer, such as query results
+export interface GraphHighlight {
+  nodeIds: Set<string>;
+  label: string;
+  focusNodeId?: string;
+}
+
+interface GraphExplorerProps {
+  data: KnowledgeGraphData;
+  onGraphChange: (graph: KnowledgeGraphData) => void;
+  highlight?: GraphHighlight | null;
+  onClearHighlight?: () => void;
+  layout: GraphLayout;
+  onLayoutChange: (layout: GraphLayout) => void;
+}
+
+const GraphExplorer: React.FC<GraphExplorerProps> = ({ data, onGraphChange, highlight, onClearHighlight, layout, onLayoutChange }) => {
+  const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
+  const [focusNodeId, setFocusNodeId] = useState<string | null>(null);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchMiss, setSearchMiss] = useState(false);
+  const [hiddenGroups, setHiddenGroups] = useState<Set<string>>(new Set());
+  const [hops, setHops] = useState(1);
+  const [newNode, setNewNode] = useState<{ id: string; group: string } | null>(null);
+  const [newNodeError, setNewNodeError] = useState<string | null>(null);
+  const [showAnalytics, setShowAnalytics] = useState(false);
+  const [minConfidence, setMinConfidence] = useState(0);
+  const [sizeBy, setSizeBy] = useState<NodeSizing>('weight');
+  const [colorBy, setColorBy] = useState<NodeColoring>('group');
+  const [analyticsHighlight, setAnalyticsHighlight] = useState<Set<string> | null>(null);
+
+  const groups = useMemo(() => getGroups(data), [data]);
+
+  // Apply the group and confidence filters; links are kept only when both endpoints stay visible
+  const visibleData = useMemo<KnowledgeGraphData>(() => {
+    const confident = filterByConfidence(data, minConfidence);
+    if (hiddenGroups.size === 0) return confident;
+    const nodes = confident.nodes.filter(n => !hiddenGroups.has(n.group));
+    const ids = new Set(nodes.map(n => n.id));
+    return { nodes, links: confident.links.filter(l => ids.has(l.source) && ids.has(l.target)) };
+  }, [data, hiddenGroups, minConfidence]);
+
+  const selectedNode = visibleData.nodes.find(n => n.id === selectedNodeId) || null;
+
+  const neighborhood = useMemo(
+    () => (selectedNode && hops > 0 ? getNeighborhood(visibleData, selectedNode.id, hops) : null),
+    [visibleData, selectedNode, hops]
+  );
+  // A community, component or path picked in the analytics panel wins over an outside
+  // highlight, which wins over the neighbourhood
+  const highlightedNodeIds = analyticsHighlight ?? highlight?.nodeIds ?? neighborhood;
+
+  const communities = useMemo(
+    () => (showAnalytics || colorBy === 'community' ? louvainCommunities(visibleData) : []),
+    [visibleData, showAnalytics, colorBy]
+  );
+  const components = useMemo(
+    () => (showAnalytics || colorBy === 'component' ? connectedComponents(visibleData) : []),
+    [visibleData, showAnalytics, colorBy]
+  );
+
+  // Node radius scaled by the chosen centrality or weight (square root, so area tracks the score)
+  const nodeRadii = useMemo(() => {
+    if (sizeBy === 'uniform') return null;
+    const scores: Map<string, number> = sizeBy === 'weight'
+      ? new Map(visibleData.nodes.map(n => [n.id, n.val ?? 0]))
+      : computeCentrality(visibleData, sizeBy);
+    const max = Math.max(0, ...scores.values());
+    return new Map(Array.from(scores, ([id, score]) =>
+      [id, max > 0 ? MIN_RADIUS + (MAX_RADIUS - MIN_RADIUS) * Math.sqrt(score / max) : MIN_RADIUS]
+    ));
+  }, [visibleData, sizeBy]);
+
+  const nodeColors = useMemo(
+    () => colorBy === 'community' ? colorsByCluster(communities)
+      : colorBy === 'component' ? colorsByCluster(components)
+      : null,
+    [colorBy, communities, components]
+  );
+
+  const pinnedCount = Object.keys(layout.pinned).length;
+
+  // Saved positions and pins of deleted entities are dropped along the way
+  const changeLayout = (next: GraphLayout) => onLayoutChange(pruneLayout(next, data));
+
+  const selectNode = (id: string | null, focus = false) => {
+    setSelectedNodeId(id);
+    if (focus) setFocusNodeId(id);
+    // The radial layout centres on whatever is selected
+    if (id && layout.kind === 'radial' && id !== layout.focusId) changeLayout({ ...layout, focusId: id });
+  };
+
+  const changeLayoutKind = (kind: GraphLayoutKind) =>
+    changeLayout({ ...layout, kind, focusId: kind === 'radial' ? selectedNodeId ?? layout.focusId : layout.focusId });
+
+  useEffect(() => {
+    if (highlight?.focusNodeId) selectNode(highlight.focusNodeId, true);
+  }, [highlight]);
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    const id = findNodeByName(visibleData, searchQuery);
+    setSearchMiss(!id);
+    if (id) selectNode(id, true);
+  };
+
+  const handleAddNode = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newNode) return;
+    try {
+      onGraphChange(addNode(data, { id: newNode.id, group: newNode.group }));
+      selectNode(newNode.id.trim(), true);
+      setNewNode(null);
+      setNewNodeError(null);
+    } catch (err) {
+      setNewNodeError(err instanceof Error ? err.message : "Could not add entity.");
+    }
+  };
+
+  const toggleGroup = (group: string) => {
+    setHiddenGroups(prev => {
+      const next = new Set(prev);
+      if (next.has(group)) next.delete(group); else next.add(group);
+      return next;
+    });
+  };
+
+  return (
+    <div className="flex flex-col gap-4 h-full">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h2 className="text-3xl font-medium tracking-tight text-transparent bg-clip-text bg-gradient-to-r from-blue-400 via-purple-400 to-pink-400">
+          Graph Explorer
+        </h2>
+        <div className="flex items-center gap-3">
+          <form onSubmit={handleSearch} className="relative">
+            <input
+              list="graph-explorer-nodes"
+              value={searchQuery}
+              onChange={(e) => { setSearchQuery(e.target.value); setSearchMiss(false); }}
+              placeholder="Search entity..."
+              className={`w-64 bg-[#13161f] border rounded-full px-4 py-2 text-sm text-slate-200 outline-none focus:ring-2 focus:ring-blue-500/50 ${
+                searchMiss ? 'border-red-500/50' : 'border-slate-800'
+              }`}
+            />
+            <datalist id="graph-explorer-nodes">
+              {visibleData.nodes.map(n => <option key={n.id} value={n.id} />)}
+            </datalist>
+          </form>
+          <label className="flex items-center gap-2 text-xs text-slate-400">
+            Highlight
+            <select
+              value={hops}
+              onChange={(e) => setHops(Number(e.target.value))}
+              className="bg-[#13161f] border border-slate-800 rounded-full px-3 py-2 text-sm text-slate-200 outline-none"
+            >
+              <option value={0}>Off</option>
+              <option value={1}>1 hop</option>
+              <option value={2}>2 hops</option>
+              <option value={3}>3 hops</option>
+            </select>
+          </label>
+          <label className="flex items-center gap-2 text-xs text-slate-400" title="Hide extracted facts below this confidence">
+            Confidence
+            <select
+              value={minConfidence}
+              onChange={(e) => setMinConfidence(Number(e.target.value))}
+              className="bg-[#13161f] border border-slate-800 rounded-full px-3 py-2 text-sm text-slate-200 outline-none"
+            >
+              {CONFIDENCE_THRESHOLDS.map(t => <option key={t} value={t}>{t ? `≥ ${t * 100}%` : 'Any'}</option>)}
+            </select>
+          </label>
+          <label className="flex items-center gap-2 text-xs text-slate-400" title="Radial centres on the selected entity; drag entities to pin them">
+            Layout
+            <select
+              value={layout.kind}
+              onChange={(e) => changeLayoutKind(e.target.value as GraphLayoutKind)}
+              className="bg-[#13161f] border border-slate-800 rounded-full px-3 py-2 text-sm text-slate-200 outline-none"
+            >
+              {(Object.keys(LAYOUT_LABELS) as GraphLayoutKind[]).map(kind => <option key={kind} value={kind}>{LAYOUT_LABELS[kind]}</option>)}
+            </select>
+          </label>
+          {pinnedCount > 0 && (
+            <button
+              onClick={() => changeLayout({ ...layout, pinned: {} })}
+              className="px-4 py-2 rounded-full text-sm font-medium bg-slate-800 hover:bg-slate-700 text-slate-300 transition-colors"
+              title="Release every entity pinned by dragging"
+            >
+              Unpin {pinnedCount}
+            </button>
+          )}
+          <button
+            onClick={() => { setShowAnalytics(!showAnalytics); setAnalyticsHighlight(null); }}
+            className={`px-4 py-2 rounded-full text-sm font-medium transition-colors ${
+              showAnalytics ? 'bg-purple-500/20 text-purple-200' : 'bg-purple-500/10 text-purple-300 hover:bg-purple-500/20'
+            }`}
+          >
+            Analytics
+          </button>
+          <button
+            onClick={() => setNewNode(newNode ? null : { id: '', group: '' })}
+            className="px-4 py-2 rounded-full text-sm font-medium bg-blue-500/10 text-blue-300 hover:bg-blue-500/20 transition-colors"
+          >
+            + Entity
+          </button>
+        </div>
+      </div>
+
+      {newNode && (
+        <form onSubmit={handleAddNode} className="flex flex-wrap items-center gap-3 p-4 rounded-2xl bg-[#13161f] border border-slate-800/50 animate-fade-in">
+          <input
+            autoFocus
+            value={newNode.id}
+            onChange={(e) => setNewNode({ ...newNode, id: e.target.value })}
+            placeholder="Entity name"
+            className="flex-1 min-w-[12rem] bg-[#0b0f19] border border-slate-700 rounded-full px-4 py-2 text-sm text-slate-200 outline-none focus:ring-2 focus:ring-blue-500/50"
+          />
+          <input
+            list="graph-explorer-groups"
+            value={newNode.group}
+            onChange={(e) => setNewNode({ ...newNode, group: e.target.value })}
+            placeholder="Group (e.g. Technology)"
+            className="w-56 bg-[#0b0f19] border border-slate-700 rounded-full px-4 py-2 text-sm text-slate-200 outline-none focus:ring-2 focus:ring-blue-500/50"
+          />
+          <datalist id="graph-explorer-groups">
+            {groups.map(g => <option key={g} value={g} />)}
+          </datalist>
+          <button
+            type="submit"
+            disabled={!newNode.id.trim()}
+            className="px-4 py-2 rounded-full text-sm font-medium bg-slate-800 hover:bg-slate-700 text-slate-200 disabled:opacity-40"
+          >
+            Add
+          </button>
+          {newNodeError && <p className="w-full text-xs text-red-300">{newNodeError}</p>}
+        </form>
+      )}
+
+      {highlight && (
+        <div className="flex items-center justify-between gap-3 px-4 py-2 rounded-2xl bg-emerald-500/10 border border-emerald-500/20 text-sm text-emerald-200 animate-fade-in">
+          <span>Highlighting {highlight.label}.</span>
+          <button onClick={onClearHighlight} className="text-xs text-emerald-300 hover:text-emerald-100">Clear</button>
+        </div>
+      )}
+
+      {groups.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {groups.map(group => (
+            <button
+              key={group}
+              onClick={() => toggleGroup(group)}
+              className={`px-3 py-1 rounded-full text-xs font-medium border transition-colors ${
+                hiddenGroups.has(group)
+                  ? 'border-slate-800 text-slate-600 line-through'
+                  : 'border-blue-500/30 bg-blue-500/10 text-blue-300 hover:bg-blue-500/20'
+              }`}
+            >
+              {group}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-1 gap-4 min-h-0">
+        <div className="flex-1 min-w-0">
+          <GraphVisualization
+            data={visibleData}
+            selectedNodeId={selectedNode?.id}
+            highlightedNodeIds={highlightedNodeIds}
+            focusNodeId={focusNodeId}
+            nodeRadii={nodeRadii}
+            nodeColors={nodeColors}
+            layout={layout}
+            onLayoutChange={changeLayout}
+            onNodeClick={(id) => { setAnalyticsHighlight(null); selectNode(id); }}
+          />
+        </div>
+
+        {showAnalytics && (
+          <GraphAnalyticsPanel
+            graph={visibleData}
+            communities={communities}
+            components={components}
+            clusterColor={clusterColor}
+            sizeBy={sizeBy}
+            colorBy={colorBy}
+            onSizeByChange={setSizeBy}
+            onColorByChange={setColorBy}
+            onSelectNode={selectNode}
+            onHighlight={setAnalyticsHighlight}
+          />
+        )}
+
+        {selectedNode && (
+          <NodeDetailsPanel
+            graph={data}
+            node={selectedNode}
+            onSelectNode={selectNode}
+            onGraphChange={onGraphChange}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default GraphExplorer;
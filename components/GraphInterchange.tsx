@@ -0,0 +1,106 @@
+import React, { useRef, useState } from 'react';
+import { KnowledgeGraphData, GraphNode, GraphLink, ImportRecord } from '../types';
+import { GRAPH_FORMATS, GraphFormat, exportGraph, importGraph, detectGraphFormat } from '../services/graphFormats';
+import { createImportRecord, mergeProvenance } from '../services/provenance';
+
+interface GraphInterchangeProps {
+  currentGraph: KnowledgeGraphData;
+  onUpdateGraph: (newNodes: GraphNode[], newLinks: GraphLink[], source?: ImportRecord, carriedImports?: ImportRecord[]) => Promise<boolean>;
+}
+
+const downloadFile = (fileName: string, mimeType: string, content: string) => {
+  const element = document.createElement("a");
+  element.href = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  element.download = fileName;
+  document.body.appendChild(element);
+  element.click();
+  document.body.removeChild(element);
+};
+
+const GraphInterchange: React.FC<GraphInterchangeProps> = ({ currentGraph, onUpdateGraph }) => {
+  const [exportFormat, setExportFormat] = useState<GraphFormat>('json');
+  const [message, setMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleExport = () => {
+    exportGraph(currentGraph, exportFormat).forEach(file => downloadFile(file.fileName, file.mimeType, file.content));
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = e.target.files ? Array.from<File>(e.target.files) : [];
+    e.target.value = '';
+    if (!files.length) return;
+
+    try {
+      // CSV node and edge lists are usually picked together, so all files form one import
+      const nodes: GraphNode[] = [];
+      const links: GraphLink[] = [];
+      const carriedImports: ImportRecord[] = [];
+      for (const file of files) {
+        const format = detectGraphFormat(file.name);
+        if (!format) throw new Error(`Unsupported file type: ${file.name}`);
+        const parsed = importGraph(await file.text(), format);
+        nodes.push(...parsed.nodes);
+        links.push(...parsed.links);
+        carriedImports.push(...(parsed.imports || []));
+      }
+
+      const source = createImportRecord('file', files.map(f => f.name).join(', '));
+      // Provenance carried over from an exported graph is kept alongside this import
+      const provenance = [{ importId: source.id }];
+      const applied = await onUpdateGraph(
+        nodes.map(n => ({ ...n, provenance: mergeProvenance(n.provenance, provenance) })),
+        links.map(l => ({ ...l, provenance: mergeProvenance(l.provenance, provenance) })),
+        source,
+        carriedImports
+      );
+      setMessage(applied
+        ? { type: 'success', text: `Merged ${nodes.length} entities & ${links.length} links from ${source.label}.` }
+        : { type: 'error', text: `Import of ${source.label} was cancelled in duplicate review.` });
+    } catch (err) {
+      console.error("Graph import failed:", err);
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : "Import failed." });
+    }
+  };
+
+  const acceptList = GRAPH_FORMATS.flatMap(f => f.extensions).join(',');
+
+  return (
+    <div className="bg-[#13161f] rounded-[2rem] p-8 border border-slate-800/50 shadow-2xl">
+      <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-widest mb-2">Graph Interchange</h3>
+      <p className="text-sm text-slate-500 mb-6">
+        Move the knowledge graph in and out of other tools. Imported graphs are merged with the current one.
+      </p>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <select
+          value={exportFormat}
+          onChange={(e) => setExportFormat(e.target.value as GraphFormat)}
+          className="bg-[#0b0f19] border border-slate-700 rounded-full px-4 py-2.5 text-sm text-slate-200 outline-none focus:ring-2 focus:ring-blue-500/50"
+        >
+          {GRAPH_FORMATS.map(f => <option key={f.id} value={f.id}>{f.label}</option>)}
+        </select>
+        <button
+          onClick={handleExport}
+          className="px-5 py-2.5 rounded-full text-sm font-medium bg-slate-800 hover:bg-slate-700 text-slate-200 transition-colors"
+        >
+          Export
+        </button>
+        <div className="w-px h-6 bg-slate-700 mx-2"></div>
+        <input ref={fileInputRef} type="file" multiple accept={acceptList} className="hidden" onChange={handleImport} />
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="px-5 py-2.5 rounded-full text-sm font-medium bg-blue-500/10 hover:bg-blue-500/20 text-blue-300 transition-colors"
+        >
+          Import Graph File(s)
+        </button>
+      </div>
+
+      {message && (
+        <p className={`mt-4 text-sm ${message.type === 'success' ? 'text-emerald-300' : 'text-red-300'}`}>{message.text}</p>
+      )}
+    </div>
+  );
+};
+
+export default GraphInterchange;
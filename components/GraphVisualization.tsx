@@ -1,15 +1,421 @@
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import * as d3 from 'd3';
-import { KnowledgeGraphData, GraphNode, GraphLink } from '../types';
+import { KnowledgeGraphData, GraphNode, GraphLink, GraphLayout } from '../types';
+import { confidenceOf, formatConfidence } from '../services/confidence';
+import {
+  DEFAULT_LAYOUT, RING_SPACING, hierarchicalPositions, radialDepths, defaultFocus, clusterCenters
+} from '../services/graphLayout';
 
 interface GraphVisualizationProps {
   data: KnowledgeGraphData;
+  selectedNodeId?: string | null;
+  highlightedNodeIds?: Set<string> | null; // Nodes outside this set are dimmed
+  focusNodeId?: string | null; // Node to pan/zoom to
+  nodeRadii?: Map<string, number> | null; // Per-node radius, e.g. from a centrality metric
+  nodeColors?: Map<string, string> | null; // Per-node fill; defaults to a colour per group
+  layout?: GraphLayout;
+  onLayoutChange?: (layout: GraphLayout) => void; // Nodes were pinned or released, or the layout settled
+  onNodeClick?: (id: string | null) => void;
 }
 
-const GraphVisualization: React.FC<GraphVisualizationProps> = ({ data }) => {
-  const svgRef = useRef<SVGSVGElement>(null);
+// Simulation copies of nodes and links; d3 adds positions and velocities, and resolves
+// link endpoints to node objects
+type SimNode = GraphNode & { x?: number; y?: number; vx?: number; vy?: number; fx?: number | null; fy?: number | null };
+interface SimLink {
+  source: SimNode;
+  target: SimNode;
+  data: GraphLink;
+}
+
+interface Tooltip {
+  x: number;
+  y: number;
+  text: string;
+}
+
+const DEFAULT_RADIUS = 8;
+
+// Beyond this many nodes the layout trades precision for speed: no collision force,
+// a coarser many-body approximation and faster cooling
+const LARGE_GRAPH = 2000;
+
+// Level of detail: node labels are drawn once a node is at least this many pixels
+// across on screen, at most MAX_LABELS at a time, largest nodes first. Link labels
+// and arrowheads need more zoom, or a small enough view.
+const LABEL_MIN_SCREEN_RADIUS = 6;
+const MAX_LABELS = 300;
+const LINK_LABEL_MIN_SCALE = 1.5;
+const MAX_LINK_LABELS = 150;
+const ARROW_MIN_SCALE = 0.5;
+const MAX_ARROWS = 3000;
+
+// How close (in pixels) the pointer must be to a link to hover it
+const LINK_HIT_DISTANCE = 4;
+
+// Groups listed in the legend before it collapses
+const LEGEND_LIMIT = 12;
+
+const LINK_COLOR = "#475569"; // Slate 600
+const ARROW_COLOR = "#64748b"; // Slate 500
+const NODE_LABEL_COLOR = "#e2e8f0"; // Slate 200
+const LINK_LABEL_COLOR = "#94a3b8"; // Slate 400
+const SELECTED_COLOR = "#facc15";
+const PIN_COLOR = "#0f172a"; // Slate 900
+const DIMMED_OPACITY = 0.15;
+
+// Edge thickness grows with confidence; manual links (confidence 1) get the maximum
+const linkWidth = (link: GraphLink) => 0.75 + 2.25 * confidenceOf(link);
+
+const nodeTitle = (n: SimNode) =>
+  `${n.id}\nGroup: ${n.group}\nConfidence: ${formatConfidence(n)}${n.mentions ? `\nMentioned in ${n.mentions} import(s)` : ''}` +
+  (n.fx != null ? "\nPinned (double-click to release)" : "");
+
+const roundPosition = (n: SimNode): [number, number] => [Math.round(n.x! * 10) / 10, Math.round(n.y! * 10) / 10];
+
+const linkTitle = (l: GraphLink) => `${l.source} → ${l.target}\n${l.relationship}\nConfidence: ${formatConfidence(l)}`;
+
+/**
+ * Builds simulation nodes for new data, carrying positions and velocities over from
+ * the previous nodes so merged knowledge doesn't reshuffle the layout, and placing
+ * nodes seen in an earlier session where they were saved. Other new nodes start next
+ * to an already placed neighbour, or near the centre. Pinned nodes are fixed in place.
+ */
+const reconcileNodes = (
+  previous: Map<string, SimNode>, layout: GraphLayout, data: KnowledgeGraphData, center: [number, number]
+): SimNode[] => {
+  const nodes: SimNode[] = data.nodes.map(node => {
+    const prev = previous.get(node.id);
+    const saved = layout.positions[node.id];
+    const pin = layout.pinned[node.id];
+    const placed: SimNode = prev
+      ? { ...node, x: prev.x, y: prev.y, vx: prev.vx, vy: prev.vy, fx: prev.fx, fy: prev.fy }
+      : saved ? { ...node, x: saved[0], y: saved[1] } : { ...node };
+    if (pin) {
+      placed.fx = placed.x = pin[0];
+      placed.fy = placed.y = pin[1];
+    }
+    return placed;
+  });
+  if (nodes.every(n => n.x === undefined)) return nodes; // First layout: d3 places everything
+
+  const byId = new Map(nodes.map(n => [n.id, n]));
+  const jitter = () => (Math.random() - 0.5) * 60;
+  nodes.forEach(node => {
+    if (node.x !== undefined) return;
+    const anchor = data.links
+      .filter(l => l.source === node.id || l.target === node.id)
+      .map(l => byId.get(l.source === node.id ? l.target : l.source))
+      .find(n => n?.x !== undefined);
+    node.x = (anchor?.x ?? center[0]) + jitter();
+    node.y = (anchor?.y ?? center[1]) + jitter();
+  });
+  return nodes;
+};
+
+const linkKey = (l: GraphLink) => `${l.source}\u0000${l.relationship}\u0000${l.target}`;
+
+const distanceToSegment = (px: number, py: number, a: SimNode, b: SimNode) => {
+  const dx = b.x! - a.x!;
+  const dy = b.y! - a.y!;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq ? Math.max(0, Math.min(1, ((px - a.x!) * dx + (py - a.y!) * dy) / lengthSq)) : 0;
+  return Math.hypot(px - (a.x! + t * dx), py - (a.y! + t * dy));
+};
+
+/**
+ * Draws the graph on a canvas. The force simulation lives for the component's lifetime:
+ * new data is merged into it, keeping positions, and frames are drawn on demand with
+ * off-screen items culled, so large graphs stay responsive.
+ */
+const GraphVisualization: React.FC<GraphVisualizationProps> = ({
+  data, selectedNodeId, highlightedNodeIds, focusNodeId, nodeRadii, nodeColors, layout = DEFAULT_LAYOUT, onLayoutChange, onNodeClick
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
   const wrapperRef = useRef<HTMLDivElement>(null);
   const [dimensions, setDimensions] = useState({ width: 800, height: 600 });
+  const [tooltip, setTooltip] = useState<Tooltip | null>(null);
+  const [hoveredNodeId, setHoveredNodeId] = useState<string | null>(null);
+  const [legendExpanded, setLegendExpanded] = useState(false);
+
+  const simulationRef = useRef<any>(null);
+  const nodesRef = useRef<SimNode[]>([]);
+  const nodeByIdRef = useRef(new Map<string, SimNode>());
+  const linksRef = useRef<SimLink[]>([]);
+  const linkKeysRef = useRef(new Set<string>());
+  const quadtreeRef = useRef<any>(null); // Rebuilt lazily after nodes move
+  const transformRef = useRef<any>(d3.zoomIdentity);
+  const zoomRef = useRef<any>(null);
+  const frameRef = useRef<number | null>(null);
+  // Keeps group colours stable as groups come and go
+  const colorScaleRef = useRef(d3.scaleOrdinal(d3.schemeCategory10));
+
+  // Drawing reads the latest props through a ref, so restyling never touches the simulation
+  const viewRef = useRef({ dimensions, selectedNodeId, highlightedNodeIds, nodeRadii, nodeColors, hoveredNodeId });
+  viewRef.current = { dimensions, selectedNodeId, highlightedNodeIds, nodeRadii, nodeColors, hoveredNodeId };
+  const onNodeClickRef = useRef(onNodeClick);
+  onNodeClickRef.current = onNodeClick;
+  const dataRef = useRef(data);
+  dataRef.current = data;
+  const layoutRef = useRef(layout);
+  layoutRef.current = layout;
+  const onLayoutChangeRef = useRef(onLayoutChange);
+  onLayoutChangeRef.current = onLayoutChange;
+  // The layout kind and focus the forces were last set up for
+  const appliedLayoutRef = useRef<string | null>(null);
+
+  // Group colours in name order, which is also the order they're first handed out in
+  const legend = useMemo(
+    () => Array.from(new Set<string>(data.nodes.map(n => n.group))).sort((a, b) => a.localeCompare(b))
+      .map(group => ({ group, color: colorScaleRef.current(group) })),
+    [data]
+  );
+
+  const radiusOf = (node: SimNode) => {
+    const { nodeRadii, selectedNodeId } = viewRef.current;
+    return (nodeRadii?.get(node.id) ?? DEFAULT_RADIUS) + (node.id === selectedNodeId ? 4 : 0);
+  };
+
+  const draw = () => {
+    frameRef.current = null;
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) return;
+    const { dimensions: { width, height }, selectedNodeId, highlightedNodeIds, nodeColors, hoveredNodeId } = viewRef.current;
+    const t = transformRef.current;
+    const ratio = window.devicePixelRatio || 1;
+
+    ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+    ctx.clearRect(0, 0, width, height);
+    ctx.translate(t.x, t.y);
+    ctx.scale(t.k, t.k);
+
+    // Visible area in graph coordinates, with a margin for labels
+    const pad = 80 / t.k;
+    const [x0, y0] = t.invert([0, 0]);
+    const [x1, y1] = t.invert([width, height]);
+    const inView = (x = 0, y = 0) => x >= x0 - pad && x <= x1 + pad && y >= y0 - pad && y <= y1 + pad;
+    const isLit = (id: string) => !highlightedNodeIds || highlightedNodeIds.has(id);
+
+    const links = linksRef.current.filter(l =>
+      l.source.x !== undefined && !(Math.max(l.source.x!, l.target.x!) < x0 - pad || Math.min(l.source.x!, l.target.x!) > x1 + pad ||
+        Math.max(l.source.y!, l.target.y!) < y0 - pad || Math.min(l.source.y!, l.target.y!) > y1 + pad));
+    const nodes = nodesRef.current.filter(n => inView(n.x, n.y));
+
+    // Links, batched by opacity and (rounded) width
+    const linkBatches = new Map<string, SimLink[]>();
+    links.forEach(l => {
+      const key = `${isLit(l.source.id) && isLit(l.target.id) ? 1 : 0}|${Math.round(linkWidth(l.data) * 2) / 2}`;
+      if (!linkBatches.has(key)) linkBatches.set(key, []);
+      linkBatches.get(key)!.push(l);
+    });
+    ctx.strokeStyle = LINK_COLOR;
+    linkBatches.forEach((batch, key) => {
+      const [lit, lineWidth] = key.split("|");
+      ctx.globalAlpha = lit === "1" ? 0.6 : 0.06;
+      ctx.lineWidth = Number(lineWidth);
+      ctx.beginPath();
+      batch.forEach(l => {
+        ctx.moveTo(l.source.x!, l.source.y!);
+        ctx.lineTo(l.target.x!, l.target.y!);
+      });
+      ctx.stroke();
+    });
+
+    // Arrowheads at the edge of the target node
+    if (t.k >= ARROW_MIN_SCALE && links.length <= MAX_ARROWS) {
+      ctx.fillStyle = ARROW_COLOR;
+      [true, false].forEach(lit => {
+        ctx.globalAlpha = lit ? 1 : 0.1;
+        ctx.beginPath();
+        links.forEach(l => {
+          if ((isLit(l.source.id) && isLit(l.target.id)) !== lit) return;
+          const dx = l.target.x! - l.source.x!;
+          const dy = l.target.y! - l.source.y!;
+          const length = Math.hypot(dx, dy);
+          const r = radiusOf(l.target) + 2;
+          if (length <= r + 9) return;
+          const ux = dx / length;
+          const uy = dy / length;
+          const tipX = l.target.x! - ux * r;
+          const tipY = l.target.y! - uy * r;
+          ctx.moveTo(tipX, tipY);
+          ctx.lineTo(tipX - ux * 9 - uy * 4.5, tipY - uy * 9 + ux * 4.5);
+          ctx.lineTo(tipX - ux * 9 + uy * 4.5, tipY - uy * 9 - ux * 4.5);
+          ctx.closePath();
+        });
+        ctx.fill();
+      });
+    }
+
+    // Nodes, batched by opacity and fill
+    const color = (n: SimNode) => nodeColors?.get(n.id) ?? colorScaleRef.current(n.group);
+    const nodeBatches = new Map<string, SimNode[]>();
+    nodes.forEach(n => {
+      const key = `${isLit(n.id) ? 1 : 0}|${color(n)}`;
+      if (!nodeBatches.has(key)) nodeBatches.set(key, []);
+      nodeBatches.get(key)!.push(n);
+    });
+    const outlined = DEFAULT_RADIUS * t.k >= 3; // Outlines only once nodes are big enough to see them
+    ctx.strokeStyle = "#fff";
+    ctx.lineWidth = 1.5;
+    nodeBatches.forEach((batch, key) => {
+      const separator = key.indexOf("|");
+      ctx.globalAlpha = key.slice(0, separator) === "1" ? 1 : DIMMED_OPACITY;
+      ctx.fillStyle = key.slice(separator + 1);
+      ctx.beginPath();
+      batch.forEach(n => {
+        const r = radiusOf(n);
+        ctx.moveTo(n.x! + r, n.y!);
+        ctx.arc(n.x!, n.y!, r, 0, 2 * Math.PI);
+      });
+      ctx.fill();
+      if (outlined) ctx.stroke();
+    });
+
+    const selected = selectedNodeId ? nodeByIdRef.current.get(selectedNodeId) : undefined;
+    if (selected?.x !== undefined) {
+      ctx.globalAlpha = 1;
+      ctx.strokeStyle = SELECTED_COLOR;
+      ctx.lineWidth = 3;
+      ctx.beginPath();
+      ctx.arc(selected.x, selected.y!, radiusOf(selected), 0, 2 * Math.PI);
+      ctx.stroke();
+    }
+
+    // Pinned nodes get a dot in the middle
+    ctx.fillStyle = PIN_COLOR;
+    ctx.beginPath();
+    nodes.forEach(n => {
+      if (n.fx == null || !isLit(n.id)) return;
+      const r = Math.max(1.5, radiusOf(n) * 0.3);
+      ctx.moveTo(n.x! + r, n.y!);
+      ctx.arc(n.x!, n.y!, r, 0, 2 * Math.PI);
+    });
+    ctx.fill();
+
+    // Link labels
+    const litLinks = links.filter(l => isLit(l.source.id) && isLit(l.target.id));
+    if (litLinks.length <= MAX_LINK_LABELS || t.k >= LINK_LABEL_MIN_SCALE) {
+      ctx.globalAlpha = 1;
+      ctx.font = "10px sans-serif";
+      ctx.fillStyle = LINK_LABEL_COLOR;
+      ctx.textAlign = "center";
+      ctx.textBaseline = "alphabetic";
+      litLinks.slice(0, MAX_LINK_LABELS).forEach(l =>
+        ctx.fillText(l.data.relationship, (l.source.x! + l.target.x!) / 2, (l.source.y! + l.target.y!) / 2));
+    }
+
+    // Node labels: all of them in a small view, otherwise the largest on screen, plus
+    // the selected and hovered nodes
+    const labelled = nodes.length <= MAX_LABELS
+      ? nodes
+      : nodes.filter(n => radiusOf(n) * t.k >= LABEL_MIN_SCREEN_RADIUS).sort((a, b) => radiusOf(b) - radiusOf(a)).slice(0, MAX_LABELS);
+    [selectedNodeId, hoveredNodeId].forEach(id => {
+      const node = id ? nodeByIdRef.current.get(id) : undefined;
+      if (node?.x !== undefined && !labelled.includes(node)) labelled.push(node);
+    });
+    ctx.font = "12px sans-serif";
+    ctx.fillStyle = NODE_LABEL_COLOR;
+    ctx.textAlign = "left";
+    ctx.textBaseline = "middle";
+    labelled.forEach(n => {
+      ctx.globalAlpha = isLit(n.id) ? 1 : DIMMED_OPACITY;
+      ctx.fillText(n.id, n.x! + radiusOf(n) + 4, n.y!);
+    });
+    ctx.globalAlpha = 1;
+  };
+
+  const scheduleDraw = () => {
+    if (frameRef.current === null) frameRef.current = requestAnimationFrame(draw);
+  };
+
+  const reportLayout = (patch: Partial<GraphLayout>) => {
+    const current = layoutRef.current;
+    const positions = { ...current.positions };
+    nodesRef.current.forEach(n => { if (n.x !== undefined) positions[n.id] = roundPosition(n); });
+    onLayoutChangeRef.current?.({ ...current, positions, ...patch });
+  };
+
+  /**
+   * Sets up the forces for the chosen layout. Force-directed uses links, repulsion and
+   * centring; the others pull each node towards a target (its place in the tree, its
+   * ring around the focus, its group's centre) and keep links only as a weak pull.
+   */
+  const configureForces = () => {
+    const simulation = simulationRef.current;
+    if (!simulation) return;
+    const graph = dataRef.current;
+    const nodes = nodesRef.current;
+    const { width, height } = viewRef.current.dimensions;
+    const center: [number, number] = [width / 2, height / 2];
+    const { kind, focusId } = layoutRef.current;
+    const large = nodes.length > LARGE_GRAPH;
+
+    const link = d3.forceLink(linksRef.current).distance(kind === 'force' ? 100 : 60);
+    if (kind !== 'force') link.strength(kind === 'radial' ? 0.05 : kind === 'clustered' ? 0.02 : 0);
+    const charge = d3.forceManyBody()
+      .strength({ force: -300, hierarchical: -30, radial: -150, clustered: -60 }[kind])
+      .theta(large ? 1.2 : 0.9)
+      .distanceMax(large ? 500 : Infinity);
+
+    simulation
+      .force("link", link)
+      .force("charge", charge)
+      .force("collide", large ? null : d3.forceCollide(kind === 'force' ? 30 : 20))
+      .force("center", kind === 'force' ? d3.forceCenter(center[0], center[1]) : null)
+      .force("x", null)
+      .force("y", null)
+      .force("radial", null)
+      .alphaDecay(large ? 0.05 : 0.0228);
+
+    if (kind === 'hierarchical') {
+      const targets = hierarchicalPositions(graph, center);
+      simulation
+        .force("x", d3.forceX((n: SimNode) => targets.get(n.id)![0]).strength(0.5))
+        .force("y", d3.forceY((n: SimNode) => targets.get(n.id)![1]).strength(0.8));
+    } else if (kind === 'radial') {
+      const focus = (focusId && graph.nodes.some(n => n.id === focusId) ? focusId : undefined) ?? defaultFocus(graph);
+      const depths = focus ? radialDepths(graph, focus) : new Map<string, number>();
+      simulation.force("radial", d3.forceRadial((n: SimNode) => (depths.get(n.id) ?? 0) * RING_SPACING, center[0], center[1]).strength(0.8));
+    } else if (kind === 'clustered') {
+      const centers = clusterCenters(graph, center);
+      simulation
+        .force("x", d3.forceX((n: SimNode) => centers.get(n.group)![0]).strength(0.15))
+        .force("y", d3.forceY((n: SimNode) => centers.get(n.group)![1]).strength(0.15));
+    }
+    appliedLayoutRef.current = `${kind}|${focusId ?? ""}`;
+  };
+
+  // Hit-testing in screen coordinates
+  const findNode = (px: number, py: number): SimNode | undefined => {
+    if (!quadtreeRef.current) {
+      quadtreeRef.current = d3.quadtree<SimNode>()
+        .x((n: SimNode) => n.x!)
+        .y((n: SimNode) => n.y!)
+        .addAll(nodesRef.current.filter(n => n.x !== undefined));
+    }
+    const t = transformRef.current;
+    const [x, y] = t.invert([px, py]);
+    const maxRadius = Math.max(DEFAULT_RADIUS, ...(viewRef.current.nodeRadii?.values() ?? [])) + 4;
+    const node: SimNode | undefined = quadtreeRef.current.find(x, y, maxRadius + 3 / t.k);
+    return node && Math.hypot(node.x! - x, node.y! - y) <= radiusOf(node) + 3 / t.k ? node : undefined;
+  };
+
+  const findLink = (px: number, py: number): SimLink | undefined => {
+    const t = transformRef.current;
+    const [x, y] = t.invert([px, py]);
+    let best: SimLink | undefined;
+    let bestDistance = LINK_HIT_DISTANCE / t.k;
+    linksRef.current.forEach(l => {
+      if (l.source.x === undefined) return;
+      const d = distanceToSegment(x, y, l.source, l.target);
+      if (d <= bestDistance) {
+        best = l;
+        bestDistance = d;
+      }
+    });
+    return best;
+  };
 
   // Handle Resize
   useEffect(() => {
@@ -21,152 +427,180 @@ const GraphVisualization: React.FC<GraphVisualizationProps> = ({ data }) => {
         });
       }
     };
-    window.addEventListener('resize', handleResize);
+    const observer = new ResizeObserver(handleResize);
+    if (wrapperRef.current) observer.observe(wrapperRef.current);
     handleResize();
-    return () => window.removeEventListener('resize', handleResize);
+    return () => observer.disconnect();
   }, []);
 
-  // D3 Simulation
+  // Simulation, zoom, drag and pointer handling, set up once
   useEffect(() => {
-    if (!data.nodes.length || !svgRef.current) return;
+    const canvas = canvasRef.current;
+    if (!canvas) return;
 
-    const svg = d3.select(svgRef.current);
-    svg.selectAll("*").remove(); // Clear previous
+    // Forces are set up per layout by configureForces
+    const simulation = d3.forceSimulation<SimNode>([])
+      .on("tick", () => {
+        quadtreeRef.current = null;
+        scheduleDraw();
+      })
+      .on("end", () => reportLayout({}))
+      .stop();
+    simulationRef.current = simulation;
 
-    const width = dimensions.width;
-    const height = dimensions.height;
-
-    // Create a deep copy for D3 to mutate
-    const nodes = data.nodes.map(d => ({ ...d }));
-    const links = data.links.map(d => ({ ...d }));
-
-    // Color scale based on group
-    const color = d3.scaleOrdinal(d3.schemeCategory10);
+    const selection = d3.select(canvas);
+    const zoom = d3.zoom<HTMLCanvasElement, unknown>()
+      .scaleExtent([0.02, 4])
+      .on("zoom", (event: any) => {
+        transformRef.current = event.transform;
+        scheduleDraw();
+      });
+    zoomRef.current = zoom;
 
-    const simulation = d3.forceSimulation(nodes as any)
-      .force("link", d3.forceLink(links).id((d: any) => d.id).distance(100))
-      .force("charge", d3.forceManyBody().strength(-300))
-      .force("center", d3.forceCenter(width / 2, height / 2))
-      .force("collide", d3.forceCollide().radius(30));
+    const pointerIn = (event: any): [number, number] => d3.pointer(event.sourceEvent ?? event, canvas);
 
-    // Zoom behavior
-    const g = svg.append("g");
-    const zoom = d3.zoom<SVGSVGElement, unknown>()
-      .scaleExtent([0.1, 4])
-      .on("zoom", (event) => {
-        g.attr("transform", event.transform);
+    // Dragging a node moves and pins it; dragging anywhere else pans (the drag behaviour
+    // only claims gestures that start on a node)
+    const drag = d3.drag<HTMLCanvasElement, unknown>()
+      .subject((event: any) => findNode(...pointerIn(event)))
+      .on("start", (event: any) => {
+        if (!event.active) simulation.alphaTarget(0.3).restart();
+        event.subject.fx = event.subject.x;
+        event.subject.fy = event.subject.y;
+      })
+      .on("drag", (event: any) => {
+        const [x, y] = transformRef.current.invert(pointerIn(event));
+        event.subject.fx = x;
+        event.subject.fy = y;
+      })
+      .on("end", (event: any) => {
+        if (!event.active) simulation.alphaTarget(0);
+        const node: SimNode = event.subject;
+        reportLayout({ pinned: { ...layoutRef.current.pinned, [node.id]: [node.fx!, node.fy!] } });
       });
 
-    svg.call(zoom);
-
-    // Arrow marker
-    svg.append("defs").selectAll("marker")
-      .data(["end"])
-      .enter().append("marker")
-      .attr("id", "arrow")
-      .attr("viewBox", "0 -5 10 10")
-      .attr("refX", 25)
-      .attr("refY", 0)
-      .attr("markerWidth", 6)
-      .attr("markerHeight", 6)
-      .attr("orient", "auto")
-      .append("path")
-      .attr("d", "M0,-5L10,0L0,5")
-      .attr("fill", "#64748b"); // Slate 500
-
-    // Links
-    const link = g.append("g")
-      .attr("stroke", "#475569") // Slate 600
-      .attr("stroke-opacity", 0.6)
-      .selectAll("line")
-      .data(links)
-      .join("line")
-      .attr("stroke-width", 1.5)
-      .attr("marker-end", "url(#arrow)");
-
-    // Link Labels
-    const linkLabel = g.append("g")
-      .attr("class", "link-labels")
-      .selectAll("text")
-      .data(links)
-      .join("text")
-      .text((d: any) => d.relationship)
-      .attr("font-size", "10px")
-      .attr("fill", "#94a3b8") // Slate 400
-      .attr("text-anchor", "middle");
-
-    // Nodes
-    const node = g.append("g")
-      .attr("stroke", "#fff")
-      .attr("stroke-width", 1.5)
-      .selectAll("circle")
-      .data(nodes)
-      .join("circle")
-      .attr("r", 8)
-      .attr("fill", (d: any) => color(d.group))
-      .call(d3.drag<SVGCircleElement, any>()
-        .on("start", dragstarted)
-        .on("drag", dragged)
-        .on("end", dragended));
-
-    // Node Labels
-    const label = g.append("g")
-      .attr("class", "labels")
-      .selectAll("text")
-      .data(nodes)
-      .join("text")
-      .attr("dx", 12)
-      .attr("dy", ".35em")
-      .text((d: any) => d.id)
-      .attr("fill", "#e2e8f0") // Slate 200
-      .attr("font-size", "12px")
-      .style("pointer-events", "none");
-
-    // Tooltip behavior could be added here
-    node.append("title").text((d: any) => `${d.id}\nGroup: ${d.group}`);
-
-    // Tick function
-    simulation.on("tick", () => {
-      link
-        .attr("x1", (d: any) => d.source.x)
-        .attr("y1", (d: any) => d.source.y)
-        .attr("x2", (d: any) => d.target.x)
-        .attr("y2", (d: any) => d.target.y);
-
-      linkLabel
-        .attr("x", (d: any) => (d.source.x + d.target.x) / 2)
-        .attr("y", (d: any) => (d.source.y + d.target.y) / 2);
-
-      node
-        .attr("cx", (d: any) => d.x)
-        .attr("cy", (d: any) => d.y);
-
-      label
-        .attr("x", (d: any) => d.x)
-        .attr("y", (d: any) => d.y);
+    // Double-clicking a pinned node releases it; anywhere else it zooms in as usual.
+    // Registered before the zoom behaviour so it can claim the event first.
+    selection.on("dblclick.pin", (event: MouseEvent) => {
+      const [x, y] = d3.pointer(event, canvas);
+      const node = findNode(x, y);
+      if (!node || node.fx == null) return;
+      event.stopImmediatePropagation();
+      node.fx = null;
+      node.fy = null;
+      const { [node.id]: _released, ...pinned } = layoutRef.current.pinned;
+      reportLayout({ pinned });
+      simulation.alpha(0.3).restart();
     });
 
-    function dragstarted(event: any, d: any) {
-      if (!event.active) simulation.alphaTarget(0.3).restart();
-      d.fx = d.x;
-      d.fy = d.y;
-    }
+    selection.call(drag).call(zoom);
 
-    function dragged(event: any, d: any) {
-      d.fx = event.x;
-      d.fy = event.y;
-    }
+    selection.on("click", (event: MouseEvent) => {
+      const [x, y] = d3.pointer(event, canvas);
+      onNodeClickRef.current?.(findNode(x, y)?.id ?? null);
+    });
 
-    function dragended(event: any, d: any) {
-      if (!event.active) simulation.alphaTarget(0);
-      d.fx = null;
-      d.fy = null;
-    }
+    selection.on("mousemove.hover", (event: MouseEvent) => {
+      const [x, y] = d3.pointer(event, canvas);
+      const node = findNode(x, y);
+      const link = node ? undefined : findLink(x, y);
+      setHoveredNodeId(node?.id ?? null);
+      setTooltip(node ? { x, y, text: nodeTitle(node) } : link ? { x, y, text: linkTitle(link.data) } : null);
+    });
+    selection.on("mouseleave.hover", () => {
+      setHoveredNodeId(null);
+      setTooltip(null);
+    });
 
     return () => {
       simulation.stop();
+      selection.on(".zoom", null).on(".drag", null).on("click", null).on(".hover", null).on(".pin", null);
+      if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+      frameRef.current = null;
     };
-  }, [data, dimensions]);
+  }, []);
+
+  // Merge new data into the running simulation
+  useEffect(() => {
+    const simulation = simulationRef.current;
+    if (!simulation) return;
+    const { width, height } = viewRef.current.dimensions;
+
+    const previous = nodeByIdRef.current;
+    const nodes = reconcileNodes(previous, layoutRef.current, data, [width / 2, height / 2]);
+    const byId = new Map(nodes.map(n => [n.id, n]));
+    const links: SimLink[] = data.links
+      .filter(l => byId.has(l.source) && byId.has(l.target))
+      .map(l => ({ source: byId.get(l.source)!, target: byId.get(l.target)!, data: l }));
+    const keys = new Set(data.links.map(linkKey));
+
+    const structureChanged = nodes.length !== previous.size || nodes.some(n => !previous.has(n.id)) ||
+      keys.size !== linkKeysRef.current.size || Array.from(keys).some(k => !linkKeysRef.current.has(k));
+
+    nodesRef.current = nodes;
+    nodeByIdRef.current = byId;
+    linksRef.current = links;
+    linkKeysRef.current = keys;
+    quadtreeRef.current = null;
+
+    simulation.nodes(nodes);
+    configureForces(); // Links and layout targets refer to the new node objects
+
+    const restored = nodes.filter(n => previous.has(n.id) || layoutRef.current.positions[n.id]).length;
+    if (!restored) simulation.alpha(1).restart();
+    else if (structureChanged) simulation.alpha(restored === nodes.length && !previous.size ? 0.05 : 0.3).restart(); // Settle the new parts without reshuffling the rest
+    scheduleDraw();
+  }, [data]);
+
+  // Switching layout (or the radial layout's focus) rearranges the whole graph
+  useEffect(() => {
+    if (!simulationRef.current || appliedLayoutRef.current === `${layout.kind}|${layout.focusId ?? ""}`) return;
+    configureForces();
+    simulationRef.current.alpha(1).restart();
+  }, [layout.kind, layout.focusId]);
+
+  // Pins changed from outside, e.g. all released at once
+  useEffect(() => {
+    let changed = false;
+    nodesRef.current.forEach(n => {
+      const pin = layout.pinned[n.id];
+      if ((pin?.[0] ?? null) === (n.fx ?? null) && (pin?.[1] ?? null) === (n.fy ?? null)) return;
+      n.fx = pin ? pin[0] : null;
+      n.fy = pin ? pin[1] : null;
+      changed = true;
+    });
+    if (changed) simulationRef.current?.alpha(0.3).restart();
+  }, [layout.pinned]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = Math.round(dimensions.width * ratio);
+    canvas.height = Math.round(dimensions.height * ratio);
+    configureForces();
+    scheduleDraw();
+  }, [dimensions]);
+
+  // Selection & neighbourhood highlighting (redraws without touching the simulation)
+  useEffect(scheduleDraw, [selectedNodeId, highlightedNodeIds, nodeRadii, nodeColors, hoveredNodeId]);
+
+  // Pan & zoom to the focused node
+  useEffect(() => {
+    if (!focusNodeId || !canvasRef.current || !zoomRef.current) return;
+    const target = nodeByIdRef.current.get(focusNodeId);
+    if (!target || target.x === undefined) return;
+    const scale = 1.5;
+    d3.select(canvasRef.current)
+      .transition()
+      .duration(750)
+      .call(
+        zoomRef.current.transform,
+        d3.zoomIdentity
+          .translate(dimensions.width / 2 - target.x * scale, dimensions.height / 2 - target.y! * scale)
+          .scale(scale)
+      );
+  }, [focusNodeId]);
 
   return (
     <div ref={wrapperRef} className="w-full h-full bg-slate-900 overflow-hidden relative rounded-xl border border-slate-700 shadow-2xl">
@@ -174,9 +608,39 @@ const GraphVisualization: React.FC<GraphVisualizationProps> = ({ data }) => {
         <h3 className="text-sm font-semibold text-slate-200">System Knowledge Graph</h3>
         <p className="text-xs text-slate-400 mt-1">{data.nodes.length} Entities • {data.links.length} Relations</p>
       </div>
-      <svg ref={svgRef} width={dimensions.width} height={dimensions.height} className="cursor-move" />
+      <canvas
+        ref={canvasRef}
+        style={{ width: dimensions.width, height: dimensions.height }}
+        className={hoveredNodeId ? "cursor-pointer" : "cursor-move"}
+      />
+      {!nodeColors && legend.length > 0 && (
+        <div className="absolute bottom-4 left-4 z-10 max-w-[14rem] bg-slate-800/80 backdrop-blur-md p-3 rounded-lg border border-slate-700">
+          <h4 className="text-[10px] font-semibold uppercase tracking-wider text-slate-400 mb-2">Groups</h4>
+          <ul className="space-y-1">
+            {(legendExpanded ? legend : legend.slice(0, LEGEND_LIMIT)).map(({ group, color }) => (
+              <li key={group} className="flex items-center gap-2 text-xs text-slate-300">
+                <span className="w-2.5 h-2.5 rounded-full flex-shrink-0" style={{ backgroundColor: color }} />
+                <span className="truncate" title={group}>{group}</span>
+              </li>
+            ))}
+          </ul>
+          {legend.length > LEGEND_LIMIT && (
+            <button onClick={() => setLegendExpanded(!legendExpanded)} className="mt-2 text-[11px] text-blue-300 hover:text-blue-200">
+              {legendExpanded ? 'Show fewer' : `+${legend.length - LEGEND_LIMIT} more`}
+            </button>
+          )}
+        </div>
+      )}
+      {tooltip && (
+        <div
+          className="absolute z-20 pointer-events-none max-w-xs whitespace-pre-line bg-slate-800/95 border border-slate-700 rounded-lg px-3 py-2 text-xs text-slate-200 shadow-xl"
+          style={{ left: Math.min(tooltip.x + 14, dimensions.width - 220), top: tooltip.y + 14 }}
+        >
+          {tooltip.text}
+        </div>
+      )}
     </div>
   );
 };
 
-export default GraphVisualization;
\ No newline at end of file
+export default GraphVisualization;
@@ -0,0 +1,177 @@
+import React, { useMemo, useState } from 'react';
+import { KnowledgeGraphData, GraphNode, GraphLink, ImportRecord } from '../types';
+import { stageExtraction, classifyStaged, resolveStagedLink, StagedNode, StagedLink } from '../services/importStaging';
+
+interface ImportReviewProps {
+  currentGraph: KnowledgeGraphData;
+  extraction: KnowledgeGraphData;
+  source: ImportRecord;
+  onCommit: (nodes: GraphNode[], links: GraphLink[]) => void;
+  onDiscard: () => void;
+}
+
+const STATUS_STYLES: Record<string, string> = {
+  new: 'bg-emerald-500/10 text-emerald-400',
+  existing: 'bg-slate-700/50 text-slate-400',
+  dropped: 'bg-red-500/10 text-red-400'
+};
+
+const cellInputClass = "w-full bg-transparent border border-transparent hover:border-slate-700 focus:border-blue-500/50 rounded-lg px-2 py-1 text-sm text-slate-200 outline-none";
+
+const ImportReview: React.FC<ImportReviewProps> = ({ currentGraph, extraction, source, onCommit, onDiscard }) => {
+  const initial = useMemo(() => stageExtraction(extraction), [extraction]);
+  const [nodes, setNodes] = useState<StagedNode[]>(initial.nodes);
+  const [links, setLinks] = useState<StagedLink[]>(initial.links);
+
+  const { nodeStatus, matchedNodes, linkStatus } = useMemo(
+    () => classifyStaged(currentGraph, nodes, links),
+    [currentGraph, nodes, links]
+  );
+
+  // Staged links refer to entities by index, so a rename carries them along
+  const updateNode = (idx: number, patch: Partial<GraphNode>) => {
+    setNodes(prev => prev.map((n, i) => (i === idx ? { ...n, node: { ...n.node, ...patch } } : n)));
+  };
+
+  // An endpoint typed in by hand no longer follows a staged entity
+  const updateLink = (idx: number, patch: Partial<GraphLink>) => {
+    setLinks(prev => prev.map((l, i) => (i === idx ? {
+      ...l,
+      link: { ...resolveStagedLink(l, nodes), ...patch },
+      sourceIndex: patch.source === undefined ? l.sourceIndex : undefined,
+      targetIndex: patch.target === undefined ? l.targetIndex : undefined
+    } : l)));
+  };
+
+  const toggleNode = (idx: number) => setNodes(prev => prev.map((n, i) => (i === idx ? { ...n, included: !n.included } : n)));
+  const toggleLink = (idx: number) => setLinks(prev => prev.map((l, i) => (i === idx ? { ...l, included: !l.included } : l)));
+  const setAll = (included: boolean) => {
+    setNodes(prev => prev.map(n => ({ ...n, included })));
+    setLinks(prev => prev.map(l => ({ ...l, included })));
+  };
+
+  const committedNodes = nodes.filter(n => n.included && n.node.id.trim()).map(n => n.node);
+  const resolvedLinks = links.map(l => resolveStagedLink(l, nodes));
+  const committedLinks = resolvedLinks.filter((l, i) => links[i].included && linkStatus[i].status !== 'dropped');
+  const droppedCount = linkStatus.filter(s => s.status === 'dropped').length;
+  const newNodeCount = nodes.filter((n, i) => n.included && nodeStatus[i] === 'new').length;
+  const newLinkCount = links.filter((l, i) => l.included && linkStatus[i].status === 'new').length;
+
+  return (
+    <div className="bg-[#13161f] rounded-[2rem] p-8 border border-slate-800/50 shadow-2xl animate-fade-in">
+      <div className="flex flex-wrap items-start justify-between gap-4 mb-6">
+        <div>
+          <h3 className="text-2xl font-semibold text-white">Review Extraction</h3>
+          <p className="text-sm text-slate-400 mt-1 truncate max-w-xl" title={source.label}>From {source.label}</p>
+        </div>
+        <div className="flex gap-2">
+          <button onClick={() => setAll(true)} className="px-3 py-1.5 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-lg text-xs font-medium">Select all</button>
+          <button onClick={() => setAll(false)} className="px-3 py-1.5 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-lg text-xs font-medium">Select none</button>
+        </div>
+      </div>
+
+      <h4 className="text-xs font-semibold text-slate-400 uppercase tracking-wider mb-3">Entities ({nodes.length})</h4>
+      <div className="max-h-80 overflow-y-auto rounded-2xl border border-slate-800 mb-8">
+        <table className="w-full text-sm">
+          <thead className="sticky top-0 bg-[#0b0f19] text-xs text-slate-500 uppercase">
+            <tr>
+              <th className="w-10 p-3"></th>
+              <th className="p-3 text-left font-medium">Name</th>
+              <th className="p-3 text-left font-medium">Group</th>
+              <th className="w-24 p-3 text-left font-medium">Status</th>
+            </tr>
+          </thead>
+          <tbody>
+            {nodes.map((staged, idx) => (
+              <tr key={idx} className={`border-t border-slate-800 ${staged.included ? '' : 'opacity-40'}`}>
+                <td className="p-3 text-center">
+                  <input type="checkbox" checked={staged.included} onChange={() => toggleNode(idx)} className="accent-blue-500" />
+                </td>
+                <td className="p-1.5">
+                  <input value={staged.node.id} onChange={(e) => updateNode(idx, { id: e.target.value })} className={cellInputClass} />
+                </td>
+                <td className="p-1.5">
+                  {matchedNodes[idx] ? (
+                    <input value={matchedNodes[idx]!.group} disabled title="Existing entities keep their group" className={`${cellInputClass} disabled:text-slate-500 disabled:cursor-not-allowed`} />
+                  ) : (
+                    <input value={staged.node.group} onChange={(e) => updateNode(idx, { group: e.target.value })} className={cellInputClass} />
+                  )}
+                </td>
+                <td className="p-3">
+                  <span className={`px-2 py-0.5 rounded-md text-[10px] font-bold uppercase ${STATUS_STYLES[nodeStatus[idx]]}`}>{nodeStatus[idx]}</span>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <h4 className="text-xs font-semibold text-slate-400 uppercase tracking-wider mb-3">
+        Relationships ({links.length}){droppedCount > 0 && <span className="text-red-400 normal-case tracking-normal ml-2">{droppedCount} would be dropped — fix the endpoint to keep them</span>}
+      </h4>
+      <div className="max-h-80 overflow-y-auto rounded-2xl border border-slate-800 mb-8">
+        <table className="w-full text-sm">
+          <thead className="sticky top-0 bg-[#0b0f19] text-xs text-slate-500 uppercase">
+            <tr>
+              <th className="w-10 p-3"></th>
+              <th className="p-3 text-left font-medium">Source</th>
+              <th className="p-3 text-left font-medium">Relationship</th>
+              <th className="p-3 text-left font-medium">Target</th>
+              <th className="w-24 p-3 text-left font-medium">Status</th>
+            </tr>
+          </thead>
+          <tbody>
+            {links.map((staged, idx) => {
+              const { status, reason } = linkStatus[idx];
+              return (
+                <tr key={idx} className={`border-t border-slate-800 ${staged.included && status !== 'dropped' ? '' : 'opacity-40'}`}>
+                  <td className="p-3 text-center">
+                    <input
+                      type="checkbox"
+                      checked={staged.included && status !== 'dropped'}
+                      disabled={status === 'dropped'}
+                      onChange={() => toggleLink(idx)}
+                      className="accent-blue-500"
+                    />
+                  </td>
+                  <td className="p-1.5">
+                    <input value={resolvedLinks[idx].source} onChange={(e) => updateLink(idx, { source: e.target.value })} className={cellInputClass} />
+                  </td>
+                  <td className="p-1.5">
+                    <input value={staged.link.relationship} onChange={(e) => updateLink(idx, { relationship: e.target.value })} className={cellInputClass} />
+                  </td>
+                  <td className="p-1.5">
+                    <input value={resolvedLinks[idx].target} onChange={(e) => updateLink(idx, { target: e.target.value })} className={cellInputClass} />
+                  </td>
+                  <td className="p-3">
+                    <span className={`px-2 py-0.5 rounded-md text-[10px] font-bold uppercase ${STATUS_STYLES[status]}`} title={reason}>{status}</span>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <p className="text-sm text-slate-400">
+          Committing {newNodeCount} new entities and {newLinkCount} new relationships.
+        </p>
+        <div className="flex gap-3">
+          <button onClick={onDiscard} className="px-6 py-3 rounded-full text-sm font-medium bg-slate-800 hover:bg-slate-700 text-slate-300 transition-colors">
+            Discard
+          </button>
+          <button
+            onClick={() => onCommit(committedNodes, committedLinks)}
+            disabled={committedNodes.length === 0 && committedLinks.length === 0}
+            className="px-6 py-3 rounded-full text-sm font-semibold text-white gemini-button-gradient shadow-lg disabled:opacity-40"
+          >
+            Commit to Graph
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportReview;
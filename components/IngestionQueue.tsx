@@ -0,0 +1,101 @@
+import React from 'react';
+
+export type QueueStatus = 'pending' | 'extracting' | 'reviewing' | 'done' | 'partial' | 'failed';
+
+export interface QueueItem {
+  id: string;
+  file: File;
+  status: QueueStatus;
+  importId?: string;
+  entities?: number; // Extracted counts, before merging with the graph
+  links?: number;
+  failedChunks?: number; // Chunks of a 'partial' file that could not be extracted
+  totalChunks?: number;
+  error?: string;
+}
+
+interface IngestionQueueProps {
+  items: QueueItem[];
+  paused: boolean;
+  summary: { entities: number; links: number };
+  onTogglePause: () => void;
+  onRetry: (id: string) => void;
+  onRemove: (id: string) => void;
+  onClearFinished: () => void;
+}
+
+const STATUS_STYLES: Record<QueueStatus, string> = {
+  pending: 'bg-slate-800 text-slate-400',
+  extracting: 'bg-blue-500/10 text-blue-300',
+  reviewing: 'bg-purple-500/10 text-purple-300',
+  done: 'bg-emerald-500/10 text-emerald-300',
+  partial: 'bg-amber-500/10 text-amber-300',
+  failed: 'bg-red-500/10 text-red-300'
+};
+
+const smallButtonClass = "flex-shrink-0 px-3 py-1.5 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-lg text-xs font-medium transition-colors";
+
+const IngestionQueue: React.FC<IngestionQueueProps> = ({
+  items, paused, summary, onTogglePause, onRetry, onRemove, onClearFinished
+}) => {
+  const count = (status: QueueStatus) => items.filter(i => i.status === status).length;
+  const remaining = count('pending') + count('extracting') + count('reviewing');
+
+  return (
+    <div className="bg-[#13161f] rounded-[2rem] p-8 border border-slate-800/50 shadow-2xl">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-2">
+        <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-widest">Ingestion Queue</h3>
+        <div className="flex gap-2">
+          {remaining > 0 && (
+            <button onClick={onTogglePause} className={smallButtonClass}>
+              {paused ? 'Resume' : 'Pause'}
+            </button>
+          )}
+          {remaining < items.length && (
+            <button onClick={onClearFinished} className={smallButtonClass}>Clear Finished</button>
+          )}
+        </div>
+      </div>
+      <p className="text-sm text-slate-500 mb-6">
+        {count('done')} of {items.length} files done{count('partial') > 0 && `, ${count('partial')} partial`}{count('failed') > 0 && `, ${count('failed')} failed`}
+        {paused && remaining > 0 && ' • paused'} • {summary.entities} entities & {summary.links} links added to the graph.
+        Each file is recorded in the import history and can be removed there.
+      </p>
+
+      <ul className="space-y-2">
+        {items.map(item => (
+          <li key={item.id} className="flex items-center gap-4 p-4 rounded-2xl bg-[#0b0f19] border border-slate-800">
+            <span className={`flex-shrink-0 w-20 text-center px-2 py-0.5 rounded-md text-[10px] font-bold uppercase ${STATUS_STYLES[item.status]}`}>
+              {item.status}
+            </span>
+            <div className="flex-1 min-w-0">
+              <p className="text-sm text-slate-200 truncate" title={item.file.name}>{item.file.name}</p>
+              <p className="text-xs text-slate-500 mt-0.5 truncate">
+                {item.status === 'done' && `${item.entities} entities & ${item.links} links extracted`}
+                {item.status === 'partial' && `${item.entities} entities & ${item.links} links extracted • ${item.failedChunks} of ${item.totalChunks} chunks failed`}
+                {item.status === 'failed' && (item.error || 'Extraction failed')}
+                {item.status === 'extracting' && 'Extracting…'}
+                {item.status === 'reviewing' && 'Waiting for duplicate review…'}
+                {item.status === 'pending' && `${Math.ceil(item.file.size / 1024)} KB`}
+              </p>
+            </div>
+            {item.status === 'failed' && (
+              <button onClick={() => onRetry(item.id)} className={smallButtonClass}>Retry</button>
+            )}
+            {item.status !== 'extracting' && item.status !== 'reviewing' && (
+              <button
+                onClick={() => onRemove(item.id)}
+                className="flex-shrink-0 w-7 h-7 rounded-lg text-slate-500 hover:text-red-400 hover:bg-red-500/10 transition-colors"
+                title="Remove from queue"
+              >
+                ✕
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default IngestionQueue;
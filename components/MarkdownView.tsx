@@ -0,0 +1,166 @@
+import React, { useMemo } from 'react';
+import { GraphNode, SourceCitation } from '../types';
+import { MarkdownBlock, MarkdownInline, parseInline, parseMarkdown, insertCitationMarkers } from '../services/markdown';
+
+interface MarkdownViewProps {
+  text: string;
+  citations?: SourceCitation[];
+  sources?: Array<{ title: string; uri: string }>;
+  entities?: GraphNode[]; // Internal entities whose mentions become clickable
+  onCitationClick?: (sourceIndex: number) => void;
+  onEntityClick?: (id: string) => void;
+}
+
+const HEADING_CLASSES: Record<number, string> = {
+  1: 'text-2xl font-semibold text-white mt-8 mb-4',
+  2: 'text-xl font-semibold text-white mt-8 mb-3',
+  3: 'text-lg font-semibold text-slate-100 mt-6 mb-2',
+  4: 'text-base font-semibold text-slate-200 mt-4 mb-2'
+};
+
+const HEADING_TAGS = ['h2', 'h3', 'h4', 'h5', 'h6', 'h6'] as const;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Renders model-written Markdown as React elements (never as HTML), with citation markers
+ * linked to source cards and mentions of internal entities linked to the graph.
+ */
+const MarkdownView: React.FC<MarkdownViewProps> = ({
+  text, citations, sources = [], entities = [], onCitationClick, onEntityClick
+}) => {
+  const blocks = useMemo(() => parseMarkdown(insertCitationMarkers(text, citations)), [text, citations]);
+
+  // One pattern for every entity name and alias, longest first so "Machine Learning"
+  // wins over "Machine"; word boundaries as in findCitedNodes
+  const mentions = useMemo(() => {
+    const idByName = new Map<string, string>();
+    entities.forEach(n => [n.id, ...(n.aliases || [])].forEach(name => {
+      if (name.trim()) idByName.set(name.toLowerCase(), n.id);
+    }));
+    if (!idByName.size || !onEntityClick) return null;
+    const names = Array.from(idByName.keys()).sort((a, b) => b.length - a.length).map(escapeRegExp);
+    return { idByName, pattern: new RegExp(`(?<![a-z0-9])(${names.join("|")})(?![a-z0-9])`, "gi") };
+  }, [entities, onEntityClick]);
+
+  const renderText = (value: string, key: string, linkable: boolean): React.ReactNode => {
+    if (!mentions || !linkable) return value;
+    const parts: React.ReactNode[] = [];
+    let cursor = 0;
+    for (const m of value.matchAll(mentions.pattern)) {
+      const id = mentions.idByName.get(m[1].toLowerCase())!;
+      parts.push(value.slice(cursor, m.index));
+      parts.push(
+        <button
+          key={`${key}-${m.index}`}
+          onClick={() => onEntityClick!(id)}
+          className="text-purple-300 hover:text-purple-200 underline decoration-purple-500/40 decoration-dotted underline-offset-4"
+          title={`Open "${id}" in the graph`}
+        >
+          {m[1]}
+        </button>
+      );
+      cursor = m.index! + m[0].length;
+    }
+    parts.push(value.slice(cursor));
+    return parts;
+  };
+
+  const renderInline = (nodes: MarkdownInline[], key: string, linkable = true): React.ReactNode =>
+    nodes.map((node, i) => {
+      const k = `${key}-${i}`;
+      switch (node.kind) {
+        case 'text': return <React.Fragment key={k}>{renderText(node.text, k, linkable)}</React.Fragment>;
+        case 'strong': return <strong key={k} className="font-semibold text-white">{renderInline(node.children, k, linkable)}</strong>;
+        case 'em': return <em key={k}>{renderInline(node.children, k, linkable)}</em>;
+        case 'code': return <code key={k} className="px-1.5 py-0.5 rounded bg-slate-800 text-[0.9em] text-pink-200">{node.text}</code>;
+        case 'link':
+          return (
+            <a key={k} href={node.href} target="_blank" rel="noopener noreferrer" className="text-blue-300 hover:text-blue-200 underline underline-offset-4">
+              {renderInline(node.children, k, false)}
+            </a>
+          );
+        case 'citation':
+          return (
+            <sup key={k} className="ml-0.5 whitespace-nowrap">
+              {node.sourceIndices.filter(idx => idx < sources.length).map(idx => (
+                <button
+                  key={idx}
+                  onClick={() => onCitationClick?.(idx)}
+                  className="mx-px px-1 rounded bg-blue-500/10 text-[10px] font-bold text-blue-300 hover:bg-blue-500/25"
+                  title={sources[idx].title}
+                >
+                  {idx + 1}
+                </button>
+              ))}
+            </sup>
+          );
+      }
+    });
+
+  const renderBlocks = (items: MarkdownBlock[], key: string): React.ReactNode =>
+    items.map((block, i) => {
+      const k = `${key}-${i}`;
+      switch (block.kind) {
+        case 'heading': {
+          // One level down, since the solution sits under the card's own heading
+          const Tag = HEADING_TAGS[block.level - 1];
+          return <Tag key={k} className={HEADING_CLASSES[block.level] ?? HEADING_CLASSES[4]}>{renderInline(parseInline(block.text), k)}</Tag>;
+        }
+        case 'paragraph':
+          return <p key={k} className="my-3">{renderInline(parseInline(block.text), k)}</p>;
+        case 'list': {
+          const items = block.items.map((item, j) => (
+            <li key={j} className="pl-1">
+              {renderInline(parseInline(item.text), `${k}-${j}`)}
+              {renderBlocks(item.children, `${k}-${j}`)}
+            </li>
+          ));
+          return block.ordered
+            ? <ol key={k} start={block.start} className="list-decimal pl-6 my-3 space-y-1.5 marker:text-slate-500">{items}</ol>
+            : <ul key={k} className="list-disc pl-6 my-3 space-y-1.5 marker:text-slate-500">{items}</ul>;
+        }
+        case 'table':
+          return (
+            <div key={k} className="my-4 overflow-x-auto rounded-xl border border-slate-800">
+              <table className="w-full text-sm">
+                <thead className="bg-[#0b0f19] text-slate-300">
+                  <tr>
+                    {block.header.map((cell, c) => (
+                      <th key={c} className="px-3 py-2 font-semibold border-b border-slate-800" style={{ textAlign: block.align[c] ?? 'left' }}>
+                        {renderInline(parseInline(cell), `${k}-h${c}`)}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {block.rows.map((row, r) => (
+                    <tr key={r} className="border-t border-slate-800/60">
+                      {row.map((cell, c) => (
+                        <td key={c} className="px-3 py-2 align-top" style={{ textAlign: block.align[c] ?? 'left' }}>
+                          {renderInline(parseInline(cell), `${k}-${r}-${c}`)}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          );
+        case 'quote':
+          return <blockquote key={k} className="my-4 pl-4 border-l-2 border-slate-700 text-slate-400">{renderBlocks(block.blocks, k)}</blockquote>;
+        case 'code':
+          return (
+            <pre key={k} className="my-4 p-4 rounded-xl bg-[#0b0f19] border border-slate-800 overflow-x-auto text-sm text-slate-300">
+              <code>{block.text}</code>
+            </pre>
+          );
+        case 'rule':
+          return <hr key={k} className="my-6 border-slate-700/50" />;
+      }
+    });
+
+  return <div className="text-slate-300 leading-relaxed">{renderBlocks(blocks, 'md')}</div>;
+};
+
+export default MarkdownView;
@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import { MergeProposal } from '../services/entityResolution';
+
+interface MergeReviewProps {
+  proposals: MergeProposal[];
+  onConfirm: (accepted: MergeProposal[]) => void;
+  onCancel: () => void;
+}
+
+const MergeReview: React.FC<MergeReviewProps> = ({ proposals, onConfirm, onCancel }) => {
+  const [accepted, setAccepted] = useState<Set<number>>(new Set(proposals.map((_, idx) => idx)));
+
+  const toggle = (idx: number) => {
+    setAccepted(prev => {
+      const next = new Set(prev);
+      if (next.has(idx)) next.delete(idx); else next.add(idx);
+      return next;
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-6">
+      <div className="w-full max-w-2xl max-h-[80vh] flex flex-col bg-[#13161f] rounded-[2rem] p-8 border border-slate-800/50 shadow-2xl animate-fade-in">
+        <h3 className="text-2xl font-semibold text-white">Review Entity Matches</h3>
+        <p className="text-sm text-slate-400 mt-2 mb-6">
+          Some extracted entities look like ones already in your knowledge base. Accepted matches are merged and the new name is kept as an alias; rejected ones are added as separate entities.
+        </p>
+
+        <ul className="flex-1 overflow-y-auto space-y-2 pr-1">
+          {proposals.map((p, idx) => (
+            <li key={idx}>
+              <label className={`flex items-center gap-4 p-4 rounded-2xl border cursor-pointer transition-colors ${
+                accepted.has(idx) ? 'border-blue-500/30 bg-blue-500/5' : 'border-slate-800 bg-[#0b0f19]'
+              }`}>
+                <input type="checkbox" checked={accepted.has(idx)} onChange={() => toggle(idx)} className="accent-blue-500" />
+                <div className="flex-1 min-w-0 text-sm">
+                  <span className="text-slate-200 font-medium">{p.incomingId}</span>
+                  <span className="text-slate-500 mx-2">→</span>
+                  <span className="text-blue-300 font-medium">{p.existingId}</span>
+                </div>
+                <span className="flex-shrink-0 text-[10px] uppercase tracking-wider text-slate-500">
+                  {p.reason === 'acronym' ? 'Acronym' : `${Math.round(p.score * 100)}% similar`}
+                </span>
+              </label>
+            </li>
+          ))}
+        </ul>
+
+        <div className="flex justify-end gap-3 mt-6">
+          <button onClick={onCancel} className="px-6 py-3 rounded-full text-sm font-medium bg-slate-800 hover:bg-slate-700 text-slate-300 transition-colors">
+            Discard Import
+          </button>
+          <button
+            onClick={() => onConfirm(proposals.filter((_, idx) => accepted.has(idx)))}
+            className="px-6 py-3 rounded-full text-sm font-semibold text-white gemini-button-gradient shadow-lg"
+          >
+            Merge {accepted.size} & Import
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MergeReview;
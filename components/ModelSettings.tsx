@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import {
+  LLMSettings, LLMTask, ProviderId, PROVIDER_LABELS, SUGGESTED_MODELS,
+  DEFAULT_LLM_SETTINGS, loadLLMSettings, saveLLMSettings
+} from '../services/llmProvider';
+import { parseMockFixtures, loadStoredFixtures, saveStoredFixtures } from '../services/providers/mockFixtures';
+
+const TASKS: Array<{ id: LLMTask; label: string; description: string }> = [
+  { id: 'extraction', label: 'Knowledge Extraction', description: 'Turns imported text and documents into entities and relationships.' },
+  { id: 'solver', label: 'Scenario Solving', description: 'Writes action plans from the knowledge base. Web search grounding is only available with Gemini.' }
+];
+
+const inputClass = "w-full bg-[#0b0f19] border border-slate-700 rounded-xl px-4 py-2.5 text-sm text-slate-200 outline-none focus:ring-2 focus:ring-blue-500/50";
+
+const ModelSettings: React.FC = () => {
+  const [settings, setSettings] = useState<LLMSettings>(loadLLMSettings);
+  const [saved, setSaved] = useState(false);
+  const [fixtureCount, setFixtureCount] = useState(() => loadStoredFixtures().length);
+  const [fixtureError, setFixtureError] = useState<string | null>(null);
+
+  const updateTask = (task: LLMTask, patch: Partial<LLMSettings['tasks'][LLMTask]>) => {
+    setSaved(false);
+    setSettings(prev => ({ ...prev, tasks: { ...prev.tasks, [task]: { ...prev.tasks[task], ...patch } } }));
+  };
+
+  const changeProvider = (task: LLMTask, provider: ProviderId) => {
+    // Switching provider resets the model to that provider's first suggestion
+    const fallback = provider === DEFAULT_LLM_SETTINGS.tasks[task].provider
+      ? DEFAULT_LLM_SETTINGS.tasks[task].model
+      : SUGGESTED_MODELS[provider][0];
+    updateTask(task, { provider, model: fallback });
+  };
+
+  const handleSave = () => {
+    saveLLMSettings(settings);
+    setSaved(true);
+    setTimeout(() => setSaved(false), 3000);
+  };
+
+  // Fixture files take effect straight away; they aren't part of the saved settings
+  const handleFixtureFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const fixtures = parseMockFixtures(await file.text());
+      saveStoredFixtures(fixtures);
+      setFixtureCount(fixtures.length);
+      setFixtureError(null);
+    } catch (err) {
+      setFixtureError(`Could not load ${file.name}: ${err instanceof Error ? err.message : 'invalid file'}`);
+    }
+  };
+
+  const clearFixtures = () => {
+    saveStoredFixtures([]);
+    setFixtureCount(0);
+    setFixtureError(null);
+  };
+
+  const usesLocalServer = TASKS.some(t => settings.tasks[t.id].provider === 'openai-compatible');
+  const usesMock = TASKS.some(t => settings.tasks[t.id].provider === 'mock');
+
+  return (
+    <div className="flex flex-col gap-10 max-w-4xl mx-auto">
+      <div className="text-center space-y-4 mb-4">
+        <h2 className="text-5xl font-medium tracking-tight text-transparent bg-clip-text bg-gradient-to-r from-blue-400 via-purple-400 to-pink-400 pb-2">
+          Model Settings
+        </h2>
+        <p className="text-slate-400 text-lg max-w-2xl mx-auto">
+          Choose which model provider handles each task. Use a local server to keep data on your machine, or the offline mock for testing.
+        </p>
+      </div>
+
+      <div className="bg-[#13161f] rounded-[2rem] p-8 border border-slate-800/50 shadow-2xl space-y-8">
+        {TASKS.map(task => (
+          <div key={task.id}>
+            <h3 className="text-lg font-semibold text-white">{task.label}</h3>
+            <p className="text-sm text-slate-500 mb-4">{task.description}</p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <label className="space-y-1.5">
+                <span className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Provider</span>
+                <select
+                  value={settings.tasks[task.id].provider}
+                  onChange={(e) => changeProvider(task.id, e.target.value as ProviderId)}
+                  className={inputClass}
+                >
+                  {(Object.keys(PROVIDER_LABELS) as ProviderId[]).map(id => (
+                    <option key={id} value={id}>{PROVIDER_LABELS[id]}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="space-y-1.5">
+                <span className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Model</span>
+                <input
+                  list={`models-${task.id}`}
+                  value={settings.tasks[task.id].model}
+                  onChange={(e) => updateTask(task.id, { model: e.target.value })}
+                  className={inputClass}
+                />
+                <datalist id={`models-${task.id}`}>
+                  {SUGGESTED_MODELS[settings.tasks[task.id].provider].map(m => <option key={m} value={m} />)}
+                </datalist>
+              </label>
+            </div>
+          </div>
+        ))}
+
+        {usesLocalServer && (
+          <div className="pt-6 border-t border-slate-700/30 animate-fade-in">
+            <h3 className="text-lg font-semibold text-white">Local Server</h3>
+            <p className="text-sm text-slate-500 mb-4">Any server with an OpenAI-compatible <code>/chat/completions</code> endpoint, such as Ollama or llama.cpp.</p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <label className="space-y-1.5">
+                <span className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Base URL</span>
+                <input
+                  value={settings.openAICompatible.baseUrl}
+                  onChange={(e) => { setSaved(false); setSettings(prev => ({ ...prev, openAICompatible: { ...prev.openAICompatible, baseUrl: e.target.value } })); }}
+                  placeholder="http://localhost:11434/v1"
+                  className={inputClass}
+                />
+              </label>
+              <label className="space-y-1.5">
+                <span className="text-xs font-semibold text-slate-400 uppercase tracking-wider">API Key (optional)</span>
+                <input
+                  type="password"
+                  value={settings.openAICompatible.apiKey}
+                  onChange={(e) => { setSaved(false); setSettings(prev => ({ ...prev, openAICompatible: { ...prev.openAICompatible, apiKey: e.target.value } })); }}
+                  className={inputClass}
+                />
+              </label>
+            </div>
+          </div>
+        )}
+
+        {usesMock && (
+          <div className="pt-6 border-t border-slate-700/30 animate-fade-in">
+            <h3 className="text-lg font-semibold text-white">Mock Fixtures</h3>
+            <p className="text-sm text-slate-500 mb-4">
+              The offline mock answers with a canned response when one matches the prompt, and otherwise with simple heuristics.
+              A few fixtures are built in (try importing text about the "EU AI Act" or solving a "data breach" scenario).
+              Load more from a JSON array of <code>{'{ task, match | pattern, text, sources }'}</code>; loaded fixtures are tried first.
+            </p>
+            <div className="flex flex-wrap items-center gap-3">
+              <label className="px-4 py-2 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-xl text-sm font-medium cursor-pointer transition-colors">
+                Load Fixture File
+                <input type="file" accept=".json,application/json" onChange={handleFixtureFile} className="hidden" />
+              </label>
+              {fixtureCount > 0 && (
+                <button onClick={clearFixtures} className="px-4 py-2 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-xl text-sm font-medium transition-colors">
+                  Clear
+                </button>
+              )}
+              <span className="text-sm text-slate-400">{fixtureCount} loaded fixture(s)</span>
+            </div>
+            {fixtureError && <p className="text-sm text-red-400 mt-3">{fixtureError}</p>}
+          </div>
+        )}
+
+        <div className="flex justify-end items-center gap-4">
+          {saved && <span className="text-sm text-emerald-400">Settings saved</span>}
+          <button
+            onClick={() => { setSettings(DEFAULT_LLM_SETTINGS); setSaved(false); }}
+            className="px-6 py-3 rounded-full text-sm font-medium bg-slate-800 hover:bg-slate-700 text-slate-300 transition-colors"
+          >
+            Reset to Defaults
+          </button>
+          <button onClick={handleSave} className="px-8 py-3 rounded-full font-semibold text-white shadow-lg gemini-button-gradient">
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ModelSettings;
@@ -0,0 +1,282 @@
+import React, { useEffect, useState } from 'react';
+import { KnowledgeGraphData, GraphNode, GraphLink } from '../types';
+import { getGroups, getNodeRelationships, linkKey } from '../services/graphUtils';
+import {
+  renameNode, setNodeGroup, setNodeDetails, setLinkDetails, deleteNodes, addLink, updateLink, deleteLink, mergeNodes
+} from '../services/graphEditing';
+import { formatConfidence } from '../services/confidence';
+import ProvenanceList from './ProvenanceList';
+import DetailsEditor from './DetailsEditor';
+
+interface NodeDetailsPanelProps {
+  graph: KnowledgeGraphData; // Full graph; edits always apply to it, not the filtered view
+  node: GraphNode;
+  onSelectNode: (id: string | null, focus?: boolean) => void;
+  onGraphChange: (graph: KnowledgeGraphData) => void;
+}
+
+const inputClass = "w-full bg-[#0b0f19] border border-slate-700 rounded-xl px-3 py-2 text-sm text-slate-200 outline-none focus:ring-2 focus:ring-blue-500/50";
+const smallButtonClass = "px-3 py-1.5 bg-slate-800 hover:bg-slate-700 text-slate-300 hover:text-white rounded-lg text-xs font-medium transition-colors disabled:opacity-40 disabled:cursor-not-allowed";
+
+const NodeDetailsPanel: React.FC<NodeDetailsPanelProps> = ({ graph, node, onSelectNode, onGraphChange }) => {
+  const [nameDraft, setNameDraft] = useState(node.id);
+  const [groupDraft, setGroupDraft] = useState(node.group);
+  const [editingLinkKey, setEditingLinkKey] = useState<string | null>(null);
+  const [sourcesLinkKey, setSourcesLinkKey] = useState<string | null>(null);
+  const [detailsLinkKey, setDetailsLinkKey] = useState<string | null>(null);
+  const [linkLabelDraft, setLinkLabelDraft] = useState('');
+  const [newLink, setNewLink] = useState({ relationship: '', target: '' });
+  const [mergeCandidate, setMergeCandidate] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setNameDraft(node.id);
+    setGroupDraft(node.group);
+    setEditingLinkKey(null);
+    setError(null);
+  }, [node.id, node.group]);
+
+  const relationships = getNodeRelationships(graph, node.id);
+  const groups = getGroups(graph);
+  const otherNodeIds = graph.nodes.filter(n => n.id !== node.id).map(n => n.id);
+
+  // Runs an edit, surfacing validation errors instead of applying it
+  const applyEdit = (edit: () => KnowledgeGraphData): boolean => {
+    try {
+      onGraphChange(edit());
+      setError(null);
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Edit failed.");
+      return false;
+    }
+  };
+
+  const handleSaveNode = (e: React.FormEvent) => {
+    e.preventDefault();
+    const newId = nameDraft.trim();
+    const ok = applyEdit(() => {
+      let next = graph;
+      if (groupDraft.trim() !== node.group) next = setNodeGroup(next, node.id, groupDraft);
+      if (newId !== node.id) next = renameNode(next, node.id, newId);
+      return next;
+    });
+    if (ok && newId !== node.id) onSelectNode(newId);
+  };
+
+  const handleDeleteNode = () => {
+    const linkCount = relationships.incoming.length + relationships.outgoing.length;
+    if (!window.confirm(`Delete "${node.id}" and its ${linkCount} relationship(s)?`)) return;
+    if (applyEdit(() => deleteNodes(graph, [node.id]))) onSelectNode(null);
+  };
+
+  const handleMerge = () => {
+    const mergedId = mergeCandidate.trim();
+    if (!window.confirm(`Merge "${mergedId}" into "${node.id}"? Its relationships will be moved here and it will be removed.`)) return;
+    if (applyEdit(() => mergeNodes(graph, node.id, mergedId))) setMergeCandidate('');
+  };
+
+  const handleAddLink = (e: React.FormEvent) => {
+    e.preventDefault();
+    const ok = applyEdit(() => addLink(graph, { source: node.id, target: newLink.target.trim(), relationship: newLink.relationship }));
+    if (ok) setNewLink({ relationship: '', target: '' });
+  };
+
+  const startEditLink = (link: GraphLink) => {
+    setEditingLinkKey(linkKey(link));
+    setLinkLabelDraft(link.relationship);
+  };
+
+  const handleSaveLink = (link: GraphLink) => {
+    if (applyEdit(() => updateLink(graph, link, { ...link, relationship: linkLabelDraft }))) setEditingLinkKey(null);
+  };
+
+  const renderLinkRow = (link: GraphLink, direction: 'in' | 'out') => {
+    const other = direction === 'out' ? link.target : link.source;
+    const key = linkKey(link);
+    const otherButton = (
+      <button onClick={() => onSelectNode(other, true)} className="text-blue-300 hover:text-blue-200">{other}</button>
+    );
+
+    if (editingLinkKey === key) {
+      return (
+        <li key={key} className="flex items-center gap-1.5">
+          <input
+            autoFocus
+            value={linkLabelDraft}
+            onChange={(e) => setLinkLabelDraft(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') handleSaveLink(link); if (e.key === 'Escape') setEditingLinkKey(null); }}
+            className={`${inputClass} !py-1 !text-xs`}
+          />
+          <button onClick={() => handleSaveLink(link)} className={smallButtonClass}>Save</button>
+        </li>
+      );
+    }
+
+    return (
+      <li key={key} className="group/link text-slate-300">
+        <div className="flex items-start justify-between gap-2">
+          <span className="min-w-0" title={`Confidence: ${formatConfidence(link)}`}>
+            {direction === 'out'
+              ? <><span className="text-slate-500">{link.relationship} →</span> {otherButton}</>
+              : <>{otherButton} <span className="text-slate-500">→ {link.relationship}</span></>}
+          </span>
+          <span className="flex-shrink-0 flex gap-2 opacity-0 group-hover/link:opacity-100 transition-opacity text-xs">
+            <button
+              onClick={() => setDetailsLinkKey(detailsLinkKey === key ? null : key)}
+              className="text-slate-500 hover:text-white"
+              title="Description and properties"
+            >
+              Details
+            </button>
+            <button
+              onClick={() => setSourcesLinkKey(sourcesLinkKey === key ? null : key)}
+              className="text-slate-500 hover:text-white"
+              title="Show where this relationship came from"
+            >
+              Sources
+            </button>
+            <button onClick={() => startEditLink(link)} className="text-slate-500 hover:text-white" title="Edit relationship">Edit</button>
+            <button onClick={() => applyEdit(() => deleteLink(graph, link))} className="text-slate-500 hover:text-red-400" title="Delete relationship">✕</button>
+          </span>
+        </div>
+        {link.description && detailsLinkKey !== key && (
+          <p className="text-xs text-slate-500 mt-0.5 line-clamp-2">{link.description}</p>
+        )}
+        {detailsLinkKey === key && (
+          <div className="mt-2 p-3 rounded-xl bg-[#0b0f19] border border-slate-800">
+            <DetailsEditor details={link} onSave={(details) => applyEdit(() => setLinkDetails(graph, link, details))} />
+          </div>
+        )}
+        {sourcesLinkKey === key && (
+          <div className="mt-2">
+            <ProvenanceList provenance={link.provenance} imports={graph.imports} />
+          </div>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <aside className="w-80 flex-shrink-0 bg-[#13161f] rounded-[2rem] p-6 border border-slate-800/50 shadow-2xl overflow-y-auto animate-fade-in">
+      <div className="flex items-start justify-between gap-3 mb-4">
+        <div className="min-w-0">
+          <h3 className="text-lg font-semibold text-white break-words">{node.id}</h3>
+          <span className="inline-block mt-2 px-2 py-0.5 rounded-md bg-slate-700/50 text-xs text-slate-300">{node.group}</span>
+          {node.aliases && node.aliases.length > 0 && (
+            <p className="text-xs text-slate-500 mt-2">Also known as: {node.aliases.join(', ')}</p>
+          )}
+          <p className="text-xs text-slate-500 mt-1">
+            Confidence: {formatConfidence(node)}{node.mentions ? ` • mentioned in ${node.mentions} import(s)` : ''}
+          </p>
+        </div>
+        <button onClick={() => onSelectNode(null)} className="text-slate-500 hover:text-white text-sm" title="Close">✕</button>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 rounded-xl bg-red-500/10 text-red-300 border border-red-500/20 text-xs">{error}</div>
+      )}
+
+      <section className="mb-5">
+        <h4 className="text-xs font-semibold text-slate-400 uppercase tracking-wider mb-2">Details</h4>
+        <DetailsEditor key={node.id} details={node} onSave={(details) => applyEdit(() => setNodeDetails(graph, node.id, details))} />
+      </section>
+
+      <section className="mb-5">
+        <h4 className="text-xs font-semibold text-slate-400 uppercase tracking-wider mb-2">Outgoing ({relationships.outgoing.length})</h4>
+        <ul className="space-y-1.5 text-sm">
+          {relationships.outgoing.map(l => renderLinkRow(l, 'out'))}
+        </ul>
+      </section>
+
+      <section className="mb-5">
+        <h4 className="text-xs font-semibold text-slate-400 uppercase tracking-wider mb-2">Incoming ({relationships.incoming.length})</h4>
+        <ul className="space-y-1.5 text-sm">
+          {relationships.incoming.map(l => renderLinkRow(l, 'in'))}
+        </ul>
+      </section>
+
+      <section className="mb-6">
+        <h4 className="text-xs font-semibold text-slate-400 uppercase tracking-wider mb-2">Neighbours ({relationships.neighbors.length})</h4>
+        <div className="flex flex-wrap gap-1.5">
+          {relationships.neighbors.map(id => (
+            <button
+              key={id}
+              onClick={() => onSelectNode(id, true)}
+              className="px-2 py-1 rounded-lg bg-slate-800 hover:bg-slate-700 text-xs text-slate-300"
+            >
+              {id}
+            </button>
+          ))}
+        </div>
+      </section>
+
+      <section className="mb-6">
+        <h4 className="text-xs font-semibold text-slate-400 uppercase tracking-wider mb-2">Sources ({node.provenance?.length || 0})</h4>
+        <ProvenanceList provenance={node.provenance} imports={graph.imports} />
+      </section>
+
+      <div className="pt-5 border-t border-slate-700/30 space-y-5">
+        <form onSubmit={handleSaveNode} className="space-y-2">
+          <h4 className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Edit Entity</h4>
+          <input value={nameDraft} onChange={(e) => setNameDraft(e.target.value)} placeholder="Name" className={inputClass} />
+          <input list="node-details-groups" value={groupDraft} onChange={(e) => setGroupDraft(e.target.value)} placeholder="Group" className={inputClass} />
+          <datalist id="node-details-groups">
+            {groups.map(g => <option key={g} value={g} />)}
+          </datalist>
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={nameDraft.trim() === node.id && groupDraft.trim() === node.group}
+              className={smallButtonClass}
+            >
+              Save
+            </button>
+            <button type="button" onClick={handleDeleteNode} className={`${smallButtonClass} hover:!bg-red-500/10 hover:!text-red-400`}>
+              Delete Entity
+            </button>
+          </div>
+        </form>
+
+        <form onSubmit={handleAddLink} className="space-y-2">
+          <h4 className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Add Relationship</h4>
+          <input
+            value={newLink.relationship}
+            onChange={(e) => setNewLink(prev => ({ ...prev, relationship: e.target.value }))}
+            placeholder="Relationship (e.g. uses)"
+            className={inputClass}
+          />
+          <input
+            list="node-details-targets"
+            value={newLink.target}
+            onChange={(e) => setNewLink(prev => ({ ...prev, target: e.target.value }))}
+            placeholder="Target entity"
+            className={inputClass}
+          />
+          <button type="submit" disabled={!newLink.relationship.trim() || !newLink.target.trim()} className={smallButtonClass}>
+            Add
+          </button>
+        </form>
+
+        <div className="space-y-2">
+          <h4 className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Merge Into This Entity</h4>
+          <input
+            list="node-details-targets"
+            value={mergeCandidate}
+            onChange={(e) => setMergeCandidate(e.target.value)}
+            placeholder="Duplicate entity to absorb"
+            className={inputClass}
+          />
+          <button onClick={handleMerge} disabled={!otherNodeIds.includes(mergeCandidate.trim())} className={smallButtonClass}>
+            Merge
+          </button>
+        </div>
+        <datalist id="node-details-targets">
+          {otherNodeIds.map(id => <option key={id} value={id} />)}
+        </datalist>
+      </div>
+    </aside>
+  );
+};
+
+export default NodeDetailsPanel;
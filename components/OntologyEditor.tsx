@@ -0,0 +1,302 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { KnowledgeGraphData, Ontology, RelationshipType } from '../types';
+import {
+  EMPTY_ONTOLOGY, validateGraph, remapEntityTypes, remapRelationshipTypes, inferOntology,
+  matchEntityType, matchRelationshipType, OntologyIssue
+} from '../services/ontology';
+
+interface OntologyEditorProps {
+  graph: KnowledgeGraphData;
+  onGraphChange: (graph: KnowledgeGraphData, label: string) => void;
+}
+
+const MAX_SAMPLE_LINKS = 3;
+
+const inputClass = "bg-[#0b0f19] border border-slate-700 rounded-lg px-3 py-1.5 text-sm text-slate-200 outline-none focus:ring-2 focus:ring-blue-500/50";
+const smallButtonClass = "flex-shrink-0 px-3 py-1.5 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-lg text-xs font-medium transition-colors disabled:opacity-40 disabled:cursor-not-allowed";
+const sectionClass = "bg-[#13161f] rounded-[2rem] p-8 border border-slate-800/50 shadow-2xl";
+const sectionTitleClass = "text-sm font-semibold text-slate-400 uppercase tracking-widest";
+
+const issueKey = (issue: OntologyIssue) =>
+  issue.kind === 'unknown-entity-type' || issue.kind === 'unknown-relationship-type'
+    ? `${issue.kind}:${issue.value}`
+    : `${issue.kind}:${issue.relationship}:${issue.group}`;
+
+const OntologyEditor: React.FC<OntologyEditorProps> = ({ graph, onGraphChange }) => {
+  const saved = graph.ontology ?? EMPTY_ONTOLOGY;
+  const [draft, setDraft] = useState<Ontology>(saved);
+  const [newEntityType, setNewEntityType] = useState('');
+  const [newRelationshipType, setNewRelationshipType] = useState('');
+  const [remapTargets, setRemapTargets] = useState<Record<string, string>>({});
+
+  // Follow the saved ontology when it changes underneath us (undo, restore, workspace switch)
+  useEffect(() => {
+    setDraft(graph.ontology ?? EMPTY_ONTOLOGY);
+    setRemapTargets({});
+  }, [graph.ontology]);
+
+  const dirty = JSON.stringify(draft) !== JSON.stringify(saved);
+  const entityTypeNames = draft.entityTypes.map(t => t.name);
+  const issues = useMemo(() => validateGraph(graph, draft), [graph, draft]);
+
+  const nodeCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    graph.nodes.forEach(n => {
+      const type = matchEntityType(draft, n.group);
+      if (type) counts.set(type, (counts.get(type) || 0) + 1);
+    });
+    return counts;
+  }, [graph, draft]);
+
+  const linkCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    graph.links.forEach(l => {
+      const type = matchRelationshipType(draft, l.relationship);
+      if (type) counts.set(type.name, (counts.get(type.name) || 0) + 1);
+    });
+    return counts;
+  }, [graph, draft]);
+
+  const save = () => onGraphChange({ ...graph, ontology: draft }, "Updated the ontology");
+
+  const addEntityType = (name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed || matchEntityType(draft, trimmed)) return;
+    setDraft(d => ({ ...d, entityTypes: [...d.entityTypes, { name: trimmed }] }));
+  };
+
+  const addRelationshipType = (name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed || matchRelationshipType(draft, trimmed)) return;
+    setDraft(d => ({ ...d, relationshipTypes: [...d.relationshipTypes, { name: trimmed, domain: [], range: [] }] }));
+  };
+
+  // Renaming an entity type also renames it in every domain and range that lists it
+  const renameEntityType = (index: number, name: string) => {
+    const old = draft.entityTypes[index].name;
+    const swap = (types: string[]) => types.map(t => (t === old ? name : t));
+    setDraft(d => ({
+      entityTypes: d.entityTypes.map((t, i) => (i === index ? { ...t, name } : t)),
+      relationshipTypes: d.relationshipTypes.map(r => ({ ...r, domain: swap(r.domain), range: swap(r.range) }))
+    }));
+  };
+
+  const removeEntityType = (index: number) => {
+    const old = draft.entityTypes[index].name;
+    const drop = (types: string[]) => types.filter(t => t !== old);
+    setDraft(d => ({
+      entityTypes: d.entityTypes.filter((_, i) => i !== index),
+      relationshipTypes: d.relationshipTypes.map(r => ({ ...r, domain: drop(r.domain), range: drop(r.range) }))
+    }));
+  };
+
+  const updateRelationshipType = (index: number, patch: Partial<RelationshipType>) =>
+    setDraft(d => ({ ...d, relationshipTypes: d.relationshipTypes.map((r, i) => (i === index ? { ...r, ...patch } : r)) }));
+
+  const toggleEnd = (index: number, end: 'domain' | 'range', type: string) => {
+    const current = draft.relationshipTypes[index][end];
+    updateRelationshipType(index, { [end]: current.includes(type) ? current.filter(t => t !== type) : [...current, type] });
+  };
+
+  const remapTarget = (issue: OntologyIssue) =>
+    remapTargets[issueKey(issue)] ?? ('suggestion' in issue ? issue.suggestion ?? '' : '');
+
+  const remappable = issues.filter(i => (i.kind === 'unknown-entity-type' || i.kind === 'unknown-relationship-type') && remapTarget(i));
+
+  // Applies every chosen remap in one change, saving the draft ontology along with it
+  const applyRemaps = () => {
+    const groups: Record<string, string> = {};
+    const relationships: Record<string, string> = {};
+    remappable.forEach(issue => {
+      if (issue.kind === 'unknown-entity-type') groups[issue.value] = remapTarget(issue);
+      if (issue.kind === 'unknown-relationship-type') relationships[issue.value] = remapTarget(issue);
+    });
+    const remapped = remapRelationshipTypes(remapEntityTypes(graph, groups), relationships);
+    onGraphChange(
+      { ...remapped, ontology: draft },
+      `Remapped ${remappable.length} label${remappable.length === 1 ? '' : 's'} to the ontology`
+    );
+  };
+
+  return (
+    <div className="flex flex-col gap-8 max-w-4xl mx-auto">
+      <div className="text-center space-y-4">
+        <h2 className="text-5xl font-medium tracking-tight text-transparent bg-clip-text bg-gradient-to-r from-blue-400 via-purple-400 to-pink-400 pb-2">
+          Ontology
+        </h2>
+        <p className="text-slate-400 text-lg max-w-2xl mx-auto">
+          Define the entity and relationship types for this workspace. Extraction sticks to them, and the validator flags everything that doesn't.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          onClick={() => setDraft(inferOntology(graph))}
+          className={smallButtonClass}
+          title="Replace the draft with the groups and relationship labels currently in the graph"
+        >
+          Draft from Current Graph
+        </button>
+        <div className="ml-auto flex items-center gap-3">
+          {dirty && <span className="text-xs text-amber-300">Unsaved changes</span>}
+          <button onClick={() => setDraft(saved)} disabled={!dirty} className={smallButtonClass}>Discard</button>
+          <button
+            onClick={save}
+            disabled={!dirty}
+            className="px-5 py-2 rounded-full text-sm font-semibold bg-blue-500 hover:bg-blue-400 text-white disabled:opacity-40 transition-colors"
+          >
+            Save Ontology
+          </button>
+        </div>
+      </div>
+
+      <div className={sectionClass}>
+        <h3 className={`${sectionTitleClass} mb-6`}>Entity Types</h3>
+        {draft.entityTypes.length === 0 && (
+          <p className="text-sm text-slate-500 mb-4">No entity types yet, so extraction may invent any group.</p>
+        )}
+        <ul className="space-y-2">
+          {draft.entityTypes.map((type, idx) => (
+            <li key={idx} className="flex items-center gap-3">
+              <input value={type.name} onChange={(e) => renameEntityType(idx, e.target.value)} className={`${inputClass} w-48`} />
+              <input
+                value={type.description || ''}
+                onChange={(e) => setDraft(d => ({
+                  ...d,
+                  entityTypes: d.entityTypes.map((t, i) => (i === idx ? { ...t, description: e.target.value || undefined } : t))
+                }))}
+                placeholder="Description (helps the model)"
+                className={`${inputClass} flex-1`}
+              />
+              <span className="w-20 text-right text-xs text-slate-500">{nodeCounts.get(type.name) || 0} entities</span>
+              <button onClick={() => removeEntityType(idx)} className="w-7 h-7 rounded-lg text-slate-500 hover:text-red-400 hover:bg-red-500/10" title="Remove type">✕</button>
+            </li>
+          ))}
+        </ul>
+        <form onSubmit={(e) => { e.preventDefault(); addEntityType(newEntityType); setNewEntityType(''); }} className="flex gap-2 mt-4">
+          <input value={newEntityType} onChange={(e) => setNewEntityType(e.target.value)} placeholder="New entity type, e.g. Regulation" className={`${inputClass} flex-1`} />
+          <button type="submit" disabled={!newEntityType.trim()} className={smallButtonClass}>Add</button>
+        </form>
+      </div>
+
+      <div className={sectionClass}>
+        <h3 className={`${sectionTitleClass} mb-6`}>Relationship Types</h3>
+        {draft.relationshipTypes.length === 0 && (
+          <p className="text-sm text-slate-500 mb-4">No relationship types yet, so extraction may invent any label.</p>
+        )}
+        <ul className="space-y-4">
+          {draft.relationshipTypes.map((type, idx) => (
+            <li key={idx} className="p-4 rounded-2xl bg-[#0b0f19] border border-slate-800 space-y-3">
+              <div className="flex items-center gap-3">
+                <input value={type.name} onChange={(e) => updateRelationshipType(idx, { name: e.target.value })} className={`${inputClass} w-48`} />
+                <input
+                  value={type.description || ''}
+                  onChange={(e) => updateRelationshipType(idx, { description: e.target.value || undefined })}
+                  placeholder="Description"
+                  className={`${inputClass} flex-1`}
+                />
+                <span className="w-16 text-right text-xs text-slate-500">{linkCounts.get(type.name) || 0} links</span>
+                <button
+                  onClick={() => setDraft(d => ({ ...d, relationshipTypes: d.relationshipTypes.filter((_, i) => i !== idx) }))}
+                  className="w-7 h-7 rounded-lg text-slate-500 hover:text-red-400 hover:bg-red-500/10"
+                  title="Remove type"
+                >
+                  ✕
+                </button>
+              </div>
+              {entityTypeNames.length > 0 && (['domain', 'range'] as const).map(end => (
+                <div key={end} className="flex flex-wrap items-center gap-1.5 text-xs">
+                  <span className="w-16 text-slate-500">{end === 'domain' ? 'From' : 'To'}</span>
+                  {entityTypeNames.map(name => (
+                    <button
+                      key={name}
+                      onClick={() => toggleEnd(idx, end, name)}
+                      className={`px-2 py-0.5 rounded-md transition-colors ${
+                        type[end].includes(name) ? 'bg-blue-500/20 text-blue-200' : 'bg-slate-800/60 text-slate-500 hover:text-slate-300'
+                      }`}
+                    >
+                      {name}
+                    </button>
+                  ))}
+                  {type[end].length === 0 && <span className="text-slate-600 ml-1">any type</span>}
+                </div>
+              ))}
+            </li>
+          ))}
+        </ul>
+        <form onSubmit={(e) => { e.preventDefault(); addRelationshipType(newRelationshipType); setNewRelationshipType(''); }} className="flex gap-2 mt-4">
+          <input value={newRelationshipType} onChange={(e) => setNewRelationshipType(e.target.value)} placeholder="New relationship type, e.g. governs" className={`${inputClass} flex-1`} />
+          <button type="submit" disabled={!newRelationshipType.trim()} className={smallButtonClass}>Add</button>
+        </form>
+      </div>
+
+      <div className={sectionClass}>
+        <div className="flex flex-wrap items-center gap-3 mb-6">
+          <h3 className={`${sectionTitleClass} mr-auto`}>Validation</h3>
+          <button onClick={applyRemaps} disabled={!remappable.length} className={smallButtonClass}>
+            Apply {remappable.length || ''} Remap{remappable.length === 1 ? '' : 's'}
+          </button>
+        </div>
+        {issues.length === 0 ? (
+          <p className="text-sm text-slate-500">
+            {draft.entityTypes.length || draft.relationshipTypes.length ? 'The graph conforms to the ontology.' : 'Define types to validate the graph.'}
+          </p>
+        ) : (
+          <ul className="space-y-2 max-h-[32rem] overflow-y-auto custom-scrollbar pr-1">
+            {issues.map(issue => {
+              const key = issueKey(issue);
+              if (issue.kind === 'domain' || issue.kind === 'range') {
+                return (
+                  <li key={key} className="p-4 rounded-2xl bg-[#0b0f19] border border-slate-800 text-sm">
+                    <p className="text-slate-200">
+                      <span className="text-amber-300">{issue.relationship}</span> {issue.kind === 'domain' ? 'from' : 'to'}{' '}
+                      <span className="text-amber-300">{issue.group}</span> is outside its {issue.kind}
+                      <span className="text-slate-500"> — {issue.links.length} link{issue.links.length === 1 ? '' : 's'}</span>
+                    </p>
+                    <ul className="mt-1 text-xs text-slate-500 font-mono">
+                      {issue.links.slice(0, MAX_SAMPLE_LINKS).map((l, i) => (
+                        <li key={i} className="truncate">{l.source} -[{l.relationship}]-&gt; {l.target}</li>
+                      ))}
+                    </ul>
+                  </li>
+                );
+              }
+              const isEntity = issue.kind === 'unknown-entity-type';
+              const count = isEntity ? issue.nodeIds.length : issue.links.length;
+              const options = isEntity ? entityTypeNames : draft.relationshipTypes.map(t => t.name);
+              return (
+                <li key={key} className="flex flex-wrap items-center gap-3 p-4 rounded-2xl bg-[#0b0f19] border border-slate-800 text-sm">
+                  <div className="flex-1 min-w-[12rem]">
+                    <p className="text-slate-200">
+                      Unknown {isEntity ? 'entity type' : 'relationship'} <span className="text-red-300">"{issue.value}"</span>
+                    </p>
+                    <p className="text-xs text-slate-500 mt-0.5">
+                      {count} {isEntity ? (count === 1 ? 'entity' : 'entities') : (count === 1 ? 'link' : 'links')}
+                    </p>
+                  </div>
+                  <select
+                    value={remapTarget(issue)}
+                    onChange={(e) => setRemapTargets(prev => ({ ...prev, [key]: e.target.value }))}
+                    className={inputClass}
+                  >
+                    <option value="">Leave as is</option>
+                    {options.map(name => <option key={name} value={name}>Remap to {name}</option>)}
+                  </select>
+                  <button
+                    onClick={() => (isEntity ? addEntityType(issue.value) : addRelationshipType(issue.value))}
+                    className={smallButtonClass}
+                    title="Add this label to the ontology instead"
+                  >
+                    Add as Type
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default OntologyEditor;
@@ -0,0 +1,38 @@
+import React from 'react';
+import { ImportRecord, Provenance } from '../types';
+
+interface ProvenanceListProps {
+  provenance?: Provenance[];
+  imports?: ImportRecord[];
+}
+
+const ProvenanceList: React.FC<ProvenanceListProps> = ({ provenance, imports }) => {
+  if (!provenance?.length) {
+    return <p className="text-xs text-slate-600 italic">No recorded source (seed data or manual edit).</p>;
+  }
+
+  const importsById = new Map<string, ImportRecord>((imports || []).map(i => [i.id, i]));
+
+  return (
+    <ul className="space-y-2">
+      {provenance.map((p, idx) => {
+        const record = importsById.get(p.importId);
+        return (
+          <li key={idx} className="p-3 rounded-xl bg-[#0b0f19] border border-slate-800 text-xs">
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-slate-300 font-medium truncate" title={record?.label}>
+                {record ? `${record.kind === 'scenario' ? 'Scenario: ' : ''}${record.label}` : 'Removed import'}
+              </span>
+              {record && (
+                <span className="flex-shrink-0 text-slate-600">{new Date(record.createdAt).toLocaleDateString()}</span>
+              )}
+            </div>
+            {p.excerpt && <p className="text-slate-500 mt-1.5 italic line-clamp-3">“{p.excerpt}”</p>}
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default ProvenanceList;
@@ -0,0 +1,141 @@
+import React, { useState } from 'react';
+import { KnowledgeGraphData } from '../types';
+import { EXAMPLE_QUERIES, QueryResult, runQuery } from '../services/graphQuery';
+
+interface QueryConsoleProps {
+  graph: KnowledgeGraphData;
+  onShowInGraph: (nodeIds: Set<string>, label: string, focusNodeId?: string) => void;
+}
+
+const QueryConsole: React.FC<QueryConsoleProps> = ({ graph, onShowInGraph }) => {
+  const [query, setQuery] = useState(EXAMPLE_QUERIES[0]);
+  const [result, setResult] = useState<QueryResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [elapsedMs, setElapsedMs] = useState(0);
+
+  const run = (source = query) => {
+    const started = performance.now();
+    try {
+      setResult(runQuery(graph, source));
+      setError(null);
+    } catch (err) {
+      setResult(null);
+      setError(err instanceof Error ? err.message : "Query failed.");
+    }
+    setElapsedMs(performance.now() - started);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+      e.preventDefault();
+      run();
+    }
+  };
+
+  const matchLabel = (count: number) => `${count} ${count === 1 ? 'entity' : 'entities'} matched by the query`;
+
+  return (
+    <div className="flex flex-col gap-8 max-w-5xl mx-auto">
+      <div className="text-center space-y-4">
+        <h2 className="text-5xl font-medium tracking-tight text-transparent bg-clip-text bg-gradient-to-r from-blue-400 via-purple-400 to-pink-400 pb-2">
+          Query Console
+        </h2>
+        <p className="text-slate-400 text-lg max-w-2xl mx-auto">
+          Ask precise questions with graph patterns, e.g. <code className="text-slate-300">(a:Regulation)-[:governs]-&gt;(b)</code>.
+        </p>
+      </div>
+
+      <div className="bg-[#13161f] rounded-[2rem] p-2 border border-slate-800/50 shadow-2xl">
+        <textarea
+          className="w-full bg-transparent border-none text-slate-200 focus:ring-0 outline-none resize-none h-32 p-6 font-mono text-sm placeholder:text-slate-600"
+          placeholder="MATCH (a)-[r]->(b) WHERE a.group = 'Technology' RETURN a, r, b"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={handleKeyDown}
+          spellCheck={false}
+        />
+        <div className="flex flex-wrap justify-between items-center gap-3 px-4 pb-4">
+          <div className="flex flex-wrap gap-2">
+            {EXAMPLE_QUERIES.map((example, idx) => (
+              <button
+                key={example}
+                onClick={() => { setQuery(example); run(example); }}
+                className="px-3 py-1 rounded-full text-xs bg-slate-800/60 hover:bg-slate-800 text-slate-400 hover:text-slate-200 transition-colors"
+                title={example}
+              >
+                Example {idx + 1}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={() => run()}
+            disabled={!query.trim()}
+            className="px-6 py-2.5 rounded-full text-sm font-semibold bg-blue-500 hover:bg-blue-400 text-white disabled:opacity-40 transition-colors"
+            title="Ctrl/⌘ + Enter"
+          >
+            Run Query
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-4 rounded-2xl bg-red-500/10 border border-red-500/20 text-red-200 text-sm font-mono">{error}</div>
+      )}
+
+      {result && (
+        <div className="bg-[#13161f] rounded-2xl border border-slate-800/50 overflow-hidden animate-fade-in">
+          <div className="flex flex-wrap items-center justify-between gap-3 px-5 py-3 border-b border-slate-800">
+            <p className="text-xs text-slate-500">
+              {result.rows.length} row{result.rows.length === 1 ? '' : 's'}
+              {result.truncated && ' (limit reached)'} · {result.nodeIds.size} entities · {elapsedMs.toFixed(0)} ms
+            </p>
+            <button
+              onClick={() => onShowInGraph(result.nodeIds, matchLabel(result.nodeIds.size))}
+              disabled={result.nodeIds.size === 0}
+              className="px-3 py-1.5 rounded-full text-xs font-medium bg-emerald-500/10 text-emerald-300 hover:bg-emerald-500/20 disabled:opacity-40 transition-colors"
+            >
+              Highlight in Graph
+            </button>
+          </div>
+          {result.rows.length === 0 ? (
+            <p className="px-5 py-8 text-center text-sm text-slate-500">No matches.</p>
+          ) : (
+            <div className="overflow-x-auto custom-scrollbar max-h-[32rem]">
+              <table className="w-full text-sm">
+                <thead className="sticky top-0 bg-[#13161f]">
+                  <tr>
+                    {result.columns.map(column => (
+                      <th key={column} className="px-5 py-2 text-left text-xs font-semibold text-slate-500 uppercase tracking-wider">{column}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-800/60">
+                  {result.rows.map((row, rowIdx) => (
+                    <tr key={rowIdx} className="hover:bg-slate-800/30">
+                      {row.map((cell, cellIdx) => (
+                        <td key={cellIdx} className="px-5 py-2 text-slate-300 align-top">
+                          {cell.nodeId ? (
+                            <button
+                              onClick={() => onShowInGraph(result.nodeIds, matchLabel(result.nodeIds.size), cell.nodeId)}
+                              className="text-blue-300 hover:underline text-left"
+                            >
+                              {cell.text}
+                            </button>
+                          ) : (
+                            cell.text || <span className="text-slate-600">—</span>
+                          )}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QueryConsole;
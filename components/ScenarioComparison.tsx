@@ -0,0 +1,106 @@
+import React, { useMemo } from 'react';
+import { ScenarioRun } from '../types';
+import { diffLines, DiffLine } from '../services/textDiff';
+
+interface ScenarioComparisonProps {
+  before: ScenarioRun;
+  after: ScenarioRun;
+  onClose: () => void;
+}
+
+type Row = { left?: DiffLine; right?: DiffLine };
+
+/**
+ * Lays a diff out in two columns. Runs of removed lines are paired with the added
+ * lines that follow them so rewritten passages sit side by side.
+ */
+const toRows = (diff: DiffLine[]): Row[] => {
+  const rows: Row[] = [];
+  let i = 0;
+  while (i < diff.length) {
+    if (diff[i].type === 'same') {
+      rows.push({ left: diff[i], right: diff[i] });
+      i++;
+      continue;
+    }
+    const removed: DiffLine[] = [];
+    const added: DiffLine[] = [];
+    while (i < diff.length && diff[i].type === 'removed') removed.push(diff[i++]);
+    while (i < diff.length && diff[i].type === 'added') added.push(diff[i++]);
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      rows.push({ left: removed[k], right: added[k] });
+    }
+  }
+  return rows;
+};
+
+const cellClass = (line?: DiffLine) =>
+  !line ? 'bg-slate-900/40'
+    : line.type === 'removed' ? 'bg-red-500/10 text-red-200'
+    : line.type === 'added' ? 'bg-emerald-500/10 text-emerald-200'
+    : 'text-slate-400';
+
+const RunHeader: React.FC<{ run: ScenarioRun; label: string }> = ({ run, label }) => (
+  <div className="p-4 rounded-2xl bg-[#0b0f19] border border-slate-800">
+    <p className="text-xs font-semibold text-slate-500 uppercase tracking-wider">{label}</p>
+    <p className="text-sm text-slate-200 mt-1">{new Date(run.createdAt).toLocaleString()}</p>
+    <p className="text-xs text-slate-500 mt-1">
+      {run.model} • {run.graph.nodes} entities, {run.graph.links} links, {run.graph.imports} imports • graph {run.graph.fingerprint}
+    </p>
+  </div>
+);
+
+const ScenarioComparison: React.FC<ScenarioComparisonProps> = ({ before, after, onClose }) => {
+  const rows = useMemo(() => toRows(diffLines(before.result.solution, after.result.solution)), [before, after]);
+
+  const beforeUris = new Set(before.result.sources.map(s => s.uri));
+  const afterUris = new Set(after.result.sources.map(s => s.uri));
+  const newSources = after.result.sources.filter(s => !beforeUris.has(s.uri));
+  const droppedSources = before.result.sources.filter(s => !afterUris.has(s.uri));
+
+  return (
+    <div className="bg-[#13161f] rounded-[2rem] p-8 border border-slate-800/50 shadow-2xl animate-fade-in space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div className="min-w-0">
+          <h3 className="text-2xl font-semibold text-white">Compare Runs</h3>
+          <p className="text-sm text-slate-400 mt-1 truncate" title={after.scenario}>{after.scenario}</p>
+          {before.scenario !== after.scenario && (
+            <p className="text-xs text-amber-300 mt-1">These runs were for different scenario texts.</p>
+          )}
+        </div>
+        <button onClick={onClose} className="px-4 py-2 rounded-full text-sm bg-slate-800 hover:bg-slate-700 text-slate-300 transition-colors">
+          Close
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <RunHeader run={before} label="Earlier" />
+        <RunHeader run={after} label="Later" />
+      </div>
+
+      <div className="rounded-2xl border border-slate-800 overflow-hidden text-sm font-mono">
+        {rows.map((row, idx) => (
+          <div key={idx} className="grid grid-cols-2 divide-x divide-slate-800">
+            <div className={`px-3 py-0.5 whitespace-pre-wrap break-words ${cellClass(row.left)}`}>{row.left?.text || ' '}</div>
+            <div className={`px-3 py-0.5 whitespace-pre-wrap break-words ${cellClass(row.right)}`}>{row.right?.text || ' '}</div>
+          </div>
+        ))}
+      </div>
+
+      {(newSources.length > 0 || droppedSources.length > 0) && (
+        <div className="grid grid-cols-2 gap-4 text-xs">
+          <div>
+            <p className="font-semibold text-slate-500 uppercase tracking-wider mb-2">Sources only in earlier run</p>
+            {droppedSources.map(s => <p key={s.uri} className="text-red-300 truncate" title={s.uri}>{s.title}</p>)}
+          </div>
+          <div>
+            <p className="font-semibold text-slate-500 uppercase tracking-wider mb-2">Sources only in later run</p>
+            {newSources.map(s => <p key={s.uri} className="text-emerald-300 truncate" title={s.uri}>{s.title}</p>)}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ScenarioComparison;
@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { ScenarioRun } from '../types';
+
+interface ScenarioHistoryProps {
+  runs: ScenarioRun[];
+  currentFingerprint: string;
+  compareIds: string[];
+  onOpen: (run: ScenarioRun) => void;
+  onRerun: (run: ScenarioRun) => void;
+  onDelete: (id: string) => void;
+  onToggleCompare: (id: string) => void;
+  onCompare: () => void;
+}
+
+const smallButtonClass = "flex-shrink-0 px-3 py-1.5 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-lg text-xs font-medium transition-colors";
+
+const ScenarioHistory: React.FC<ScenarioHistoryProps> = ({
+  runs, currentFingerprint, compareIds, onOpen, onRerun, onDelete, onToggleCompare, onCompare
+}) => {
+  const [query, setQuery] = useState('');
+
+  const q = query.trim().toLowerCase();
+  const visibleRuns = q
+    ? runs.filter(run => run.scenario.toLowerCase().includes(q) || run.result.solution.toLowerCase().includes(q))
+    : runs;
+
+  return (
+    <div className="bg-[#13161f] rounded-[2rem] p-8 border border-slate-800/50 shadow-2xl animate-fade-in">
+      <div className="flex flex-wrap items-center gap-4 mb-6">
+        <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-widest">Scenario History</h3>
+        <input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search scenarios and solutions..."
+          className="flex-1 min-w-[12rem] bg-[#0b0f19] border border-slate-700 rounded-full px-4 py-2 text-sm text-slate-200 outline-none focus:ring-2 focus:ring-blue-500/50"
+        />
+        <button
+          onClick={onCompare}
+          disabled={compareIds.length !== 2}
+          className={`${smallButtonClass} disabled:opacity-40 disabled:cursor-not-allowed`}
+          title="Tick two runs to compare them side by side"
+        >
+          Compare ({compareIds.length}/2)
+        </button>
+      </div>
+
+      {visibleRuns.length === 0 ? (
+        <p className="text-sm text-slate-500">{runs.length ? 'No runs match your search.' : 'Solved scenarios will appear here.'}</p>
+      ) : (
+        <ul className="space-y-2 max-h-96 overflow-y-auto custom-scrollbar pr-1">
+          {visibleRuns.map(run => (
+            <li key={run.id} className="flex items-center gap-4 p-4 rounded-2xl bg-[#0b0f19] border border-slate-800">
+              <input
+                type="checkbox"
+                checked={compareIds.includes(run.id)}
+                onChange={() => onToggleCompare(run.id)}
+                disabled={!compareIds.includes(run.id) && compareIds.length >= 2}
+                className="accent-blue-500"
+                title="Select for comparison"
+              />
+              <button onClick={() => onOpen(run)} className="flex-1 min-w-0 text-left">
+                <p className="text-sm text-slate-200 truncate" title={run.scenario}>{run.scenario}</p>
+                <p className="text-xs text-slate-500 mt-0.5">
+                  {new Date(run.createdAt).toLocaleString()} • {run.model} • {run.graph.nodes} entities, {run.graph.links} links
+                  {run.graph.fingerprint === currentFingerprint ? ' • current graph' : ' • graph has changed since'}
+                  {run.result.stopped && ' • stopped early'}
+                </p>
+              </button>
+              <button onClick={() => onRerun(run)} className={smallButtonClass} title="Solve again against the current graph">Re-run</button>
+              <button
+                onClick={() => onDelete(run.id)}
+                className="flex-shrink-0 w-7 h-7 rounded-lg text-slate-500 hover:text-red-400 hover:bg-red-500/10 transition-colors"
+                title="Delete run"
+              >
+                ✕
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ScenarioHistory;
@@ -1,34 +1,211 @@
-import React, { useState } from 'react';
-import { solveScenarioWithIntegration } from '../services/geminiService';
-import { KnowledgeGraphData, ScenarioResult } from '../types';
-import { jsPDF } from 'jspdf';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { solveScenarioWithIntegration, SolverPhase } from '../services/geminiService';
+import { findCitedNodes } from '../services/provenance';
+import { loadLLMSettings } from '../services/llmProvider';
+import { DEFAULT_RETRIEVAL_OPTIONS } from '../services/subgraphRetrieval';
+import { extractFromSolution } from '../services/solutionLearning';
+import { listScenarioRuns, saveScenarioRun, deleteScenarioRun, updateScenarioRunResult, graphFingerprint } from '../services/scenarioHistory';
+import { KnowledgeGraphData, GraphNode, GraphLink, ImportRecord, ScenarioResult, ScenarioRun } from '../types';
+import { buildScenarioReport, reportToText } from '../services/report';
+import { reportToDocx, reportToXlsx } from '../services/officeExport';
+import { reportToPdf } from '../services/pdfExport';
+import { isSafeHref } from '../services/markdown';
+import ProvenanceList from './ProvenanceList';
+import ScenarioHistory from './ScenarioHistory';
+import ScenarioComparison from './ScenarioComparison';
+import ActionPlanView from './ActionPlanView';
+import MarkdownView from './MarkdownView';
 
 interface ScenarioSolverProps {
   knowledgeGraph: KnowledgeGraphData;
+  workspaceId: string | null;
+  onUpdateGraph?: (newNodes: GraphNode[], newLinks: GraphLink[], source?: ImportRecord) => Promise<boolean>; // False if cancelled in merge review
+  onOpenEntity?: (id: string) => void; // Shows an entity mentioned in the solution in the graph view
 }
 
-const ScenarioSolver: React.FC<ScenarioSolverProps> = ({ knowledgeGraph }) => {
+const selectClass = "bg-[#0b0f19] border border-slate-700 rounded-lg px-2 py-1 text-xs text-slate-300 outline-none focus:ring-2 focus:ring-blue-500/50";
+
+// How long a source card stays highlighted after its citation is clicked
+const SOURCE_HIGHLIGHT_MS = 2000;
+
+const downloadBlob = (fileName: string, blob: Blob) => {
+  const element = document.createElement("a");
+  element.href = URL.createObjectURL(blob);
+  element.download = fileName;
+  document.body.appendChild(element);
+  element.click();
+  document.body.removeChild(element);
+  setTimeout(() => URL.revokeObjectURL(element.href), 0);
+};
+
+const ScenarioSolver: React.FC<ScenarioSolverProps> = ({ knowledgeGraph, workspaceId, onUpdateGraph, onOpenEntity }) => {
   const [scenario, setScenario] = useState('');
   const [isSolving, setIsSolving] = useState(false);
   const [result, setResult] = useState<ScenarioResult | null>(null);
+  // The scenario `result` answers; the textarea may have been edited since
+  const [solvedScenario, setSolvedScenario] = useState('');
   const [copied, setCopied] = useState(false);
+  const [expandedCitation, setExpandedCitation] = useState<string | null>(null);
+  const [hops, setHops] = useState(DEFAULT_RETRIEVAL_OPTIONS.hops);
+  const [tokenBudget, setTokenBudget] = useState(DEFAULT_RETRIEVAL_OPTIONS.tokenBudget);
+  const [showContext, setShowContext] = useState(false);
+  const [phase, setPhase] = useState<SolverPhase | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const [runs, setRuns] = useState<ScenarioRun[]>([]);
+  const [showHistory, setShowHistory] = useState(false);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [comparison, setComparison] = useState<[ScenarioRun, ScenarioRun] | null>(null);
+  // History entry of the result on screen, so checklist progress is saved with it
+  const [activeRunId, setActiveRunId] = useState<string | null>(null);
+  const [isLearning, setIsLearning] = useState(false);
+  const [learnMessage, setLearnMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null);
+  const [highlightedSource, setHighlightedSource] = useState<number | null>(null);
+  const sourceRefs = useRef<Array<HTMLAnchorElement | null>>([]);
+  const highlightTimerRef = useRef<number | undefined>(undefined);
+  const solverModel = loadLLMSettings().tasks.solver.model;
 
-  const handleSolve = async () => {
-    if (!scenario.trim()) return;
+  // Internal entities the solution refers to, for auditing where that knowledge came from.
+  // Computed once the text stops changing rather than on every streamed chunk.
+  const citedNodes = useMemo(
+    () => (result && !isSolving ? findCitedNodes(knowledgeGraph, result.solution) : []),
+    [result, isSolving, knowledgeGraph]
+  );
+
+  const currentFingerprint = useMemo(() => graphFingerprint(knowledgeGraph), [knowledgeGraph]);
+
+  useEffect(() => {
+    setRuns([]);
+    setCompareIds([]);
+    setComparison(null);
+    if (!workspaceId) return;
+    listScenarioRuns(workspaceId)
+      .then(setRuns)
+      .catch(err => console.error("Failed to load scenario history:", err));
+  }, [workspaceId]);
+
+  const handleSolve = async (text: string = scenario) => {
+    if (!text.trim()) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
     setIsSolving(true);
     setResult(null);
+    setSolvedScenario(text);
+    setPhase(null);
+    setComparison(null);
+    setActiveRunId(null);
+    setLearnMessage(null);
 
     try {
-      const response = await solveScenarioWithIntegration(scenario, knowledgeGraph);
-      setResult(response);
+      const response = await solveScenarioWithIntegration(text, knowledgeGraph, {
+        retrieval: { hops, tokenBudget },
+        signal: controller.signal,
+        onUpdate: setResult,
+        onPhase: setPhase
+      });
+      setResult(response.stopped && !response.solution
+        ? { ...response, solution: "Stopped before any of the solution was written." }
+        : response);
+      if (workspaceId && response.solution) {
+        const run = await saveScenarioRun(workspaceId, text, response, knowledgeGraph);
+        setRuns(prev => [run, ...prev]);
+        setActiveRunId(run.id);
+      }
     } catch (e) {
       console.error(e);
       setResult({ solution: "Error generating solution. Please try again.", sources: [] });
     } finally {
+      abortRef.current = null;
       setIsSolving(false);
+      setPhase(null);
+    }
+  };
+
+  const openRun = (run: ScenarioRun) => {
+    setScenario(run.scenario);
+    setSolvedScenario(run.scenario);
+    setResult(run.result);
+    setActiveRunId(run.id);
+    setComparison(null);
+    setLearnMessage(null);
+  };
+
+  // Stores a changed result on screen and, if it came from the history, on its run
+  const updateResult = (updated: ScenarioResult) => {
+    setResult(updated);
+    const run = runs.find(r => r.id === activeRunId);
+    if (!run) return;
+    updateScenarioRunResult(run, updated)
+      .then(saved => setRuns(prev => prev.map(r => r.id === saved.id ? saved : r)))
+      .catch(err => console.error("Failed to update scenario run:", err));
+  };
+
+  const handleLearn = async () => {
+    if (!result || !onUpdateGraph) return;
+    setIsLearning(true);
+    setLearnMessage(null);
+
+    try {
+      const { graph, source } = await extractFromSolution(solvedScenario, result, knowledgeGraph, activeRunId ?? undefined);
+      if (!await onUpdateGraph(graph.nodes, graph.links, source)) {
+        setLearnMessage({ type: 'error', text: "Learning was cancelled in duplicate review; nothing was added." });
+        return;
+      }
+      updateResult({ ...result, learnedImportId: source.id });
+      setLearnMessage({ type: 'success', text: `Learned ${graph.nodes.length} entities & ${graph.links.length} links from this solution.` });
+    } catch (err) {
+      console.error("Learning from solution failed:", err);
+      setLearnMessage({ type: 'error', text: "Could not extract knowledge from this solution." });
+    } finally {
+      setIsLearning(false);
     }
   };
 
+  const toggleStep = (index: number) => {
+    if (!result?.plan) return;
+    const steps = result.plan.steps.map((step, idx) => idx === index ? { ...step, done: !step.done } : step);
+    updateResult({ ...result, plan: { ...result.plan, steps } });
+  };
+
+  const rerun = (run: ScenarioRun) => {
+    setScenario(run.scenario);
+    handleSolve(run.scenario);
+  };
+
+  const removeRun = async (id: string) => {
+    await deleteScenarioRun(id);
+    setRuns(prev => prev.filter(r => r.id !== id));
+    setCompareIds(prev => prev.filter(c => c !== id));
+  };
+
+  const toggleCompare = (id: string) => {
+    setCompareIds(prev => prev.includes(id) ? prev.filter(c => c !== id) : [...prev, id].slice(-2));
+  };
+
+  const openComparison = () => {
+    const selected = runs.filter(r => compareIds.includes(r.id)).sort((a, b) => a.createdAt - b.createdAt);
+    if (selected.length === 2) setComparison([selected[0], selected[1]]);
+  };
+
+  const showSource = (index: number) => {
+    sourceRefs.current[index]?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setHighlightedSource(index);
+    window.clearTimeout(highlightTimerRef.current);
+    highlightTimerRef.current = window.setTimeout(() => setHighlightedSource(null), SOURCE_HIGHLIGHT_MS);
+  };
+
+  useEffect(() => () => window.clearTimeout(highlightTimerRef.current), []);
+
+  const solutionView = result && (
+    <MarkdownView
+      text={result.solution}
+      citations={result.citations}
+      sources={result.sources}
+      entities={citedNodes}
+      onCitationClick={showSource}
+      onEntityClick={onOpenEntity}
+    />
+  );
+
   const handleCopy = () => {
     if (!result) return;
     const text = result.solution + "\n\nSources:\n" + result.sources.map(s => `${s.title}: ${s.uri}`).join('\n');
@@ -42,76 +219,11 @@ const ScenarioSolver: React.FC<ScenarioSolverProps> = ({ knowledgeGraph }) => {
     const fileName = "scenario-solution";
 
     try {
-      if (type === 'txt') {
-        const element = document.createElement("a");
-        const file = new Blob([result.solution + "\n\nSources:\n" + result.sources.map(s => s.uri).join('\n')], {type: 'text/plain'});
-        element.href = URL.createObjectURL(file);
-        element.download = `${fileName}.txt`;
-        document.body.appendChild(element);
-        element.click();
-        document.body.removeChild(element);
-      } 
-      else if (type === 'doc') {
-        const header = "<html xmlns:o='urn:schemas-microsoft-com:office:office' xmlns:w='urn:schemas-microsoft-com:office:word' xmlns='http://www.w3.org/TR/REC-html40'><head><meta charset='utf-8'><title>Export HTML To Doc</title></head><body>";
-        const footer = "</body></html>";
-        const htmlContent = result.solution.replace(/\n/g, "<br/>");
-        const sourcesHtml = result.sources.length ? `<h3>Sources</h3><ul>${result.sources.map(s => `<li><a href="${s.uri}">${s.title}</a></li>`).join('')}</ul>` : "";
-        const sourceHTML = header + "<h1>Scenario Solution</h1>" + htmlContent + "<br/><hr/>" + sourcesHtml + footer;
-        
-        const source = 'data:application/vnd.ms-word;charset=utf-8,' + encodeURIComponent(sourceHTML);
-        const element = document.createElement("a");
-        element.href = source;
-        element.download = `${fileName}.doc`;
-        document.body.appendChild(element);
-        element.click();
-        document.body.removeChild(element);
-      }
-      else if (type === 'excel') {
-        const csvHeader = "\uFEFFSection,Content\n";
-        const solutionRow = `Solution,"${result.solution.replace(/"/g, '""')}"\n`;
-        const sourceRows = result.sources.map(s => `Source,"${s.title} (${s.uri})"`).join('\n');
-        
-        const csvContent = csvHeader + solutionRow + sourceRows;
-        const element = document.createElement("a");
-        const file = new Blob([csvContent], {type: 'text/csv;charset=utf-8'});
-        element.href = URL.createObjectURL(file);
-        element.download = `${fileName}.csv`;
-        document.body.appendChild(element);
-        element.click();
-        document.body.removeChild(element);
-      }
-      else if (type === 'pdf') {
-         const doc = new jsPDF();
-         doc.setFontSize(20);
-         doc.text("Strategic Action Plan", 10, 20);
-         doc.setFontSize(12);
-         const splitText = doc.splitTextToSize(result.solution, 180);
-         let y = 30;
-         for(let i = 0; i < splitText.length; i++) {
-           if (y > 280) { doc.addPage(); y = 20; }
-           doc.text(splitText[i], 10, y);
-           y += 7;
-         }
-         if (result.sources.length > 0) {
-            y += 10;
-            if (y > 280) { doc.addPage(); y = 20; }
-            doc.setFontSize(14);
-            doc.text("Sources:", 10, y);
-            y += 10;
-            doc.setFontSize(10);
-            result.sources.forEach(s => {
-               const sourceText = `${s.title} - ${s.uri}`;
-               const splitSource = doc.splitTextToSize(sourceText, 180);
-               splitSource.forEach((line: string) => {
-                   if (y > 280) { doc.addPage(); y = 20; }
-                   doc.text(line, 10, y);
-                   y += 5;
-               });
-               y += 2;
-            });
-         }
-         doc.save(`${fileName}.pdf`);
-      }
+      const report = buildScenarioReport(solvedScenario, result, runs.find(r => r.id === activeRunId)?.createdAt);
+      if (type === 'txt') downloadBlob(`${fileName}.txt`, new Blob([reportToText(report)], { type: 'text/plain;charset=utf-8' }));
+      else if (type === 'doc') downloadBlob(`${fileName}.docx`, reportToDocx(report));
+      else if (type === 'excel') downloadBlob(`${fileName}.xlsx`, reportToXlsx(report));
+      else if (type === 'pdf') downloadBlob(`${fileName}.pdf`, reportToPdf(report));
     } catch (err) {
       console.error("Export failed:", err);
       alert("Export failed. Please check console for details.");
@@ -141,31 +253,69 @@ const ScenarioSolver: React.FC<ScenarioSolverProps> = ({ knowledgeGraph }) => {
         <div className="flex justify-between items-center px-4 pb-4">
              <div className="text-slate-600 text-sm ml-2 flex items-center gap-2">
                 <div className={`w-2 h-2 rounded-full ${scenario.length > 0 ? 'bg-blue-500' : 'bg-slate-700'}`}></div>
-                Gemini 3 Pro Ready
+                {solverModel} Ready
              </div>
-             <button
-              onClick={handleSolve}
-              disabled={isSolving || !scenario.trim()}
-              className={`
-                 w-12 h-12 rounded-full flex items-center justify-center transition-all duration-300 shadow-lg
-                 ${isSolving || !scenario.trim()
-                    ? 'bg-slate-800 text-slate-500' 
-                    : 'bg-white text-blue-600 hover:scale-110' 
-                 }
-              `}
-            >
-              {isSolving ? (
-                   <svg className="animate-spin h-5 w-5" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24"><circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle><path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path></svg>
-              ) : (
-                   <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="22" y1="2" x2="11" y2="13"></line><polygon points="22 2 15 22 11 13 2 9 22 2"></polygon></svg>
-              )}
-            </button>
+             <div className="flex items-center gap-2 ml-auto mr-4 text-xs text-slate-500">
+                <button
+                  onClick={() => setShowHistory(!showHistory)}
+                  className={`px-2 py-1 rounded-lg transition-colors ${showHistory ? 'bg-blue-500/10 text-blue-300' : 'hover:bg-slate-800 text-slate-400'}`}
+                >
+                  History ({runs.length})
+                </button>
+                <label className="flex items-center gap-1.5" title="How far to expand around entities the scenario mentions">
+                  Context
+                  <select value={hops} onChange={(e) => setHops(Number(e.target.value))} disabled={isSolving} className={selectClass}>
+                    {[0, 1, 2, 3].map(h => <option key={h} value={h}>{h === 0 ? 'Matches only' : `${h} hop${h > 1 ? 's' : ''}`}</option>)}
+                  </select>
+                </label>
+                <select value={tokenBudget} onChange={(e) => setTokenBudget(Number(e.target.value))} disabled={isSolving} className={selectClass} title="Approximate token budget for the knowledge base context">
+                  {[2000, 6000, 16000, 32000].map(b => <option key={b} value={b}>{b / 1000}k tokens</option>)}
+                </select>
+             </div>
+             {isSolving ? (
+               <button
+                 onClick={() => abortRef.current?.abort()}
+                 className="w-12 h-12 rounded-full flex items-center justify-center transition-all duration-300 shadow-lg bg-slate-800 text-slate-200 hover:bg-red-500/20 hover:text-red-300"
+                 title="Stop generating"
+               >
+                 <svg className="w-4 h-4" viewBox="0 0 24 24" fill="currentColor"><rect x="5" y="5" width="14" height="14" rx="2" /></svg>
+               </button>
+             ) : (
+               <button
+                onClick={() => handleSolve()}
+                disabled={!scenario.trim()}
+                className={`
+                   w-12 h-12 rounded-full flex items-center justify-center transition-all duration-300 shadow-lg
+                   ${!scenario.trim()
+                      ? 'bg-slate-800 text-slate-500' 
+                      : 'bg-white text-blue-600 hover:scale-110' 
+                   }
+                `}
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="22" y1="2" x2="11" y2="13"></line><polygon points="22 2 15 22 11 13 2 9 22 2"></polygon></svg>
+              </button>
+             )}
         </div>
       </div>
 
+      {showHistory && (
+        <ScenarioHistory
+          runs={runs}
+          currentFingerprint={currentFingerprint}
+          compareIds={compareIds}
+          onOpen={openRun}
+          onRerun={rerun}
+          onDelete={removeRun}
+          onToggleCompare={toggleCompare}
+          onCompare={openComparison}
+        />
+      )}
+
       {/* Result Section */}
       <div className="flex-1 mt-6">
-        {isSolving ? (
+        {comparison ? (
+          <ScenarioComparison before={comparison[0]} after={comparison[1]} onClose={() => setComparison(null)} />
+        ) : isSolving && !result?.solution ? (
           <div className="flex flex-col items-center justify-center py-20 space-y-8">
              <div className="relative w-20 h-20">
                 <div className="absolute inset-0 bg-gradient-to-r from-blue-500 to-purple-500 rounded-full blur-xl opacity-20 animate-pulse"></div>
@@ -173,7 +323,9 @@ const ScenarioSolver: React.FC<ScenarioSolverProps> = ({ knowledgeGraph }) => {
                 <div className="absolute inset-2 border-4 border-b-transparent border-purple-500/50 rounded-full animate-spin duration-reverse" style={{animationDuration: '2s'}}></div>
              </div>
              <div className="text-center space-y-2">
-                <h3 className="text-xl font-medium text-white">Synthesizing Solution</h3>
+                <h3 className="text-xl font-medium text-white">
+                  {phase === 'searching' ? 'Searching the Web' : 'Synthesizing Solution'}
+                </h3>
                 <div className="flex gap-2 justify-center">
                     <span className="w-2 h-2 bg-blue-500 rounded-full animate-bounce"></span>
                     <span className="w-2 h-2 bg-purple-500 rounded-full animate-bounce delay-100"></span>
@@ -193,11 +345,16 @@ const ScenarioSolver: React.FC<ScenarioSolverProps> = ({ knowledgeGraph }) => {
                     </div>
                     <div>
                       <h3 className="text-2xl font-semibold text-white">Strategic Plan</h3>
-                      <p className="text-xs text-slate-400 mt-1">AI Generated & Verified</p>
+                      <p className="text-xs text-slate-400 mt-1">
+                        {isSolving
+                          ? <span className="text-blue-300 animate-pulse">Writing…</span>
+                          : result.stopped ? <span className="text-amber-300">Stopped early • partial plan</span> : 'AI Generated & Verified'}
+                      </p>
                     </div>
                   </div>
 
                   {/* HIGH VISIBILITY EXPORT TOOLBAR */}
+                  {!isSolving && (
                   <div className="flex items-center gap-2 bg-[#0f121a] p-2 rounded-xl border border-slate-700 shadow-inner">
                     <button onClick={() => handleExport('pdf')} className="flex items-center gap-2 px-3 py-2 bg-slate-800 hover:bg-red-500/10 text-slate-300 hover:text-red-400 rounded-lg text-sm font-medium transition-colors border border-transparent hover:border-red-500/20" title="Export as PDF">
                         <span className="font-bold text-[10px]">PDF</span>
@@ -205,7 +362,7 @@ const ScenarioSolver: React.FC<ScenarioSolverProps> = ({ knowledgeGraph }) => {
                     <button onClick={() => handleExport('doc')} className="flex items-center gap-2 px-3 py-2 bg-slate-800 hover:bg-blue-500/10 text-slate-300 hover:text-blue-400 rounded-lg text-sm font-medium transition-colors border border-transparent hover:border-blue-500/20" title="Export as Word">
                         <span className="font-bold text-[10px]">DOC</span>
                     </button>
-                    <button onClick={() => handleExport('excel')} className="flex items-center gap-2 px-3 py-2 bg-slate-800 hover:bg-emerald-500/10 text-slate-300 hover:text-emerald-400 rounded-lg text-sm font-medium transition-colors border border-transparent hover:border-emerald-500/20" title="Export as CSV/Excel">
+                    <button onClick={() => handleExport('excel')} className="flex items-center gap-2 px-3 py-2 bg-slate-800 hover:bg-emerald-500/10 text-slate-300 hover:text-emerald-400 rounded-lg text-sm font-medium transition-colors border border-transparent hover:border-emerald-500/20" title="Export as Excel">
                         <span className="font-bold text-[10px]">XLS</span>
                     </button>
                     <button onClick={() => handleExport('txt')} className="flex items-center gap-2 px-3 py-2 bg-slate-800 hover:bg-slate-700 text-slate-300 hover:text-white rounded-lg text-sm font-medium transition-colors border border-transparent hover:border-slate-600" title="Download Text">
@@ -223,14 +380,105 @@ const ScenarioSolver: React.FC<ScenarioSolverProps> = ({ knowledgeGraph }) => {
                          <span className="text-xs font-bold">Copy</span>
                        )}
                     </button>
+                    <div className="w-px h-5 bg-slate-700 mx-1"></div>
+                    <button
+                      onClick={handleLearn}
+                      disabled={isLearning || !!result.learnedImportId || !onUpdateGraph}
+                      className="flex items-center gap-2 px-3 py-2 bg-purple-500/10 hover:bg-purple-500/20 text-purple-300 rounded-lg text-xs font-bold transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                      title="Extract entities and relationships from this solution and its sources into the knowledge graph"
+                    >
+                      {isLearning ? 'Learning…' : result.learnedImportId ? 'Learned ✓' : 'Learn from this solution'}
+                    </button>
                   </div>
+                  )}
               </div>
+
+              {learnMessage && (
+                <p className={`-mt-4 mb-6 text-sm ${learnMessage.type === 'success' ? 'text-emerald-300' : 'text-red-300'}`}>{learnMessage.text}</p>
+              )}
               
-              <div className="prose prose-invert prose-lg max-w-none text-slate-300 leading-relaxed">
-                <div className="whitespace-pre-wrap">{result.solution}</div>
-              </div>
+              {result.plan ? (
+                <>
+                  <ActionPlanView plan={result.plan} onToggleStep={toggleStep} />
+                  <details className="mt-8">
+                    <summary className="text-sm font-semibold text-slate-500 uppercase tracking-widest cursor-pointer select-none">Full Write-up</summary>
+                    <div className="mt-4">{solutionView}</div>
+                  </details>
+                </>
+              ) : (
+                <div className="text-lg">{solutionView}</div>
+              )}
+
+              {result.thoughtProcess && (
+                <details className="mt-6 p-4 rounded-2xl bg-[#0b0f19] border border-slate-800">
+                  <summary className="text-sm font-semibold text-slate-500 uppercase tracking-widest cursor-pointer select-none">Reasoning</summary>
+                  <p className="text-sm text-slate-400 leading-relaxed mt-3 whitespace-pre-wrap">{result.thoughtProcess}</p>
+                </details>
+              )}
             </div>
 
+            {citedNodes.length > 0 && (
+              <div className="pl-6 animate-fade-in">
+                <h4 className="text-sm font-semibold text-slate-500 uppercase tracking-widest mb-6 ml-2">
+                  Internal Knowledge Cited
+                </h4>
+                <div className="space-y-2">
+                  {citedNodes.map(node => (
+                    <div key={node.id} className="rounded-2xl bg-[#1e2330]/50 border border-slate-800">
+                      <button
+                        onClick={() => setExpandedCitation(expandedCitation === node.id ? null : node.id)}
+                        className="w-full flex items-center justify-between gap-4 px-5 py-3 text-left"
+                      >
+                        <span className="text-sm font-medium text-purple-300">{node.id}</span>
+                        <span className="text-xs text-slate-500">
+                          {node.group} • {node.provenance?.length || 0} source(s) {expandedCitation === node.id ? '▴' : '▾'}
+                        </span>
+                      </button>
+                      {expandedCitation === node.id && (
+                        <div className="px-5 pb-4">
+                          <ProvenanceList provenance={node.provenance} imports={knowledgeGraph.imports} />
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {result.context && (
+              <div className="pl-6 animate-fade-in">
+                <button
+                  onClick={() => setShowContext(!showContext)}
+                  className="w-full flex items-center justify-between gap-4 mb-4 ml-2 text-left"
+                >
+                  <h4 className="text-sm font-semibold text-slate-500 uppercase tracking-widest">Knowledge Sent to Model</h4>
+                  <span className="text-xs text-slate-500 mr-2">
+                    {result.context.nodeIds.length} of {result.context.totalNodes} entities • {result.context.linkCount} links • ~{result.context.estimatedTokens} tokens {showContext ? '▴' : '▾'}
+                  </span>
+                </button>
+                {showContext && (
+                  <div className="p-5 rounded-2xl bg-[#1e2330]/50 border border-slate-800 space-y-3">
+                    <p className="text-xs text-slate-500">
+                      {result.context.seedIds.length > 0
+                        ? `${result.context.seedIds.length} entities matched the scenario (highlighted), expanded by ${result.context.hops} hop(s).`
+                        : 'No entities matched the scenario directly, so the best-connected ones were sent.'}
+                      {result.context.truncated && ` Some relevant entities were left out to stay within ${result.context.tokenBudget / 1000}k tokens.`}
+                    </p>
+                    <div className="flex flex-wrap gap-1.5">
+                      {result.context.nodeIds.map(id => (
+                        <span
+                          key={id}
+                          className={`px-2 py-0.5 rounded-md text-xs ${result.context!.seedIds.includes(id) ? 'bg-purple-500/20 text-purple-200' : 'bg-slate-800 text-slate-400'}`}
+                        >
+                          {id}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+
             {result.sources.length > 0 && (
               <div className="pl-6 animate-fade-in delay-100">
                 <h4 className="text-sm font-semibold text-slate-500 uppercase tracking-widest mb-6 ml-2">
@@ -240,10 +488,13 @@ const ScenarioSolver: React.FC<ScenarioSolverProps> = ({ knowledgeGraph }) => {
                   {result.sources.map((source, idx) => (
                     <a
                       key={idx}
-                      href={source.uri}
+                      ref={(el) => { sourceRefs.current[idx] = el; }}
+                      href={isSafeHref(source.uri) ? source.uri : undefined}
                       target="_blank"
                       rel="noreferrer"
-                      className="flex items-start gap-4 p-5 rounded-2xl bg-[#1e2330]/50 hover:bg-[#1e2330] border border-slate-800 hover:border-blue-500/30 transition-all duration-300 group"
+                      className={`flex items-start gap-4 p-5 rounded-2xl bg-[#1e2330]/50 hover:bg-[#1e2330] border transition-all duration-300 group ${
+                        highlightedSource === idx ? 'border-blue-400 ring-2 ring-blue-500/40' : 'border-slate-800 hover:border-blue-500/30'
+                      }`}
                     >
                       <span className="flex-shrink-0 w-6 h-6 rounded-full bg-slate-800 text-slate-400 flex items-center justify-center text-xs font-bold mt-0.5">
                         {idx + 1}
@@ -0,0 +1,69 @@
+import React from 'react';
+import { GraphLink } from '../types';
+import { GraphDiff, isEmptyDiff } from '../services/graphDiff';
+
+interface VersionDiffProps {
+  diff: GraphDiff;
+  beforeLabel: string;
+  afterLabel: string;
+  onClose: () => void;
+}
+
+const MAX_SHOWN = 100;
+
+const describeLink = (l: GraphLink) => `${l.source} -[${l.relationship}]-> ${l.target}`;
+
+const DiffSection: React.FC<{ title: string; items: string[]; tone: 'added' | 'removed' | 'changed' }> = ({ title, items, tone }) => {
+  if (!items.length) return null;
+  const toneClass = tone === 'added' ? 'text-emerald-300' : tone === 'removed' ? 'text-red-300' : 'text-amber-300';
+  const marker = tone === 'added' ? '+' : tone === 'removed' ? '−' : '~';
+  return (
+    <div>
+      <p className={`text-xs font-semibold uppercase tracking-wider mb-2 ${toneClass}`}>{title} ({items.length})</p>
+      <ul className="space-y-1 text-sm font-mono">
+        {items.slice(0, MAX_SHOWN).map((item, idx) => (
+          <li key={idx} className="text-slate-300 break-words">
+            <span className={`${toneClass} mr-2`}>{marker}</span>{item}
+          </li>
+        ))}
+      </ul>
+      {items.length > MAX_SHOWN && <p className="text-xs text-slate-500 mt-1">…and {items.length - MAX_SHOWN} more</p>}
+    </div>
+  );
+};
+
+const VersionDiff: React.FC<VersionDiffProps> = ({ diff, beforeLabel, afterLabel, onClose }) => (
+  <div className="bg-[#13161f] rounded-[2rem] p-8 border border-slate-800/50 shadow-2xl animate-fade-in">
+    <div className="flex items-start justify-between gap-4 mb-6">
+      <div className="min-w-0">
+        <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-widest">Changes</h3>
+        <p className="text-xs text-slate-500 mt-1 truncate">From {beforeLabel} to {afterLabel}</p>
+      </div>
+      <button onClick={onClose} className="text-slate-500 hover:text-slate-300 text-sm">Close</button>
+    </div>
+    {isEmptyDiff(diff) ? (
+      <p className="text-sm text-slate-500">The two versions have the same entities and relationships.</p>
+    ) : (
+      <div className="space-y-6 max-h-[32rem] overflow-y-auto custom-scrollbar pr-1">
+        <DiffSection title="Entities added" tone="added" items={diff.addedNodes.map(n => `${n.id} (${n.group})`)} />
+        <DiffSection title="Entities removed" tone="removed" items={diff.removedNodes.map(n => `${n.id} (${n.group})`)} />
+        <DiffSection
+          title="Entities changed"
+          tone="changed"
+          items={diff.changedNodes.map(c => `${c.after.id}: ${c.fields.join(', ')}${
+            c.fields.includes('group') ? ` (${c.before.group} → ${c.after.group})` : ''
+          }`)}
+        />
+        <DiffSection title="Relationships added" tone="added" items={diff.addedLinks.map(describeLink)} />
+        <DiffSection title="Relationships removed" tone="removed" items={diff.removedLinks.map(describeLink)} />
+        <DiffSection
+          title="Relationships changed"
+          tone="changed"
+          items={diff.changedLinks.map(c => `${describeLink(c.after)}: ${c.fields.join(', ')}`)}
+        />
+      </div>
+    )}
+  </div>
+);
+
+export default VersionDiff;
@@ -0,0 +1,224 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { GraphOperationKind, GraphVersion, KnowledgeGraphData } from '../types';
+import { listGraphVersions, saveSnapshot, deleteGraphVersion, MAX_VERSIONS } from '../services/versionHistory';
+import { diffGraphs } from '../services/graphDiff';
+import VersionDiff from './VersionDiff';
+
+interface VersionHistoryProps {
+  workspaceId: string | null;
+  graph: KnowledgeGraphData;
+  revision: number; // Bumped whenever a version is recorded, to reload the log
+  undoLabel?: string;
+  redoLabel?: string;
+  onUndo: () => void;
+  onRedo: () => void;
+  onRestore: (version: GraphVersion) => void;
+}
+
+type Filter = 'all' | 'imports' | 'snapshots';
+
+const KIND_LABELS: Record<GraphOperationKind, string> = {
+  initial: 'Start',
+  import: 'Import',
+  'remove-import': 'Removal',
+  edit: 'Edit',
+  undo: 'Undo',
+  redo: 'Redo',
+  restore: 'Restore',
+  snapshot: 'Snapshot'
+};
+
+const KIND_STYLES: Partial<Record<GraphOperationKind, string>> = {
+  import: 'bg-blue-500/10 text-blue-300',
+  'remove-import': 'bg-red-500/10 text-red-300',
+  restore: 'bg-amber-500/10 text-amber-300',
+  snapshot: 'bg-purple-500/10 text-purple-300'
+};
+
+const smallButtonClass = "flex-shrink-0 px-3 py-1.5 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-lg text-xs font-medium transition-colors disabled:opacity-40 disabled:cursor-not-allowed";
+
+const versionName = (version: GraphVersion) =>
+  `${version.snapshotName ? `"${version.snapshotName}"` : version.label} (${new Date(version.createdAt).toLocaleString()})`;
+
+const VersionHistory: React.FC<VersionHistoryProps> = ({
+  workspaceId, graph, revision, undoLabel, redoLabel, onUndo, onRedo, onRestore
+}) => {
+  const [versions, setVersions] = useState<GraphVersion[]>([]);
+  const [filter, setFilter] = useState<Filter>('all');
+  const [snapshotName, setSnapshotName] = useState('');
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [showDiff, setShowDiff] = useState(false);
+
+  const reload = () => {
+    if (!workspaceId) return;
+    listGraphVersions(workspaceId)
+      .then(setVersions)
+      .catch(err => console.error("Failed to load version history:", err));
+  };
+
+  useEffect(reload, [workspaceId, revision]);
+
+  useEffect(() => {
+    setCompareIds([]);
+    setShowDiff(false);
+  }, [workspaceId]);
+
+  const visibleVersions = versions.filter(v =>
+    filter === 'all' ? true
+      : filter === 'imports' ? v.kind === 'import' || v.kind === 'remove-import'
+      : !!v.snapshotName
+  );
+
+  // One ticked version is compared with the current graph, two with each other (older first)
+  const comparison = useMemo(() => {
+    const selected = versions.filter(v => compareIds.includes(v.id)).sort((a, b) => a.createdAt - b.createdAt);
+    if (selected.length === 2) {
+      return { diff: diffGraphs(selected[0].graph, selected[1].graph), before: versionName(selected[0]), after: versionName(selected[1]) };
+    }
+    if (selected.length === 1) {
+      return { diff: diffGraphs(selected[0].graph, graph), before: versionName(selected[0]), after: 'the current graph' };
+    }
+    return null;
+  }, [versions, compareIds, graph]);
+
+  const toggleCompare = (id: string) => {
+    setShowDiff(false);
+    setCompareIds(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id].slice(-2));
+  };
+
+  const handleSnapshot = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = snapshotName.trim();
+    if (!workspaceId || !name) return;
+    try {
+      await saveSnapshot(workspaceId, name, graph);
+      setSnapshotName('');
+      reload();
+    } catch (err) {
+      console.error("Failed to save snapshot:", err);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    await deleteGraphVersion(id);
+    setCompareIds(prev => prev.filter(x => x !== id));
+    reload();
+  };
+
+  return (
+    <div className="flex flex-col gap-8 max-w-4xl mx-auto">
+      <div className="text-center space-y-4">
+        <h2 className="text-5xl font-medium tracking-tight text-transparent bg-clip-text bg-gradient-to-r from-blue-400 via-purple-400 to-pink-400 pb-2">
+          Version History
+        </h2>
+        <p className="text-slate-400 text-lg max-w-2xl mx-auto">
+          Every change to the graph is saved as a full copy of the graph. Compare versions, undo mistakes, or restore an earlier state.
+        </p>
+        <p className="text-slate-500 text-sm max-w-2xl mx-auto">
+          The latest {MAX_VERSIONS} versions and all named snapshots are kept in browser storage, so the history can take up to {MAX_VERSIONS} times the graph's size, plus one copy per snapshot. Delete snapshots you no longer need to free space.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <button onClick={onUndo} disabled={!undoLabel} className={smallButtonClass} title={undoLabel ? `Undo: ${undoLabel}` : 'Nothing to undo'}>
+          ↶ Undo
+        </button>
+        <button onClick={onRedo} disabled={!redoLabel} className={smallButtonClass} title={redoLabel ? `Redo: ${redoLabel}` : 'Nothing to redo'}>
+          ↷ Redo
+        </button>
+        <form onSubmit={handleSnapshot} className="flex flex-1 min-w-[16rem] items-center gap-2 ml-auto">
+          <input
+            value={snapshotName}
+            onChange={(e) => setSnapshotName(e.target.value)}
+            placeholder="Snapshot name, e.g. Before Q3 import"
+            className="flex-1 bg-[#13161f] border border-slate-800 rounded-full px-4 py-2 text-sm text-slate-200 outline-none focus:ring-2 focus:ring-blue-500/50"
+          />
+          <button type="submit" disabled={!snapshotName.trim() || !workspaceId} className={smallButtonClass}>
+            Save Snapshot
+          </button>
+        </form>
+      </div>
+
+      <div className="bg-[#13161f] rounded-[2rem] p-8 border border-slate-800/50 shadow-2xl">
+        <div className="flex flex-wrap items-center gap-3 mb-6">
+          <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-widest mr-auto">Timeline</h3>
+          {(['all', 'imports', 'snapshots'] as Filter[]).map(f => (
+            <button
+              key={f}
+              onClick={() => setFilter(f)}
+              className={`px-3 py-1 rounded-full text-xs font-medium capitalize transition-colors ${
+                filter === f ? 'bg-blue-500/10 text-blue-300' : 'text-slate-500 hover:text-slate-300'
+              }`}
+            >
+              {f}
+            </button>
+          ))}
+          <button
+            onClick={() => setShowDiff(true)}
+            disabled={!comparison}
+            className={smallButtonClass}
+            title="Tick one version to compare it with the current graph, or two to compare them"
+          >
+            Compare ({compareIds.length}/2)
+          </button>
+        </div>
+
+        {visibleVersions.length === 0 ? (
+          <p className="text-sm text-slate-500">
+            {versions.length ? 'No versions match this filter.' : 'Changes to the graph will appear here.'}
+          </p>
+        ) : (
+          <ol className="space-y-2 max-h-[28rem] overflow-y-auto custom-scrollbar pr-1">
+            {visibleVersions.map(version => (
+              <li key={version.id} className="flex items-center gap-4 p-4 rounded-2xl bg-[#0b0f19] border border-slate-800">
+                <input
+                  type="checkbox"
+                  checked={compareIds.includes(version.id)}
+                  onChange={() => toggleCompare(version.id)}
+                  className="accent-blue-500"
+                  title="Select for comparison"
+                />
+                <span className={`flex-shrink-0 w-20 text-center px-2 py-0.5 rounded-md text-[11px] font-bold uppercase ${
+                  KIND_STYLES[version.kind] ?? 'bg-slate-800 text-slate-400'
+                }`}>
+                  {KIND_LABELS[version.kind]}
+                </span>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-slate-200 truncate" title={version.label}>
+                    {version.snapshotName ?? version.label}
+                  </p>
+                  <p className="text-xs text-slate-500 mt-0.5">
+                    {new Date(version.createdAt).toLocaleString()} • {version.graph.nodes.length} entities, {version.graph.links.length} links
+                  </p>
+                </div>
+                <button onClick={() => onRestore(version)} className={smallButtonClass} title="Make this version the current graph">
+                  Restore
+                </button>
+                {version.snapshotName && (
+                  <button
+                    onClick={() => handleDelete(version.id)}
+                    className="flex-shrink-0 w-7 h-7 rounded-lg text-slate-500 hover:text-red-400 hover:bg-red-500/10 transition-colors"
+                    title="Delete snapshot"
+                  >
+                    ✕
+                  </button>
+                )}
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+
+      {showDiff && comparison && (
+        <VersionDiff
+          diff={comparison.diff}
+          beforeLabel={comparison.before}
+          afterLabel={comparison.after}
+          onClose={() => setShowDiff(false)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default VersionHistory;
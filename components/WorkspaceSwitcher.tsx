@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { WorkspaceSummary } from '../types';
+
+interface WorkspaceSwitcherProps {
+  workspaces: WorkspaceSummary[];
+  activeWorkspaceId: string | null;
+  onSwitch: (id: string) => void;
+  onCreate: (name: string) => void;
+  onRename: (name: string) => void;
+  onDuplicate: () => void;
+  onDelete: () => void;
+  error?: string | null; // Last failed workspace action
+  onDismissError?: () => void;
+}
+
+const WorkspaceSwitcher: React.FC<WorkspaceSwitcherProps> = ({
+  workspaces, activeWorkspaceId, onSwitch, onCreate, onRename, onDuplicate, onDelete, error, onDismissError
+}) => {
+  const [editMode, setEditMode] = useState<'create' | 'rename' | null>(null);
+  const [nameDraft, setNameDraft] = useState('');
+
+  const activeWorkspace = workspaces.find(w => w.id === activeWorkspaceId);
+
+  const startEdit = (mode: 'create' | 'rename') => {
+    setEditMode(mode);
+    setNameDraft(mode === 'rename' ? activeWorkspace?.name || '' : '');
+  };
+
+  const submitEdit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = nameDraft.trim();
+    if (!name) return;
+    if (editMode === 'create') onCreate(name);
+    if (editMode === 'rename') onRename(name);
+    setEditMode(null);
+  };
+
+  const handleDelete = () => {
+    if (!activeWorkspace) return;
+    if (window.confirm(`Delete workspace "${activeWorkspace.name}" and all of its knowledge? This cannot be undone.`)) {
+      onDelete();
+    }
+  };
+
+  const actionClass = "flex-1 px-2 py-1.5 bg-slate-800 hover:bg-slate-700 text-slate-300 hover:text-white rounded-lg text-[11px] font-medium transition-colors disabled:opacity-40 disabled:cursor-not-allowed";
+
+  return (
+    <div className="p-5 rounded-3xl bg-slate-800/30 border border-slate-700/30 mb-4">
+      <h3 className="text-xs font-semibold text-slate-400 uppercase tracking-wider mb-3">Workspace</h3>
+
+      {editMode ? (
+        <form onSubmit={submitEdit} className="space-y-2">
+          <input
+            autoFocus
+            value={nameDraft}
+            onChange={(e) => setNameDraft(e.target.value)}
+            placeholder={editMode === 'create' ? 'New workspace name' : 'Workspace name'}
+            className="w-full bg-[#0b0f19] border border-slate-700 rounded-xl px-3 py-2 text-sm text-slate-200 outline-none focus:ring-2 focus:ring-blue-500/50"
+          />
+          <div className="flex gap-2">
+            <button type="submit" disabled={!nameDraft.trim()} className={actionClass}>
+              {editMode === 'create' ? 'Create' : 'Save'}
+            </button>
+            <button type="button" onClick={() => setEditMode(null)} className={actionClass}>Cancel</button>
+          </div>
+        </form>
+      ) : (
+        <>
+          <select
+            value={activeWorkspaceId || ''}
+            onChange={(e) => onSwitch(e.target.value)}
+            className="w-full bg-[#0b0f19] border border-slate-700 rounded-xl px-3 py-2 text-sm text-slate-200 outline-none focus:ring-2 focus:ring-blue-500/50 mb-3"
+          >
+            {workspaces.map(w => (
+              <option key={w.id} value={w.id}>{w.name}</option>
+            ))}
+          </select>
+          <div className="flex gap-1.5">
+            <button onClick={() => startEdit('create')} className={actionClass} title="New workspace">New</button>
+            <button onClick={() => startEdit('rename')} disabled={!activeWorkspace} className={actionClass} title="Rename workspace">Rename</button>
+            <button onClick={onDuplicate} disabled={!activeWorkspace} className={actionClass} title="Duplicate workspace">Copy</button>
+            <button
+              onClick={handleDelete}
+              disabled={!activeWorkspace || workspaces.length < 2}
+              className={`${actionClass} hover:!bg-red-500/10 hover:!text-red-400`}
+              title="Delete workspace"
+            >
+              Delete
+            </button>
+          </div>
+        </>
+      )}
+
+      {error && (
+        <div className="mt-3 flex items-start gap-2 p-2.5 rounded-xl bg-red-500/10 border border-red-500/20 text-[11px] text-red-300">
+          <p className="flex-1 min-w-0 break-words">{error}</p>
+          {onDismissError && <button onClick={onDismissError} className="flex-shrink-0 text-red-400 hover:text-red-200" title="Dismiss">✕</button>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WorkspaceSwitcher;
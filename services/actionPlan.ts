@@ -0,0 +1,113 @@
+import { ActionPlan, ActionStep, KnowledgeGraphData, PlanPriority } from "../types";
+
+const PLAN_FENCE = "```json";
+
+/**
+ * Appended to the solver prompt. The plan is requested as a trailing JSON block rather
+ * than through a response schema so the narrative can still stream and web search
+ * grounding stays available.
+ */
+export const PLAN_FORMAT_INSTRUCTIONS = `
+    Output format:
+    1. First write the plan for a human reader in Markdown.
+    2. Then end your answer with a single fenced \`\`\`json block (and nothing after it) of this shape:
+       {
+         "thoughtProcess": "A few sentences on how the internal knowledge and search findings shaped the plan",
+         "summary": "One paragraph summary of the plan",
+         "steps": [
+           { "title": "...", "description": "...", "owner": "Role or team responsible", "priority": "high" | "medium" | "low",
+             "timeline": "e.g. Within 24 hours", "nodeIds": ["Exact names of Internal Knowledge Base entities this step relies on"] }
+         ],
+         "risks": [{ "risk": "...", "mitigation": "..." }],
+         "assumptions": ["..."]
+       }
+       List steps in the order they should be carried out.
+`;
+
+// The plan block is an object with a steps array; any other JSON is part of the write-up
+const isPlanJson = (text: string): boolean => {
+  try {
+    const data = JSON.parse(text);
+    return !!data && typeof data === 'object' && Array.isArray(data.steps);
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Splits raw solver output into the readable write-up and the trailing plan block. Only
+ * the last fenced block is taken, and only when nothing but whitespace follows it and it
+ * parses as a plan; JSON examples inside the write-up stay where they are. While
+ * `streaming`, an unfinished block is held back so the JSON never shows mid-answer.
+ */
+export const splitSolutionText = (raw: string, { streaming = false } = {}): { solution: string; planJson?: string } => {
+  const start = raw.lastIndexOf(PLAN_FENCE);
+  if (start === -1) return { solution: raw };
+  const body = raw.slice(start + PLAN_FENCE.length);
+  const end = body.indexOf("```");
+  const solution = raw.slice(0, start).trimEnd();
+  if (end === -1) {
+    if (streaming) return { solution };
+    return isPlanJson(body) ? { solution, planJson: body } : { solution: raw };
+  }
+  const planJson = body.slice(0, end);
+  if (body.slice(end + 3).trim() || !isPlanJson(planJson)) return { solution: raw };
+  return { solution, planJson };
+};
+
+const PRIORITIES: PlanPriority[] = ['high', 'medium', 'low'];
+
+const asString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+const asArray = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+
+/**
+ * Parses the plan block defensively: missing fields get defaults, and node references
+ * are kept only when they name (or alias) an entity in the graph.
+ */
+export const parseActionPlan = (
+  planJson: string,
+  graph: KnowledgeGraphData
+): { plan: ActionPlan; thoughtProcess?: string } | undefined => {
+  let data: any;
+  try {
+    data = JSON.parse(planJson);
+  } catch {
+    return undefined;
+  }
+  if (!data || typeof data !== 'object') return undefined;
+
+  const canonical = new Map<string, string>();
+  graph.nodes.forEach(n => [n.id, ...(n.aliases || [])].forEach(name => canonical.set(name.toLowerCase(), n.id)));
+
+  const steps: ActionStep[] = asArray(data.steps).flatMap((raw: any) => {
+    const title = asString(raw?.title);
+    if (!title) return [];
+    const priority = String(raw.priority || '').toLowerCase() as PlanPriority;
+    const nodeIds = asArray(raw.nodeIds)
+      .map(id => canonical.get(String(id).toLowerCase()))
+      .filter((id): id is string => !!id);
+    return [{
+      title,
+      description: asString(raw.description),
+      owner: asString(raw.owner),
+      priority: PRIORITIES.includes(priority) ? priority : 'medium',
+      timeline: asString(raw.timeline),
+      nodeIds: Array.from(new Set(nodeIds))
+    }];
+  });
+
+  return {
+    plan: {
+      summary: asString(data.summary) || '',
+      steps,
+      risks: asArray(data.risks).flatMap((raw: any) => {
+        const risk = asString(raw?.risk);
+        return risk ? [{ risk, mitigation: asString(raw.mitigation) || '' }] : [];
+      }),
+      assumptions: asArray(data.assumptions).map(asString).filter((a): a is string => !!a)
+    },
+    thoughtProcess: asString(data.thoughtProcess)
+  };
+};
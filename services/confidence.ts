@@ -0,0 +1,102 @@
+import { KnowledgeGraphData, GraphLink, GraphNode, Provenance } from "../types";
+
+// Node size bounds for `val`
+const MIN_VAL = 3;
+const MAX_VAL = 20;
+
+// Assumed when the extractor doesn't report a confidence for a fact
+export const DEFAULT_EXTRACTED_CONFIDENCE = 0.5;
+
+type Weighted = { confidence?: number; mentions?: number; provenance?: Provenance[] };
+
+/**
+ * Confidence of a node or link between 0 and 1. Facts without a score (seed data,
+ * manual edits) were asserted by the user and count as certain.
+ */
+export const confidenceOf = (item: { confidence?: number }): number => item.confidence ?? 1;
+
+/**
+ * Reads a model-reported confidence, accepting percentages as well as fractions.
+ */
+export const toConfidence = (raw: unknown): number | undefined => {
+  const value = typeof raw === 'string' ? parseFloat(raw) : raw;
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) return undefined;
+  return Math.min(1, value > 1 ? value / 100 : value);
+};
+
+/**
+ * Recomputes a fact's confidence and mention count from its provenance. Every import
+ * that states the fact is an independent confirmation, so their confidences combine as
+ * 1 - Π(1 - c); repeated evidence within one import only counts once, at its best score.
+ * Items without provenance keep their own values, and manual facts stay certain.
+ */
+export const weighFact = <T extends Weighted>(item: T): T => {
+  if (!item.provenance?.length) return item;
+  const best = new Map<string, number | undefined>();
+  item.provenance.forEach(p => {
+    const previous = best.get(p.importId);
+    best.set(p.importId, p.confidence === undefined ? previous : Math.max(previous ?? 0, p.confidence));
+  });
+  const scores = Array.from(best.values()).filter((c): c is number => c !== undefined);
+  const confidence = scores.length && item.confidence !== undefined
+    ? 1 - scores.reduce((doubt, c) => doubt * (1 - c), 1)
+    : item.confidence;
+  return { ...item, confidence, mentions: best.size };
+};
+
+/**
+ * Combines the weights of two records of the same fact that have no provenance to
+ * recompute from, e.g. when merging entities by hand.
+ */
+export const combineWeights = (a: Weighted, b: Weighted): Pick<Weighted, 'confidence' | 'mentions'> => ({
+  confidence: a.confidence === undefined || b.confidence === undefined
+    ? undefined
+    : 1 - (1 - a.confidence) * (1 - b.confidence),
+  mentions: a.mentions || b.mentions ? (a.mentions || 1) + (b.mentions || 1) : undefined
+});
+
+/**
+ * Node size from how often an entity is mentioned across imports and how connected it is.
+ */
+export const deriveVal = (node: GraphNode, degree: number): number => {
+  const val = 3 + 2 * Math.log2(1 + (node.mentions ?? 1)) + Math.sqrt(degree);
+  return Math.round(Math.min(MAX_VAL, Math.max(MIN_VAL, val)) * 10) / 10;
+};
+
+/**
+ * Reweighs every node and link from its provenance. Nodes without a size of their own
+ * (extracted entities) are sized from their weight; seed, imported and manual sizes are kept.
+ */
+export const weighGraph = (graph: KnowledgeGraphData): KnowledgeGraphData => {
+  const degree = new Map<string, number>();
+  graph.links.forEach(l => [l.source, l.target].forEach(id => degree.set(id, (degree.get(id) || 0) + 1)));
+  return {
+    ...graph,
+    nodes: graph.nodes.map(n => {
+      const weighed = weighFact(n);
+      if (n.val !== undefined && !n.derivedVal) return weighed;
+      return { ...weighed, val: deriveVal(weighed, degree.get(n.id) || 0), derivedVal: true };
+    }),
+    links: graph.links.map(weighFact)
+  };
+};
+
+/**
+ * Drops nodes and links below a minimum confidence, along with links to dropped nodes.
+ */
+export const filterByConfidence = (graph: KnowledgeGraphData, minConfidence: number): KnowledgeGraphData => {
+  if (minConfidence <= 0) return graph;
+  const nodes = graph.nodes.filter(n => confidenceOf(n) >= minConfidence);
+  const ids = new Set(nodes.map(n => n.id));
+  return {
+    ...graph,
+    nodes,
+    links: graph.links.filter(l => confidenceOf(l) >= minConfidence && ids.has(l.source) && ids.has(l.target))
+  };
+};
+
+export const byConfidence = (a: GraphNode | GraphLink, b: GraphNode | GraphLink): number =>
+  confidenceOf(b) - confidenceOf(a);
+
+export const formatConfidence = (item: { confidence?: number }): string =>
+  item.confidence === undefined ? "Manual" : `${Math.round(item.confidence * 100)}%`;
@@ -0,0 +1,271 @@
+import { KnowledgeGraphData, GraphNode, GraphLink, ImportRecord } from "../types";
+import { mergeProvenance } from "./provenance";
+import { mergeDetails } from "./properties";
+import { combineWeights, weighGraph } from "./confidence";
+
+export interface MergeProposal {
+  incomingId: string; // Entity name as extracted
+  existingId: string; // Entity it probably refers to
+  reason: 'acronym' | 'similar';
+  score: number; // 0..1
+}
+
+const STOP_WORDS = new Set(["of", "and", "the", "for", "in", "on", "to", "a", "an"]);
+const SIMILARITY_THRESHOLD = 0.85;
+
+/**
+ * Canonical comparison key: case, accents, punctuation and spacing are ignored. Letters
+ * and digits of any script are kept; names made only of punctuation key on their
+ * trimmed, lower-cased form so they stay distinct.
+ */
+export const normalizeEntityKey = (name: string): string =>
+  name
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^\p{L}\p{M}\p{N}]+/gu, " ")
+    .trim()
+    .replace(/^the /, "") || name.trim().toLowerCase();
+
+const acronymOf = (key: string): string =>
+  key.split(" ").filter(w => w && !STOP_WORDS.has(w)).map(w => w[0]).join("");
+
+/**
+ * Edit distance between two strings. With `maxDistance`, stops as soon as the distance
+ * must exceed it and returns some value above it.
+ */
+export const levenshtein = (a: string, b: string, maxDistance = Infinity): number => {
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [i];
+    for (let j = 1; j <= b.length; j++) {
+      curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    if (Math.min(...curr) > maxDistance) return maxDistance + 1;
+    prev = curr;
+  }
+  return prev[b.length];
+};
+
+/**
+ * Scores how likely two (non-identical) entity keys name the same thing.
+ */
+const matchKeys = (a: string, b: string): { reason: MergeProposal['reason']; score: number } | null => {
+  const [short, long] = a.length <= b.length ? [a, b] : [b, a];
+  if (!short.includes(" ") && short.length >= 2 && long.includes(" ") && acronymOf(long) === short) {
+    return { reason: 'acronym', score: 1 };
+  }
+  if (short.length >= 4) {
+    const maxDistance = Math.ceil(long.length * (1 - SIMILARITY_THRESHOLD));
+    const score = 1 - levenshtein(a, b, maxDistance) / long.length;
+    if (score >= SIMILARITY_THRESHOLD) return { reason: 'similar', score };
+  }
+  return null;
+};
+
+/**
+ * Maps every normalized id and alias in the graph to its node.
+ */
+const buildEntityIndex = (nodes: GraphNode[]): Map<string, GraphNode> => {
+  const index = new Map<string, GraphNode>();
+  nodes.forEach(n => {
+    [n.id, ...(n.aliases || [])].forEach(name => {
+      const key = normalizeEntityKey(name);
+      if (key && !index.has(key)) index.set(key, n);
+    });
+  });
+  return index;
+};
+
+/**
+ * Returns a lookup resolving a name (id or alias, any casing/punctuation) to a node of `nodes`.
+ */
+export const createEntityLookup = (nodes: GraphNode[]) => {
+  const index = buildEntityIndex(nodes);
+  return (name: string): GraphNode | undefined => index.get(normalizeEntityKey(name));
+};
+
+interface MergeCandidate {
+  key: string;
+  node: GraphNode;
+  order: number; // Ties go to the earliest candidate
+  chars: Map<string, number>;
+}
+
+const charCounts = (key: string): Map<string, number> => {
+  const counts = new Map<string, number>();
+  for (const ch of key) counts.set(ch, (counts.get(ch) || 0) + 1);
+  return counts;
+};
+
+// Characters one key has more of than the other; a cheap lower bound on the edit distance
+const charDistance = (a: Map<string, number>, b: Map<string, number>): number => {
+  let surplus = 0;
+  let deficit = 0;
+  a.forEach((n, ch) => { surplus += Math.max(0, n - (b.get(ch) || 0)); });
+  b.forEach((n, ch) => { deficit += Math.max(0, n - (a.get(ch) || 0)); });
+  return Math.max(surplus, deficit);
+};
+
+/**
+ * Groups candidate keys so a name is only compared with keys `matchKeys` could accept:
+ * acronym expansions, and keys whose length and letters are close enough. A similarity
+ * of at least SIMILARITY_THRESHOLD allows only so many edits, and both the length
+ * difference and the differing letter counts need at least that many. This keeps the
+ * quadratic edit distance off nearly every pair on large graphs.
+ */
+const createCandidateIndex = () => {
+  const byKey = new Map<string, MergeCandidate>();
+  const byLength = new Map<number, MergeCandidate[]>();
+  const byAcronym = new Map<string, MergeCandidate[]>();
+
+  const add = (key: string, node: GraphNode) => {
+    const candidate = { key, node, order: byKey.size, chars: charCounts(key) };
+    byKey.set(key, candidate);
+    if (!byLength.has(key.length)) byLength.set(key.length, []);
+    byLength.get(key.length)!.push(candidate);
+    if (key.includes(" ")) {
+      const acronym = acronymOf(key);
+      if (!byAcronym.has(acronym)) byAcronym.set(acronym, []);
+      byAcronym.get(acronym)!.push(candidate);
+    }
+  };
+
+  const near = (key: string): MergeCandidate[] => {
+    const found = new Set<MergeCandidate>();
+    if (key.includes(" ")) {
+      const abbreviation = byKey.get(acronymOf(key));
+      if (abbreviation) found.add(abbreviation);
+    } else {
+      (byAcronym.get(key) || []).forEach(c => found.add(c));
+    }
+    const chars = charCounts(key);
+    const shortest = Math.floor(key.length * SIMILARITY_THRESHOLD);
+    const longest = Math.ceil(key.length / SIMILARITY_THRESHOLD);
+    for (let length = shortest; length <= longest; length++) {
+      const maxDistance = Math.ceil(Math.max(length, key.length) * (1 - SIMILARITY_THRESHOLD));
+      (byLength.get(length) || []).forEach(c => {
+        if (charDistance(chars, c.chars) <= maxDistance) found.add(c);
+      });
+    }
+    return Array.from(found).sort((a, b) => a.order - b.order);
+  };
+
+  return { has: (key: string) => byKey.has(key), add, near };
+};
+
+/**
+ * Finds extracted entities that are not exact matches but probably refer to an
+ * existing entity (acronyms, spelling variants). These need user review.
+ */
+export const proposeMerges = (graph: KnowledgeGraphData, newNodes: GraphNode[]): MergeProposal[] => {
+  const candidates = createCandidateIndex();
+  buildEntityIndex(graph.nodes).forEach((node, key) => candidates.add(key, node));
+  const proposals: MergeProposal[] = [];
+
+  newNodes.forEach(node => {
+    const key = normalizeEntityKey(node.id);
+    if (!key || candidates.has(key)) return;
+
+    let best: MergeProposal | null = null;
+    for (const candidate of candidates.near(key)) {
+      const match = matchKeys(key, candidate.key);
+      if (match && (!best || match.score > best.score)) {
+        best = { incomingId: node.id.trim(), existingId: candidate.node.id, ...match };
+      }
+    }
+
+    if (best) {
+      proposals.push(best);
+    } else {
+      // Later entities in the same batch may match this one
+      candidates.add(key, { ...node, id: node.id.trim() });
+    }
+  });
+
+  return proposals;
+};
+
+const addAlias = (node: GraphNode, alias: string) => {
+  const known = [node.id, ...(node.aliases || [])].map(a => a.toLowerCase());
+  if (!known.includes(alias.toLowerCase())) node.aliases = [...(node.aliases || []), alias];
+};
+
+export interface MergeOptions {
+  acceptedMerges?: MergeProposal[]; // Reviewed variants to fold into existing entities
+  source?: ImportRecord; // Import the new facts came from
+  carriedImports?: ImportRecord[]; // Earlier imports the new facts' provenance refers to, e.g. from an exported graph
+}
+
+/**
+ * Merges extracted nodes and links into the graph. Entities are matched by
+ * normalized name or alias; `acceptedMerges` maps reviewed variants onto existing
+ * entities. Link endpoints are rewritten to canonical ids and links are deduplicated
+ * ignoring case; links whose endpoints cannot be resolved are dropped. Provenance and
+ * new properties of facts that already exist are added to the existing node or link,
+ * reinforcing its confidence; derived node sizes are then updated (see `weighGraph`).
+ */
+export const mergeIntoGraph = (
+  graph: KnowledgeGraphData,
+  newNodes: GraphNode[],
+  newLinks: GraphLink[],
+  { acceptedMerges = [], source, carriedImports = [] }: MergeOptions = {}
+): KnowledgeGraphData => {
+  const nodes = graph.nodes.map(n => ({ ...n }));
+  const index = buildEntityIndex(nodes);
+  const accepted = new Map(acceptedMerges.map(p => [p.incomingId, p.existingId]));
+  const resolved = new Map<string, string>(); // extracted id -> canonical id
+
+  newNodes.forEach(node => {
+    const id = node.id.trim();
+    if (!id) return;
+    const key = normalizeEntityKey(id);
+
+    const mergeTarget = accepted.get(id);
+    let target = index.get(key) || (mergeTarget ? index.get(normalizeEntityKey(mergeTarget)) : undefined);
+    if (target) {
+      addAlias(target, id);
+      (node.aliases || []).forEach(alias => addAlias(target!, alias));
+      target.provenance = mergeProvenance(target.provenance, node.provenance);
+      Object.assign(target, mergeDetails(target, node), combineWeights(target, node));
+    } else {
+      target = { ...node, id };
+      nodes.push(target);
+    }
+    [id, ...(node.aliases || [])].forEach(name => index.set(normalizeEntityKey(name), target!));
+    resolved.set(id, target.id);
+  });
+
+  const resolveEndpoint = (endpoint: string) =>
+    resolved.get(endpoint.trim()) || index.get(normalizeEntityKey(endpoint))?.id;
+
+  const keyOf = (l: GraphLink) => `${l.source.toLowerCase()}|${l.target.toLowerCase()}|${l.relationship.trim().toLowerCase()}`;
+  const linkIndex = new Map(graph.links.map((l, i) => [keyOf(l), i]));
+  const links = [...graph.links];
+
+  newLinks.forEach(link => {
+    const source = resolveEndpoint(link.source);
+    const target = resolveEndpoint(link.target);
+    if (!source || !target || source === target) return;
+    const canonical = { ...link, source, target, relationship: link.relationship.trim() };
+    const key = keyOf(canonical);
+    const existing = linkIndex.get(key);
+    if (existing === undefined) {
+      linkIndex.set(key, links.length);
+      links.push(canonical);
+    } else {
+      links[existing] = {
+        ...links[existing],
+        ...mergeDetails(links[existing], link),
+        ...combineWeights(links[existing], link),
+        provenance: mergeProvenance(links[existing].provenance, link.provenance)
+      };
+    }
+  });
+
+  const known = new Set((graph.imports || []).map(i => i.id));
+  const added = [...carriedImports, ...(source ? [source] : [])].filter(i => !known.has(i.id) && known.add(i.id));
+  const imports = added.length ? [...(graph.imports || []), ...added] : graph.imports;
+  return weighGraph({ ...graph, nodes, links, imports });
+};
@@ -0,0 +1,148 @@
+import { KnowledgeGraphData, GraphNode, GraphLink } from "../types";
+import { extractKnowledgeFromText } from "./geminiService";
+import { normalizeEntityKey } from "./entityResolution";
+import { mergeProvenance } from "./provenance";
+import { mergeDetails } from "./properties";
+import { weighFact } from "./confidence";
+
+export interface ChunkOptions {
+  chunkSize?: number; // Target characters per chunk
+  overlap?: number; // Characters repeated between neighbouring chunks so facts on a boundary are not lost
+}
+
+export interface ExtractionProgress {
+  completedChunks: number;
+  failedChunks: number;
+  totalChunks: number;
+  entities: number;
+  links: number;
+}
+
+export interface PipelineOptions extends ChunkOptions {
+  importId?: string;
+  concurrency?: number;
+  signal?: AbortSignal;
+  onProgress?: (progress: ExtractionProgress) => void;
+}
+
+export interface PipelineResult {
+  graph: KnowledgeGraphData;
+  progress: ExtractionProgress;
+  cancelled: boolean;
+}
+
+const DEFAULT_CHUNK_SIZE = 6000;
+const DEFAULT_OVERLAP = 400;
+const DEFAULT_CONCURRENCY = 3;
+
+/**
+ * Splits text into overlapping chunks, preferring paragraph, then sentence, then word boundaries.
+ */
+export const splitIntoChunks = (
+  text: string,
+  { chunkSize = DEFAULT_CHUNK_SIZE, overlap = DEFAULT_OVERLAP }: ChunkOptions = {}
+): string[] => {
+  if (text.length <= chunkSize) return [text];
+
+  const chunks: string[] = [];
+  let start = 0;
+  while (start < text.length) {
+    let end = Math.min(start + chunkSize, text.length);
+    if (end < text.length) {
+      const window = text.slice(start + Math.floor(chunkSize / 2), end);
+      const breakAt = [/\n\s*\n(?![\s\S]*\n\s*\n)/, /[.!?]\s(?![\s\S]*[.!?]\s)/, /\s(?![\s\S]*\s)/]
+        .map(pattern => window.search(pattern))
+        .find(idx => idx !== -1);
+      if (breakAt !== undefined) end = start + Math.floor(chunkSize / 2) + breakAt + 1;
+    }
+    chunks.push(text.slice(start, end).trim());
+    if (end >= text.length) break;
+    start = Math.max(end - overlap, start + 1);
+  }
+  return chunks.filter(Boolean);
+};
+
+const linkKeyOf = (l: GraphLink) =>
+  `${normalizeEntityKey(l.source)}|${normalizeEntityKey(l.target)}|${l.relationship.trim().toLowerCase()}`;
+
+/**
+ * Combines per-chunk extractions. Entities and links repeated across chunks (e.g. in
+ * the overlap) are deduplicated by normalized name, keeping all their evidence and properties.
+ * Entities without a name, and links to them, are dropped rather than collapsed together.
+ */
+export const mergeExtractions = (base: KnowledgeGraphData, addition: KnowledgeGraphData): KnowledgeGraphData => {
+  const nodes = new Map<string, GraphNode>(base.nodes.map(n => [normalizeEntityKey(n.id), n]));
+  addition.nodes.forEach(n => {
+    if (!n.id.trim()) return;
+    const key = normalizeEntityKey(n.id);
+    const existing = nodes.get(key);
+    nodes.set(key, existing
+      ? weighFact({ ...existing, ...mergeDetails(existing, n), provenance: mergeProvenance(existing.provenance, n.provenance) })
+      : n);
+  });
+
+  const links = new Map<string, GraphLink>(base.links.map(l => [linkKeyOf(l), l]));
+  addition.links.forEach(l => {
+    if (!l.source.trim() || !l.target.trim()) return;
+    const key = linkKeyOf(l);
+    const existing = links.get(key);
+    links.set(key, existing
+      ? weighFact({ ...existing, ...mergeDetails(existing, l), provenance: mergeProvenance(existing.provenance, l.provenance) })
+      : l);
+  });
+
+  return { nodes: Array.from(nodes.values()), links: Array.from(links.values()) };
+};
+
+/**
+ * Extracts knowledge from long text chunk by chunk with bounded concurrency.
+ * Aborting `signal` stops scheduling new chunks and resolves immediately with
+ * everything extracted so far.
+ */
+export const runChunkedExtraction = async (
+  text: string,
+  currentGraph: KnowledgeGraphData,
+  { importId, concurrency = DEFAULT_CONCURRENCY, signal, onProgress, ...chunkOptions }: PipelineOptions = {}
+): Promise<PipelineResult> => {
+  const chunks = splitIntoChunks(text, chunkOptions);
+  let merged: KnowledgeGraphData = { nodes: [], links: [] };
+  const progress: ExtractionProgress = { completedChunks: 0, failedChunks: 0, totalChunks: chunks.length, entities: 0, links: 0 };
+  let nextChunk = 0;
+
+  const report = () => onProgress?.({ ...progress, entities: merged.nodes.length, links: merged.links.length });
+  report();
+
+  const worker = async () => {
+    while (nextChunk < chunks.length && !signal?.aborted) {
+      const chunk = chunks[nextChunk++];
+      try {
+        const result = await extractKnowledgeFromText(chunk, currentGraph, importId);
+        if (signal?.aborted) return;
+        merged = mergeExtractions(merged, result);
+        progress.completedChunks++;
+      } catch (err) {
+        console.error("Chunk extraction failed:", err);
+        progress.failedChunks++;
+      }
+      report();
+    }
+  };
+
+  const aborted = new Promise<void>(resolve => {
+    if (signal?.aborted) resolve();
+    signal?.addEventListener('abort', () => resolve(), { once: true });
+  });
+  const workers = Array.from({ length: Math.min(concurrency, chunks.length) }, worker);
+  await Promise.race([Promise.all(workers), aborted]);
+
+  const cancelled = !!signal?.aborted;
+  if (!cancelled && progress.completedChunks === 0) {
+    throw new Error("Failed to extract knowledge from input.");
+  }
+
+  return {
+    graph: merged,
+    progress: { ...progress, entities: merged.nodes.length, links: merged.links.length },
+    cancelled
+  };
+};
@@ -1,22 +1,81 @@
-import { GoogleGenAI, Type, Schema } from "@google/genai";
-import { KnowledgeGraphData, ScenarioResult } from "../types";
-
-// Initialize Gemini Client
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+import { Type, Schema } from "@google/genai";
+import { KnowledgeGraphData, GraphNode, GraphLink, Provenance, ScenarioResult } from "../types";
+import { PromptPart } from "./llmProvider";
+import { getProviderForTask } from "./providers";
+import { retrieveRelevantSubgraph, RetrievalOptions, toContextNode, toContextLink } from "./subgraphRetrieval";
+import { PLAN_FORMAT_INSTRUCTIONS, splitSolutionText, parseActionPlan } from "./actionPlan";
+import { conformToOntology, describeOntology } from "./ontology";
+import { normalizeProperties, PROPERTY_TYPES } from "./properties";
+import { toConfidence, DEFAULT_EXTRACTED_CONFIDENCE } from "./confidence";
 
 export interface FileInput {
   mimeType: string;
   data: string; // Base64 encoded string
 }
 
+// Raw model output: nodes and links with an optional evidence span and confidence.
+// Property values come back as text and are typed during post-processing.
+type ExtractedProperty = { key?: string; value?: string; type?: string };
+type ExtractedFields = { evidence?: string; confidence?: number; properties?: ExtractedProperty[] };
+
+interface ExtractedGraph {
+  nodes: Array<Omit<GraphNode, 'provenance' | 'properties' | 'confidence'> & ExtractedFields>;
+  links: Array<Omit<GraphLink, 'provenance' | 'properties' | 'confidence'> & ExtractedFields>;
+}
+
+const CONFIDENCE_SCHEMA: Schema = {
+  type: Type.NUMBER,
+  description: "0 to 1: how explicitly and reliably the input states this (1 = stated outright, 0.3 = implied or speculative)"
+};
+
+// Typed facts stated about an entity or relationship (dates, amounts, URLs, ...)
+const PROPERTIES_SCHEMA: Schema = {
+  type: Type.ARRAY,
+  description: "Facts stated in the input about this item, such as dates, quantities, identifiers or URLs",
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      key: { type: Type.STRING, description: "Short lowercase property name, e.g. founded, revenue, website" },
+      value: { type: Type.STRING, description: "Value as written; dates as YYYY-MM-DD, numbers without units or currency symbols" },
+      type: { type: Type.STRING, format: "enum", enum: PROPERTY_TYPES }
+    },
+    required: ["key", "value", "type"]
+  }
+};
+
+// Upper bound on existing node names listed in the extraction prompt
+const MAX_CONTEXT_NODES = 300;
+
+/**
+ * Picks the existing node names to show the model. For text input, nodes mentioned
+ * in the text come first so large graphs don't crowd out the relevant ones.
+ */
+const selectContextNodeIds = (graph: KnowledgeGraphData, input: string | FileInput): string[] => {
+  if (typeof input !== 'string') return graph.nodes.slice(0, MAX_CONTEXT_NODES).map(n => n.id);
+
+  const text = input.toLowerCase();
+  const mentioned = new Set(graph.nodes.filter(n =>
+    [n.id, ...(n.aliases || [])].some(name => text.includes(name.toLowerCase()))
+  ));
+  const others = graph.nodes.filter(n => !mentioned.has(n));
+  return [...Array.from(mentioned), ...others].slice(0, MAX_CONTEXT_NODES).map(n => n.id);
+};
+
 /**
  * Extracts structured Knowledge Graph data (Nodes and Links) from raw text or document files.
+ * When `importId` is given, each node and link carries provenance pointing to that import,
+ * with the supporting excerpt returned by the model. A workspace ontology on `currentGraph`
+ * restricts groups and relationship labels to its types.
  */
 export const extractKnowledgeFromText = async (
   input: string | FileInput, 
-  currentGraph: KnowledgeGraphData
+  currentGraph: KnowledgeGraphData,
+  importId?: string
 ): Promise<KnowledgeGraphData> => {
-  const modelId = "gemini-3-flash-preview";
+  const { provider, model } = getProviderForTask('extraction');
+  const ontology = currentGraph.ontology;
+  const entityTypes = ontology?.entityTypes.map(t => t.name) ?? [];
+  const relationshipTypes = ontology?.relationshipTypes.map(t => t.name) ?? [];
   
   const schema: Schema = {
     type: Type.OBJECT,
@@ -27,9 +86,15 @@ export const extractKnowledgeFromText = async (
           type: Type.OBJECT,
           properties: {
             id: { type: Type.STRING, description: "Unique name of the entity" },
-            group: { type: Type.STRING, description: "Category of the entity (e.g., Person, Technology, Location)" }
+            group: entityTypes.length
+              ? { type: Type.STRING, format: "enum", enum: entityTypes, description: "Entity type from the ontology" }
+              : { type: Type.STRING, description: "Category of the entity (e.g., Person, Technology, Location)" },
+            description: { type: Type.STRING, description: "One-sentence description of the entity based on the input" },
+            properties: PROPERTIES_SCHEMA,
+            evidence: { type: Type.STRING, description: "Short verbatim excerpt from the input that mentions this entity" },
+            confidence: CONFIDENCE_SCHEMA
           },
-          required: ["id", "group"]
+          required: ["id", "group", "confidence"]
         }
       },
       links: {
@@ -39,30 +104,42 @@ export const extractKnowledgeFromText = async (
           properties: {
             source: { type: Type.STRING, description: "ID of the source node" },
             target: { type: Type.STRING, description: "ID of the target node" },
-            relationship: { type: Type.STRING, description: "Description of the relationship" }
+            relationship: relationshipTypes.length
+              ? { type: Type.STRING, format: "enum", enum: relationshipTypes, description: "Relationship type from the ontology" }
+              : { type: Type.STRING, description: "Description of the relationship" },
+            description: { type: Type.STRING, description: "One-sentence explanation of the relationship, if the input gives one" },
+            properties: PROPERTIES_SCHEMA,
+            evidence: { type: Type.STRING, description: "Short verbatim excerpt from the input that states this relationship" },
+            confidence: CONFIDENCE_SCHEMA
           },
-          required: ["source", "target", "relationship"]
+          required: ["source", "target", "relationship", "confidence"]
         }
       }
     },
     required: ["nodes", "links"]
   };
 
-  const existingNodesStr = currentGraph.nodes.map(n => n.id).join(", ");
+  const existingNodesStr = selectContextNodeIds(currentGraph, input).join(", ");
+  const ontologyInstruction = ontology && (entityTypes.length || relationshipTypes.length)
+    ? `\n    Ontology:\n${describeOntology(ontology)}\n    Only extract relationships whose source and target types are allowed for that relationship type.\n`
+    : "";
   
   // Construct the prompt parts
-  const parts = [];
+  const parts: PromptPart[] = [];
 
   // System instructions as part of the content flow for context
   const promptInstruction = `
     Analyze the provided content (text or document) and extract a knowledge graph structure consisting of Nodes (entities) and Links (relationships).
     
     Current Knowledge Base Nodes: [${existingNodesStr}]
-    
+    ${ontologyInstruction}
     Instructions:
     1. Identify new key entities and categorize them.
     2. Identify relationships between new entities and existing entities if possible.
-    3. Return JSON matching the schema.
+    3. For every entity and relationship, quote the sentence or phrase from the input that supports it as "evidence".
+    4. Give a short "description" and record concrete facts (dates, amounts, identifiers, URLs) as typed "properties". Only include facts stated in the input.
+    5. Rate your "confidence" in every entity and relationship: high when the input states it plainly, low when it is implied, hedged or a passing remark.
+    6. Return JSON matching the schema.
   `;
 
   parts.push({ text: promptInstruction });
@@ -80,41 +157,76 @@ export const extractKnowledgeFromText = async (
   }
 
   try {
-    const response = await ai.models.generateContent({
-      model: modelId,
-      contents: { parts: parts },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: schema,
-        systemInstruction: "You are a specialized Knowledge Graph Engineer. Your goal is to extract structured data from any input format."
-      }
+    const response = await provider.generate({
+      task: 'extraction',
+      model,
+      parts,
+      responseSchema: schema,
+      systemInstruction: "You are a specialized Knowledge Graph Engineer. Your goal is to extract structured data from any input format."
     });
 
     const jsonText = response.text || "{\"nodes\": [], \"links\": []}";
-    const data = JSON.parse(jsonText) as KnowledgeGraphData;
+    const data = JSON.parse(jsonText) as ExtractedGraph;
+
+    // Turn evidence spans into provenance; the confidence is kept per source so that
+    // later imports confirming the same fact can reinforce it
+    const toWeight = (evidence?: string, rawConfidence?: number) => {
+      const confidence = toConfidence(rawConfidence) ?? DEFAULT_EXTRACTED_CONFIDENCE;
+      const provenance: Provenance[] | undefined = importId
+        ? [{ importId, excerpt: evidence?.trim() || undefined, confidence }]
+        : undefined;
+      return { confidence, mentions: 1, provenance };
+    };
     
-    // Add default visual value
-    const processedNodes = data.nodes.map(n => ({ ...n, val: 5 }));
+    const toDetails = (description?: string, properties?: ExtractedProperty[]) => ({
+      description: description?.trim() || undefined,
+      properties: normalizeProperties(properties)
+    });
+    
+    // Node sizes are derived from mentions and degree once merged into the graph
+    const processedNodes = data.nodes.map(({ evidence, confidence, description, properties, ...n }) => ({
+      ...n, ...toDetails(description, properties), ...toWeight(evidence, confidence)
+    }));
+    const processedLinks = data.links.map(({ evidence, confidence, description, properties, ...l }) => ({
+      ...l, ...toDetails(description, properties), ...toWeight(evidence, confidence)
+    }));
     
-    return { nodes: processedNodes, links: data.links };
+    return conformToOntology({ nodes: processedNodes, links: processedLinks }, ontology);
   } catch (error) {
     console.error("Extraction failed:", error);
     throw new Error("Failed to extract knowledge from input.");
   }
 };
 
+export interface SolveOptions {
+  retrieval?: RetrievalOptions;
+  signal?: AbortSignal; // Stops generation; the partial solution is returned with `stopped` set
+  onUpdate?: (partial: ScenarioResult) => void;
+  onPhase?: (phase: SolverPhase) => void;
+}
+
+export type SolverPhase = 'searching' | 'writing';
+
 /**
  * Solves a scenario/event using the internal Knowledge Graph AND Google Search.
+ * Only the part of the graph relevant to the scenario is sent; see `retrieveRelevantSubgraph`.
+ * The solution is streamed through `onUpdate` as it is written.
  */
 export const solveScenarioWithIntegration = async (
   scenario: string, 
-  knowledgeGraph: KnowledgeGraphData
+  knowledgeGraph: KnowledgeGraphData,
+  { retrieval = {}, signal, onUpdate, onPhase }: SolveOptions = {}
 ): Promise<ScenarioResult> => {
-  // Using Gemini 3 Pro for advanced reasoning and tool use
-  const modelId = "gemini-3-pro-preview"; 
+  // Reasoning and tool use model (Gemini 3 Pro by default)
+  const { provider, model } = getProviderForTask('solver');
+
+  const { graph: relevant, context } = retrieveRelevantSubgraph(knowledgeGraph, scenario, retrieval);
 
-  // Flatten graph for context
-  const graphContext = JSON.stringify(knowledgeGraph);
+  // Flatten graph for context (bookkeeping such as provenance is left out)
+  const graphContext = JSON.stringify({
+    nodes: relevant.nodes.map(toContextNode),
+    links: relevant.links.map(toContextLink)
+  });
 
   const prompt = `
     Input Event/Scenario: "${scenario}"
@@ -122,7 +234,7 @@ export const solveScenarioWithIntegration = async (
     Your Goal: Generate a highly practical, actionable solution for this event.
 
     Resources:
-    1. Internal Knowledge Base (provided below): Use this as the foundation.
+    1. Internal Knowledge Base (provided below): Use this as the foundation. It is the subset of entities relevant to this event, most relevant first. A "confidence" below 1 means the fact was extracted from documents and is less certain the lower it is; facts without one were entered by hand. Rely on high-confidence facts and treat low-confidence ones as leads to verify.
     2. Google Search (Tool): Use this to validate, polish, and find the latest external information.
 
     Process:
@@ -132,39 +244,52 @@ export const solveScenarioWithIntegration = async (
        - It must explicitly reference internal knowledge where applicable.
        - It must be refined by external insights (search results).
        - It must be formatted as a "Practical Action Plan".
-
+    ${PLAN_FORMAT_INSTRUCTIONS}
     Internal Knowledge Base (JSON):
     ${graphContext}
   `;
 
+  // Accumulated as the answer streams in, so a stopped request still has its partial text.
+  // The trailing plan JSON is kept out of `solution` and parsed once the answer is complete.
+  let raw = "";
+  let partial: ScenarioResult = { solution: "", sources: [], context };
+
   try {
-    const response = await ai.models.generateContent({
-      model: modelId,
-      contents: prompt,
-      config: {
-        tools: [{ googleSearch: {} }],
-        systemInstruction: "You are a Senior Solutions Architect. You excel at combining proprietary internal data with global real-time intelligence to produce concrete, actionable business solutions."
+    const response = await provider.stream({
+      task: 'solver',
+      model,
+      parts: [{ text: prompt }],
+      webSearch: true,
+      systemInstruction: "You are a Senior Solutions Architect. You excel at combining proprietary internal data with global real-time intelligence to produce concrete, actionable business solutions."
+    }, {
+      signal,
+      onEvent: (event) => {
+        if (event.type === 'status') {
+          onPhase?.(event.status);
+          return;
+        }
+        if (event.type === 'text') raw += event.text;
+        partial = event.type === 'text'
+          ? { ...partial, solution: splitSolutionText(raw, { streaming: true }).solution }
+          : { ...partial, sources: event.sources, citations: event.citations };
+        onUpdate?.(partial);
       }
     });
 
-    // Extract Grounding Metadata (Search Sources)
-    const groundingChunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
-    const sources = groundingChunks
-      .filter((c: any) => c.web?.uri && c.web?.title)
-      .map((c: any) => ({
-        title: c.web.title,
-        uri: c.web.uri
-      }));
-
-    // Deduplicate sources
-    const uniqueSources = Array.from(new Map(sources.map((item: any) => [item.uri, item])).values()) as Array<{ title: string; uri: string }>;
-
+    if (signal?.aborted) return { ...partial, stopped: true };
+    const { solution, planJson } = splitSolutionText(response.text);
+    const parsed = planJson ? parseActionPlan(planJson, knowledgeGraph) : undefined;
     return {
-      solution: response.text || "Could not generate a solution.",
-      sources: uniqueSources
+      solution: solution || "Could not generate a solution.",
+      sources: response.sources,
+      citations: response.citations,
+      plan: parsed?.plan,
+      thoughtProcess: parsed?.thoughtProcess,
+      context
     };
   } catch (error) {
+    if (signal?.aborted) return { ...partial, stopped: true };
     console.error("Solution generation failed:", error);
     throw new Error("Failed to generate solution.");
   }
-};
\ No newline at end of file
+};
@@ -0,0 +1,258 @@
+import { KnowledgeGraphData, GraphLink } from "../types";
+
+export type CentralityMetric = 'degree' | 'betweenness' | 'pagerank';
+
+export const CENTRALITY_LABELS: Record<CentralityMetric, string> = {
+  degree: 'Degree',
+  betweenness: 'Betweenness',
+  pagerank: 'PageRank'
+};
+
+/**
+ * Undirected neighbour lists keyed by node id. Every node is present, links to
+ * unknown ids and self-loops are ignored.
+ */
+const buildAdjacency = (graph: KnowledgeGraphData): Map<string, string[]> => {
+  const adjacency = new Map<string, string[]>(graph.nodes.map(n => [n.id, []]));
+  graph.links.forEach(l => {
+    if (l.source === l.target || !adjacency.has(l.source) || !adjacency.has(l.target)) return;
+    adjacency.get(l.source)!.push(l.target);
+    adjacency.get(l.target)!.push(l.source);
+  });
+  return adjacency;
+};
+
+/**
+ * Number of links touching each node, ignoring direction.
+ */
+export const degreeCentrality = (graph: KnowledgeGraphData): Map<string, number> =>
+  new Map(Array.from(buildAdjacency(graph), ([id, neighbors]) => [id, neighbors.length]));
+
+/**
+ * Normalized betweenness (Brandes' algorithm, unweighted and undirected): the share of
+ * shortest paths between other entities that pass through each node. O(V·E).
+ */
+export const betweennessCentrality = (graph: KnowledgeGraphData): Map<string, number> => {
+  const adjacency = buildAdjacency(graph);
+  const ids = Array.from(adjacency.keys());
+  const score = new Map<string, number>(ids.map(id => [id, 0]));
+
+  ids.forEach(source => {
+    const stack: string[] = [];
+    const predecessors = new Map<string, string[]>(ids.map(id => [id, []]));
+    const paths = new Map<string, number>(ids.map(id => [id, 0]));
+    const distance = new Map<string, number>();
+    paths.set(source, 1);
+    distance.set(source, 0);
+
+    const queue = [source];
+    for (let head = 0; head < queue.length; head++) {
+      const v = queue[head];
+      stack.push(v);
+      adjacency.get(v)!.forEach(w => {
+        if (!distance.has(w)) {
+          distance.set(w, distance.get(v)! + 1);
+          queue.push(w);
+        }
+        if (distance.get(w) === distance.get(v)! + 1) {
+          paths.set(w, paths.get(w)! + paths.get(v)!);
+          predecessors.get(w)!.push(v);
+        }
+      });
+    }
+
+    const dependency = new Map<string, number>(ids.map(id => [id, 0]));
+    while (stack.length) {
+      const w = stack.pop()!;
+      predecessors.get(w)!.forEach(v => {
+        dependency.set(v, dependency.get(v)! + (paths.get(v)! / paths.get(w)!) * (1 + dependency.get(w)!));
+      });
+      if (w !== source) score.set(w, score.get(w)! + dependency.get(w)!);
+    }
+  });
+
+  // Each undirected pair was counted from both ends
+  const n = ids.length;
+  const scale = n > 2 ? 1 / ((n - 1) * (n - 2)) : 0;
+  return new Map(Array.from(score, ([id, value]) => [id, value * scale]));
+};
+
+/**
+ * PageRank over the directed links, with dangling nodes spreading their rank evenly.
+ */
+export const pageRank = (graph: KnowledgeGraphData, damping = 0.85, iterations = 50): Map<string, number> => {
+  const ids = graph.nodes.map(n => n.id);
+  const n = ids.length;
+  if (n === 0) return new Map();
+  const known = new Set(ids);
+  const outgoing = new Map<string, string[]>(ids.map(id => [id, []]));
+  graph.links.forEach(l => {
+    if (known.has(l.source) && known.has(l.target)) outgoing.get(l.source)!.push(l.target);
+  });
+
+  let rank = new Map<string, number>(ids.map(id => [id, 1 / n]));
+  for (let i = 0; i < iterations; i++) {
+    const dangling = ids.reduce((sum, id) => sum + (outgoing.get(id)!.length ? 0 : rank.get(id)!), 0);
+    const next = new Map<string, number>(ids.map(id => [id, (1 - damping) / n + (damping * dangling) / n]));
+    ids.forEach(id => {
+      const targets = outgoing.get(id)!;
+      const share = (damping * rank.get(id)!) / (targets.length || 1);
+      targets.forEach(t => next.set(t, next.get(t)! + share));
+    });
+    rank = next;
+  }
+  return rank;
+};
+
+export const computeCentrality = (graph: KnowledgeGraphData, metric: CentralityMetric): Map<string, number> =>
+  metric === 'degree' ? degreeCentrality(graph)
+    : metric === 'betweenness' ? betweennessCentrality(graph)
+    : pageRank(graph);
+
+/**
+ * Connected components (ignoring direction), largest first.
+ */
+export const connectedComponents = (graph: KnowledgeGraphData): string[][] => {
+  const adjacency = buildAdjacency(graph);
+  const seen = new Set<string>();
+  const components: string[][] = [];
+  adjacency.forEach((_, start) => {
+    if (seen.has(start)) return;
+    seen.add(start);
+    const component = [start];
+    for (let head = 0; head < component.length; head++) {
+      adjacency.get(component[head])!.forEach(next => {
+        if (!seen.has(next)) {
+          seen.add(next);
+          component.push(next);
+        }
+      });
+    }
+    components.push(component);
+  });
+  return components.sort((a, b) => b.length - a.length);
+};
+
+/**
+ * Community detection with the Louvain method: nodes greedily move to the neighbouring
+ * community with the best modularity gain, communities are collapsed into single nodes,
+ * and this repeats until nothing moves. Returns communities (as node id lists), largest first.
+ */
+export const louvainCommunities = (graph: KnowledgeGraphData): string[][] => {
+  const ids = graph.nodes.map(n => n.id);
+  const index = new Map(ids.map((id, i) => [id, i]));
+
+  // Level graph: symmetric weighted edges between distinct nodes, plus self-loop weight
+  let edges: Map<number, number>[] = ids.map(() => new Map());
+  let selfLoops: number[] = ids.map(() => 0);
+  graph.links.forEach(l => {
+    const a = index.get(l.source);
+    const b = index.get(l.target);
+    if (a === undefined || b === undefined || a === b) return;
+    edges[a].set(b, (edges[a].get(b) || 0) + 1);
+    edges[b].set(a, (edges[b].get(a) || 0) + 1);
+  });
+  let membership = ids.map((_, i) => i); // Original node -> node of the current level
+
+  for (let level = 0; level < 20; level++) {
+    const size = edges.length;
+    const degree = edges.map((e, i) => 2 * selfLoops[i] + Array.from(e.values()).reduce((s, w) => s + w, 0));
+    const m2 = degree.reduce((s, k) => s + k, 0);
+    if (m2 === 0) break;
+
+    const community = edges.map((_, i) => i);
+    const total = [...degree];
+    let moved = true;
+    let anyMove = false;
+    for (let pass = 0; moved && pass < 100; pass++) {
+      moved = false;
+      for (let i = 0; i < size; i++) {
+        const current = community[i];
+        const weightTo = new Map<number, number>();
+        edges[i].forEach((w, j) => weightTo.set(community[j], (weightTo.get(community[j]) || 0) + w));
+
+        total[current] -= degree[i];
+        let best = current;
+        let bestGain = (weightTo.get(current) || 0) - (total[current] * degree[i]) / m2;
+        weightTo.forEach((w, c) => {
+          const gain = w - (total[c] * degree[i]) / m2;
+          if (gain > bestGain + 1e-12) {
+            best = c;
+            bestGain = gain;
+          }
+        });
+        total[best] += degree[i];
+        if (best !== current) {
+          community[i] = best;
+          moved = true;
+          anyMove = true;
+        }
+      }
+    }
+    if (!anyMove) break;
+
+    // Collapse communities into the next level's nodes
+    const renumber = new Map<number, number>();
+    community.forEach(c => { if (!renumber.has(c)) renumber.set(c, renumber.size); });
+    const nextEdges: Map<number, number>[] = Array.from({ length: renumber.size }, () => new Map());
+    const nextSelf = new Array<number>(renumber.size).fill(0);
+    for (let i = 0; i < size; i++) {
+      const ci = renumber.get(community[i])!;
+      nextSelf[ci] += selfLoops[i];
+      edges[i].forEach((w, j) => {
+        const cj = renumber.get(community[j])!;
+        // Symmetric edges are visited from both ends, so internal ones count half each time
+        if (ci === cj) nextSelf[ci] += w / 2;
+        else nextEdges[ci].set(cj, (nextEdges[ci].get(cj) || 0) + w);
+      });
+    }
+    membership = membership.map(node => renumber.get(community[node])!);
+    edges = nextEdges;
+    selfLoops = nextSelf;
+  }
+
+  const groups = new Map<number, string[]>();
+  membership.forEach((c, i) => {
+    if (!groups.has(c)) groups.set(c, []);
+    groups.get(c)!.push(ids[i]);
+  });
+  return Array.from(groups.values()).sort((a, b) => b.length - a.length);
+};
+
+/**
+ * Entities with no relationships at all.
+ */
+export const findOrphans = (graph: KnowledgeGraphData): string[] =>
+  Array.from(degreeCentrality(graph)).filter(([, degree]) => degree === 0).map(([id]) => id);
+
+/**
+ * Shortest path between two entities ignoring link direction (fewest hops), with the
+ * links walked along it. Undefined when they are not connected.
+ */
+export const shortestPath = (
+  graph: KnowledgeGraphData,
+  from: string,
+  to: string
+): { nodeIds: string[]; links: GraphLink[] } | undefined => {
+  const adjacency = buildAdjacency(graph);
+  if (!adjacency.has(from) || !adjacency.has(to)) return undefined;
+
+  const previous = new Map<string, string | null>([[from, null]]);
+  const queue = [from];
+  for (let head = 0; head < queue.length && !previous.has(to); head++) {
+    adjacency.get(queue[head])!.forEach(next => {
+      if (!previous.has(next)) {
+        previous.set(next, queue[head]);
+        queue.push(next);
+      }
+    });
+  }
+  if (!previous.has(to)) return undefined;
+
+  const nodeIds: string[] = [];
+  for (let at: string | null = to; at !== null; at = previous.get(at)!) nodeIds.unshift(at);
+  const links = nodeIds.slice(1).map((id, i) => graph.links.find(l =>
+    (l.source === nodeIds[i] && l.target === id) || (l.source === id && l.target === nodeIds[i])
+  )!);
+  return { nodeIds, links };
+};
@@ -0,0 +1,99 @@
+import { GraphLink, GraphNode, KnowledgeGraphData } from "../types";
+import { linkKey } from "./graphUtils";
+
+export interface ChangedEntry<T> {
+  before: T;
+  after: T;
+  fields: string[]; // Names of the fields that differ
+}
+
+export interface GraphDiff {
+  addedNodes: GraphNode[];
+  removedNodes: GraphNode[];
+  changedNodes: ChangedEntry<GraphNode>[];
+  addedLinks: GraphLink[];
+  removedLinks: GraphLink[];
+  changedLinks: ChangedEntry<GraphLink>[];
+}
+
+const changedFields = (before: object, after: object): string[] => {
+  const a = before as Record<string, unknown>;
+  const b = after as Record<string, unknown>;
+  return Array.from(new Set([...Object.keys(a), ...Object.keys(b)]))
+    .filter(key => JSON.stringify(a[key] ?? null) !== JSON.stringify(b[key] ?? null))
+    .sort();
+};
+
+// Matches entries of two lists by key and sorts them into added, removed and changed
+const diffByKey = <T extends object>(before: T[], after: T[], key: (item: T) => string) => {
+  const previous = new Map(before.map(item => [key(item), item]));
+  const current = new Map(after.map(item => [key(item), item]));
+  const added = after.filter(item => !previous.has(key(item)));
+  const removed = before.filter(item => !current.has(key(item)));
+  const changed: ChangedEntry<T>[] = [];
+  current.forEach((item, k) => {
+    const old = previous.get(k);
+    if (!old) return;
+    const fields = changedFields(old, item);
+    if (fields.length) changed.push({ before: old, after: item, fields });
+  });
+  return { added, removed, changed };
+};
+
+/**
+ * Compares two versions of a graph. Entities are matched by id and relationships by
+ * source, target and label, so a renamed entity shows up as removed plus added.
+ */
+export const diffGraphs = (before: KnowledgeGraphData, after: KnowledgeGraphData): GraphDiff => {
+  const nodes = diffByKey(before.nodes, after.nodes, n => n.id);
+  const links = diffByKey(before.links, after.links, linkKey);
+  return {
+    addedNodes: nodes.added,
+    removedNodes: nodes.removed,
+    changedNodes: nodes.changed,
+    addedLinks: links.added,
+    removedLinks: links.removed,
+    changedLinks: links.changed
+  };
+};
+
+export const isEmptyDiff = (diff: GraphDiff): boolean =>
+  Object.values(diff).every((entries: unknown[]) => entries.length === 0);
+
+const count = (n: number, singular: string, plural: string) => `${n} ${n === 1 ? singular : plural}`;
+const entities = (n: number) => count(n, "entity", "entities");
+const relationships = (n: number) => count(n, "relationship", "relationships");
+
+/**
+ * One-line description of a diff: the change itself when there is exactly one, counts otherwise.
+ */
+export const summarizeDiff = (diff: GraphDiff): string => {
+  const { addedNodes, removedNodes, changedNodes, addedLinks, removedLinks, changedLinks } = diff;
+  const total = addedNodes.length + removedNodes.length + changedNodes.length
+    + addedLinks.length + removedLinks.length + changedLinks.length;
+  if (total === 0) return "No changes";
+
+  const describeLink = (l: GraphLink) => `"${l.source}" -[${l.relationship}]-> "${l.target}"`;
+  if (total === 1) {
+    if (addedNodes.length) return `Added entity "${addedNodes[0].id}"`;
+    if (removedNodes.length) return `Deleted entity "${removedNodes[0].id}"`;
+    if (changedNodes.length) return `Changed ${changedNodes[0].fields.join(", ")} of "${changedNodes[0].after.id}"`;
+    if (addedLinks.length) return `Added relationship ${describeLink(addedLinks[0])}`;
+    if (removedLinks.length) return `Deleted relationship ${describeLink(removedLinks[0])}`;
+    return `Changed relationship ${describeLink(changedLinks[0].after)}`;
+  }
+  // A rename: one entity swapped for another, with its relationships moved across
+  if (addedNodes.length === 1 && removedNodes.length === 1 && !changedNodes.length) {
+    return `Renamed "${removedNodes[0].id}" to "${addedNodes[0].id}"`;
+  }
+
+  const parts = [
+    addedNodes.length && `+${entities(addedNodes.length)}`,
+    removedNodes.length && `−${entities(removedNodes.length)}`,
+    changedNodes.length && `~${entities(changedNodes.length)}`,
+    addedLinks.length && `+${relationships(addedLinks.length)}`,
+    removedLinks.length && `−${relationships(removedLinks.length)}`,
+    changedLinks.length && `~${relationships(changedLinks.length)}`
+  ].filter(Boolean);
+  return parts.join(", ");
+};
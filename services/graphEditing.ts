@@ -0,0 +1,170 @@
+import { KnowledgeGraphData, GraphNode, GraphLink } from "../types";
+import { linkKey } from "./graphUtils";
+import { mergeProvenance } from "./provenance";
+import { GraphDetails, mergeDetails } from "./properties";
+import { combineWeights, weighFact } from "./confidence";
+
+// Pure editing operations on KnowledgeGraphData. Each returns a new graph and
+// throws an Error with a user-facing message when the edit is not allowed.
+
+const findNodeIgnoringCase = (graph: KnowledgeGraphData, id: string) =>
+  graph.nodes.find(n => n.id.toLowerCase() === id.trim().toLowerCase());
+
+const requireNode = (graph: KnowledgeGraphData, id: string): GraphNode => {
+  const node = graph.nodes.find(n => n.id === id);
+  if (!node) throw new Error(`Entity "${id}" does not exist.`);
+  return node;
+};
+
+/**
+ * Removes self-loops and collapses duplicate links (same source, target and relationship)
+ * into the first, combining their provenance, details and weights.
+ */
+const normalizeLinks = (links: GraphLink[]): GraphLink[] => {
+  const byKey = new Map<string, GraphLink>();
+  links.forEach(l => {
+    if (l.source === l.target) return;
+    const key = linkKey(l);
+    const kept = byKey.get(key);
+    byKey.set(key, kept
+      ? weighFact({
+          ...kept,
+          ...mergeDetails(kept, l),
+          ...combineWeights(kept, l),
+          provenance: mergeProvenance(kept.provenance, l.provenance)
+        })
+      : l);
+  });
+  return Array.from(byKey.values());
+};
+
+export const addNode = (graph: KnowledgeGraphData, node: GraphNode): KnowledgeGraphData => {
+  const id = node.id.trim();
+  if (!id) throw new Error("Entity name cannot be empty.");
+  if (findNodeIgnoringCase(graph, id)) throw new Error(`Entity "${id}" already exists.`);
+  return { ...graph, nodes: [...graph.nodes, { val: 5, ...node, id, group: node.group.trim() || "Concept" }] };
+};
+
+/**
+ * Renames a node and rewrites every link that references it.
+ */
+export const renameNode = (graph: KnowledgeGraphData, oldId: string, newId: string): KnowledgeGraphData => {
+  requireNode(graph, oldId);
+  const id = newId.trim();
+  if (!id) throw new Error("Entity name cannot be empty.");
+  const clash = findNodeIgnoringCase(graph, id);
+  if (clash && clash.id !== oldId) throw new Error(`Entity "${clash.id}" already exists. Merge them instead.`);
+
+  const rewrite = (endpoint: string) => (endpoint === oldId ? id : endpoint);
+  return {
+    ...graph,
+    nodes: graph.nodes.map(n => (n.id === oldId ? { ...n, id } : n)),
+    links: graph.links.map(l => ({ ...l, source: rewrite(l.source), target: rewrite(l.target) }))
+  };
+};
+
+export const setNodeGroup = (graph: KnowledgeGraphData, id: string, group: string): KnowledgeGraphData => {
+  requireNode(graph, id);
+  if (!group.trim()) throw new Error("Group cannot be empty.");
+  return { ...graph, nodes: graph.nodes.map(n => (n.id === id ? { ...n, group: group.trim() } : n)) };
+};
+
+const checkDetails = ({ description, properties }: GraphDetails): GraphDetails => {
+  const keys = new Set<string>();
+  (properties || []).forEach(p => {
+    const key = p.key.trim().toLowerCase();
+    if (!key) throw new Error("Property name cannot be empty.");
+    if (keys.has(key)) throw new Error(`Property "${p.key.trim()}" is defined twice.`);
+    keys.add(key);
+  });
+  return {
+    description: description?.trim() || undefined,
+    properties: properties?.length ? properties.map(p => ({ ...p, key: p.key.trim() })) : undefined
+  };
+};
+
+/**
+ * Replaces a node's description and properties.
+ */
+export const setNodeDetails = (graph: KnowledgeGraphData, id: string, details: GraphDetails): KnowledgeGraphData => {
+  requireNode(graph, id);
+  const checked = checkDetails(details);
+  return { ...graph, nodes: graph.nodes.map(n => (n.id === id ? { ...n, ...checked } : n)) };
+};
+
+export const setLinkDetails = (graph: KnowledgeGraphData, link: GraphLink, details: GraphDetails): KnowledgeGraphData => {
+  if (!graph.links.some(l => linkKey(l) === linkKey(link))) throw new Error("Relationship no longer exists.");
+  const checked = checkDetails(details);
+  return { ...graph, links: graph.links.map(l => (linkKey(l) === linkKey(link) ? { ...l, ...checked } : l)) };
+};
+
+/**
+ * Deletes nodes together with every link touching them.
+ */
+export const deleteNodes = (graph: KnowledgeGraphData, ids: string[]): KnowledgeGraphData => {
+  const removed = new Set(ids);
+  return {
+    ...graph,
+    nodes: graph.nodes.filter(n => !removed.has(n.id)),
+    links: graph.links.filter(l => !removed.has(l.source) && !removed.has(l.target))
+  };
+};
+
+export const addLink = (graph: KnowledgeGraphData, link: GraphLink): KnowledgeGraphData => {
+  requireNode(graph, link.source);
+  requireNode(graph, link.target);
+  const relationship = link.relationship.trim();
+  if (!relationship) throw new Error("Relationship label cannot be empty.");
+  if (link.source === link.target) throw new Error("An entity cannot be linked to itself.");
+  const newLink = { ...link, relationship };
+  if (graph.links.some(l => linkKey(l) === linkKey(newLink))) throw new Error("This relationship already exists.");
+  return { ...graph, links: [...graph.links, newLink] };
+};
+
+/**
+ * Replaces `original` with `updated`, keeping its position in the link list.
+ */
+export const updateLink = (graph: KnowledgeGraphData, original: GraphLink, updated: GraphLink): KnowledgeGraphData => {
+  const index = graph.links.findIndex(l => linkKey(l) === linkKey(original));
+  if (index === -1) throw new Error("Relationship no longer exists.");
+  const others = { ...graph, links: graph.links.filter((_, i) => i !== index) };
+  const withNew = addLink(others, updated);
+  const links = [...others.links];
+  links.splice(index, 0, withNew.links[withNew.links.length - 1]);
+  return { ...graph, links };
+};
+
+export const deleteLink = (graph: KnowledgeGraphData, link: GraphLink): KnowledgeGraphData => ({
+  ...graph,
+  links: graph.links.filter(l => linkKey(l) !== linkKey(link))
+});
+
+/**
+ * Merges `mergedId` into `keepId`: links are re-pointed to the kept node, the
+ * merged name becomes an alias, and duplicates or self-loops created by the merge are dropped.
+ */
+export const mergeNodes = (graph: KnowledgeGraphData, keepId: string, mergedId: string): KnowledgeGraphData => {
+  const kept = requireNode(graph, keepId);
+  const merged = requireNode(graph, mergedId);
+  if (kept.id === merged.id) throw new Error("Cannot merge an entity into itself.");
+
+  const aliases = Array.from(new Set([...(kept.aliases || []), merged.id, ...(merged.aliases || [])]))
+    .filter(alias => alias.toLowerCase() !== kept.id.toLowerCase());
+  const rewrite = (endpoint: string) => (endpoint === mergedId ? keepId : endpoint);
+  return {
+    ...graph,
+    nodes: graph.nodes
+      .filter(n => n.id !== mergedId)
+      .map(n => (n.id === keepId
+        ? weighFact({
+            ...n,
+            ...mergeDetails(n, merged),
+            ...combineWeights(n, merged),
+            aliases,
+            provenance: mergeProvenance(n.provenance, merged.provenance),
+            val: Math.max(n.val ?? 5, merged.val ?? 5)
+          })
+        : n)),
+    links: normalizeLinks(graph.links.map(l => ({ ...l, source: rewrite(l.source), target: rewrite(l.target) })))
+  };
+};
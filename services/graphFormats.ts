@@ -0,0 +1,523 @@
+import { KnowledgeGraphData, GraphNode, GraphLink, ImportRecord, Provenance } from "../types";
+import { normalizeProperties } from "./properties";
+import { toConfidence } from "./confidence";
+
+export type GraphFormat = 'json' | 'graphml' | 'gexf' | 'csv' | 'turtle' | 'jsonld' | 'cypher';
+
+export interface ExportedFile {
+  fileName: string;
+  mimeType: string;
+  content: string;
+}
+
+export const GRAPH_FORMATS: Array<{ id: GraphFormat; label: string; extensions: string[] }> = [
+  { id: 'json', label: 'Native JSON', extensions: ['.json'] },
+  { id: 'graphml', label: 'GraphML', extensions: ['.graphml'] },
+  { id: 'gexf', label: 'GEXF (Gephi)', extensions: ['.gexf'] },
+  { id: 'csv', label: 'CSV node & edge lists', extensions: ['.csv'] },
+  { id: 'turtle', label: 'RDF Turtle', extensions: ['.ttl'] },
+  { id: 'jsonld', label: 'JSON-LD', extensions: ['.jsonld'] },
+  { id: 'cypher', label: 'Cypher (Neo4j)', extensions: ['.cypher', '.cql'] }
+];
+
+// IRIs used by the RDF serializations
+const NS = "urn:ccsmind:";
+const ENTITY_NS = `${NS}entity:`;
+const REL_NS = `${NS}rel:`;
+const RDF_TYPE = "http://www.w3.org/1999/02/22-rdf-syntax-ns#type";
+const RDFS_LABEL = "http://www.w3.org/2000/01/rdf-schema#label";
+const GROUP_IRI = `${NS}group`;
+const VAL_IRI = `${NS}val`;
+const ENTITY_CLASS = `${NS}Entity`;
+
+const DEFAULT_VAL = 5;
+
+export const detectGraphFormat = (fileName: string): GraphFormat | undefined => {
+  const lower = fileName.toLowerCase();
+  return GRAPH_FORMATS.find(f => f.extensions.some(ext => lower.endsWith(ext)))?.id;
+};
+
+// --- Helpers --------------------------------------------------------------
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&apos;");
+
+// Double-quoted string literal, valid in Turtle and Cypher alike
+const quote = (value: string) =>
+  `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n").replace(/\r/g, "\\r").replace(/\t/g, "\\t")}"`;
+
+const unquote = (literal: string) =>
+  literal.slice(1, -1).replace(/\\(["\\nrt'])/g, (_, c) => ({ n: "\n", r: "\r", t: "\t" } as Record<string, string>)[c] ?? c);
+
+const csvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < input.length; i++) {
+    const c = input[i];
+    if (inQuotes) {
+      if (c === '"' && input[i + 1] === '"') { cell += '"'; i++; }
+      else if (c === '"') inQuotes = false;
+      else cell += c;
+    } else if (c === '"') inQuotes = true;
+    else if (c === ',') { row.push(cell); cell = ""; }
+    else if (c === '\n' || c === '\r') {
+      if (c === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell); rows.push(row); row = []; cell = "";
+    } else cell += c;
+  }
+  if (cell || row.length) { row.push(cell); rows.push(row); }
+  return rows.filter(r => r.some(v => v.trim()));
+};
+
+const parseXml = (text: string): Document => {
+  const doc = new DOMParser().parseFromString(text, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length) throw new Error("The file is not well-formed XML.");
+  return doc;
+};
+
+const toVal = (value: string | number | undefined | null): number => {
+  const n = typeof value === 'number' ? value : parseFloat(value ?? "");
+  return Number.isFinite(n) ? n : DEFAULT_VAL;
+};
+
+const entityIri = (id: string) => `${ENTITY_NS}${encodeURIComponent(id)}`;
+const relIri = (relationship: string) => `${REL_NS}${encodeURIComponent(relationship)}`;
+
+// Last path segment of an IRI, used when a resource has no label of its own
+const localName = (iri: string) => {
+  for (const prefix of [ENTITY_NS, REL_NS]) {
+    if (iri.startsWith(prefix)) return decodeURIComponent(iri.slice(prefix.length));
+  }
+  const match = iri.match(/[^#/:]+$/);
+  return match ? decodeURIComponent(match[0]) : iri;
+};
+
+// Cypher relationship types must be identifiers; the exact label is kept as a property
+const cypherRelType = (relationship: string) =>
+  relationship.trim().toUpperCase().replace(/[^A-Z0-9]+/g, "_").replace(/^_+|_+$/g, "") || "RELATED_TO";
+
+// --- Export ---------------------------------------------------------------
+
+const toGraphML = (graph: KnowledgeGraphData) => [
+  `<?xml version="1.0" encoding="UTF-8"?>`,
+  `<graphml xmlns="http://graphml.graphdrawing.org/xmlns">`,
+  `  <key id="group" for="node" attr.name="group" attr.type="string"/>`,
+  `  <key id="val" for="node" attr.name="val" attr.type="double"/>`,
+  `  <key id="relationship" for="edge" attr.name="relationship" attr.type="string"/>`,
+  `  <graph id="G" edgedefault="directed">`,
+  ...graph.nodes.map(n =>
+    `    <node id="${escapeXml(n.id)}"><data key="group">${escapeXml(n.group)}</data><data key="val">${toVal(n.val)}</data></node>`),
+  ...graph.links.map((l, i) =>
+    `    <edge id="e${i}" source="${escapeXml(l.source)}" target="${escapeXml(l.target)}"><data key="relationship">${escapeXml(l.relationship)}</data></edge>`),
+  `  </graph>`,
+  `</graphml>`
+].join("\n");
+
+const toGEXF = (graph: KnowledgeGraphData) => [
+  `<?xml version="1.0" encoding="UTF-8"?>`,
+  `<gexf xmlns="http://gexf.net/1.3" version="1.3">`,
+  `  <graph defaultedgetype="directed" mode="static">`,
+  `    <attributes class="node">`,
+  `      <attribute id="group" title="group" type="string"/>`,
+  `      <attribute id="val" title="val" type="double"/>`,
+  `    </attributes>`,
+  `    <nodes>`,
+  ...graph.nodes.map(n =>
+    `      <node id="${escapeXml(n.id)}" label="${escapeXml(n.id)}"><attvalues><attvalue for="group" value="${escapeXml(n.group)}"/><attvalue for="val" value="${toVal(n.val)}"/></attvalues></node>`),
+  `    </nodes>`,
+  `    <edges>`,
+  ...graph.links.map((l, i) =>
+    `      <edge id="e${i}" source="${escapeXml(l.source)}" target="${escapeXml(l.target)}" label="${escapeXml(l.relationship)}"/>`),
+  `    </edges>`,
+  `  </graph>`,
+  `</gexf>`
+].join("\n");
+
+const toNodesCsv = (graph: KnowledgeGraphData) =>
+  ["id,group,val", ...graph.nodes.map(n => [n.id, n.group, toVal(n.val)].map(csvCell).join(","))].join("\n");
+
+const toEdgesCsv = (graph: KnowledgeGraphData) =>
+  ["source,target,relationship", ...graph.links.map(l => [l.source, l.target, l.relationship].map(csvCell).join(","))].join("\n");
+
+const toTurtle = (graph: KnowledgeGraphData) => [
+  `@prefix rdfs: <http://www.w3.org/2000/01/rdf-schema#> .`,
+  `@prefix kg: <${NS}> .`,
+  ``,
+  ...graph.nodes.map(n =>
+    `<${entityIri(n.id)}> a kg:Entity ;\n  rdfs:label ${quote(n.id)} ;\n  kg:group ${quote(n.group)} ;\n  kg:val ${toVal(n.val)} .`),
+  ``,
+  ...graph.links.map(l => `<${entityIri(l.source)}> <${relIri(l.relationship)}> <${entityIri(l.target)}> .`)
+].join("\n");
+
+const toJsonLd = (graph: KnowledgeGraphData) => {
+  const outgoing = new Map<string, GraphLink[]>();
+  graph.links.forEach(l => outgoing.set(l.source, [...(outgoing.get(l.source) || []), l]));
+
+  const entries = graph.nodes.map(n => {
+    const entry: Record<string, unknown> = {
+      "@id": entityIri(n.id),
+      "@type": ENTITY_CLASS,
+      label: n.id,
+      group: n.group,
+      val: toVal(n.val)
+    };
+    (outgoing.get(n.id) || []).forEach(l => {
+      const predicate = relIri(l.relationship);
+      entry[predicate] = [...((entry[predicate] as unknown[]) || []), { "@id": entityIri(l.target) }];
+    });
+    return entry;
+  });
+
+  return JSON.stringify({
+    "@context": { label: RDFS_LABEL, group: GROUP_IRI, val: VAL_IRI },
+    "@graph": entries
+  }, null, 2);
+};
+
+const toCypher = (graph: KnowledgeGraphData) => [
+  `// CC'sMind knowledge graph export`,
+  `CREATE CONSTRAINT entity_id IF NOT EXISTS FOR (n:Entity) REQUIRE n.id IS UNIQUE;`,
+  ...graph.nodes.map(n => `MERGE (n:Entity {id: ${quote(n.id)}}) SET n.group = ${quote(n.group)}, n.val = ${toVal(n.val)};`),
+  ...graph.links.map(l =>
+    `MATCH (a:Entity {id: ${quote(l.source)}}), (b:Entity {id: ${quote(l.target)}}) MERGE (a)-[:${cypherRelType(l.relationship)} {relationship: ${quote(l.relationship)}}]->(b);`)
+].join("\n");
+
+/**
+ * Serializes the graph. CSV produces two files (nodes and edges); every other format one.
+ */
+export const exportGraph = (graph: KnowledgeGraphData, format: GraphFormat, baseName = "knowledge-graph"): ExportedFile[] => {
+  switch (format) {
+    case 'json':
+      return [{ fileName: `${baseName}.json`, mimeType: "application/json", content: JSON.stringify(graph, null, 2) }];
+    case 'graphml':
+      return [{ fileName: `${baseName}.graphml`, mimeType: "application/xml", content: toGraphML(graph) }];
+    case 'gexf':
+      return [{ fileName: `${baseName}.gexf`, mimeType: "application/xml", content: toGEXF(graph) }];
+    case 'csv':
+      return [
+        { fileName: `${baseName}-nodes.csv`, mimeType: "text/csv;charset=utf-8", content: toNodesCsv(graph) },
+        { fileName: `${baseName}-edges.csv`, mimeType: "text/csv;charset=utf-8", content: toEdgesCsv(graph) }
+      ];
+    case 'turtle':
+      return [{ fileName: `${baseName}.ttl`, mimeType: "text/turtle", content: toTurtle(graph) }];
+    case 'jsonld':
+      return [{ fileName: `${baseName}.jsonld`, mimeType: "application/ld+json", content: toJsonLd(graph) }];
+    case 'cypher':
+      return [{ fileName: `${baseName}.cypher`, mimeType: "text/plain", content: toCypher(graph) }];
+  }
+};
+
+// --- Import ---------------------------------------------------------------
+
+// Native JSON is the app's own export, so details, weights and provenance are carried over
+const jsonDetails = (item: any) => {
+  const description = typeof item.description === 'string' && item.description.trim() ? item.description : undefined;
+  const properties = Array.isArray(item.properties) ? normalizeProperties(item.properties) : undefined;
+  const confidence = toConfidence(item.confidence);
+  const mentions = Number.isInteger(item.mentions) && item.mentions > 0 ? item.mentions : undefined;
+  const provenance: Provenance[] = Array.isArray(item.provenance)
+    ? item.provenance.filter((p: any) => typeof p?.importId === 'string').map((p: any) => {
+        const score = toConfidence(p.confidence);
+        return {
+          importId: p.importId,
+          ...(typeof p.excerpt === 'string' ? { excerpt: p.excerpt } : {}),
+          ...(score !== undefined ? { confidence: score } : {})
+        };
+      })
+    : [];
+  return {
+    ...(description ? { description } : {}),
+    ...(properties ? { properties } : {}),
+    ...(confidence !== undefined ? { confidence } : {}),
+    ...(mentions ? { mentions } : {}),
+    ...(provenance.length ? { provenance } : {})
+  };
+};
+
+// A missing id becomes "", which `importGraph` drops rather than naming the entity "undefined"
+const jsonId = (value: any): string => {
+  const id = value !== null && typeof value === 'object' ? value.id : value;
+  return id === undefined || id === null ? "" : String(id);
+};
+
+const fromJson = (text: string): KnowledgeGraphData => {
+  const data = JSON.parse(text);
+  if (!Array.isArray(data?.nodes) || !Array.isArray(data?.links)) {
+    throw new Error("JSON must contain \"nodes\" and \"links\" arrays.");
+  }
+  const imports: ImportRecord[] = Array.isArray(data.imports)
+    ? data.imports.filter((i: any) => typeof i?.id === 'string' && typeof i.label === 'string')
+    : [];
+  return {
+    nodes: data.nodes.map((n: any) => ({
+      id: jsonId(n?.id),
+      group: String(n?.group ?? "Concept"),
+      val: toVal(n?.val),
+      ...(Array.isArray(n?.aliases) && n.aliases.length ? { aliases: n.aliases.map(String) } : {}),
+      ...jsonDetails(n || {})
+    })),
+    links: data.links.map((l: any) => ({
+      source: jsonId(l?.source),
+      target: jsonId(l?.target),
+      relationship: String(l?.relationship ?? "related to"),
+      ...jsonDetails(l || {})
+    })),
+    ...(imports.length ? { imports } : {})
+  };
+};
+
+const fromGraphML = (text: string): KnowledgeGraphData => {
+  const doc = parseXml(text);
+  // Map key ids to attribute names so files from other tools resolve too
+  const keyNames = new Map<string, string>();
+  Array.from(doc.getElementsByTagName("key")).forEach(k => keyNames.set(k.getAttribute("id") || "", k.getAttribute("attr.name") || k.getAttribute("id") || ""));
+  const dataOf = (el: Element) => {
+    const values: Record<string, string> = {};
+    Array.from(el.getElementsByTagName("data")).forEach(d => {
+      const key = d.getAttribute("key") || "";
+      values[keyNames.get(key) || key] = d.textContent || "";
+    });
+    return values;
+  };
+
+  return {
+    nodes: Array.from(doc.getElementsByTagName("node")).map(el => {
+      const data = dataOf(el);
+      return { id: el.getAttribute("id") || "", group: data.group || "Concept", val: toVal(data.val) };
+    }),
+    links: Array.from(doc.getElementsByTagName("edge")).map(el => {
+      const data = dataOf(el);
+      return {
+        source: el.getAttribute("source") || "",
+        target: el.getAttribute("target") || "",
+        relationship: data.relationship || data.label || "related to"
+      };
+    })
+  };
+};
+
+const fromGEXF = (text: string): KnowledgeGraphData => {
+  const doc = parseXml(text);
+  const attributeTitles = new Map<string, string>();
+  Array.from(doc.getElementsByTagName("attribute")).forEach(a => attributeTitles.set(a.getAttribute("id") || "", a.getAttribute("title") || ""));
+
+  // GEXF edges reference node ids; labels are the display names we import
+  const labelsById = new Map<string, string>();
+  const nodes: GraphNode[] = Array.from(doc.getElementsByTagName("node")).map(el => {
+    const values: Record<string, string> = {};
+    Array.from(el.getElementsByTagName("attvalue")).forEach(v => {
+      const key = v.getAttribute("for") || "";
+      values[attributeTitles.get(key) || key] = v.getAttribute("value") || "";
+    });
+    const rawId = el.getAttribute("id") || "";
+    const id = el.getAttribute("label") || rawId;
+    labelsById.set(rawId, id);
+    const size = Array.from(el.getElementsByTagName("*")).find(c => c.localName === "size")?.getAttribute("value");
+    return { id, group: values.group || "Concept", val: toVal(values.val ?? size) };
+  });
+
+  const links = Array.from(doc.getElementsByTagName("edge")).map(el => ({
+    source: labelsById.get(el.getAttribute("source") || "") || el.getAttribute("source") || "",
+    target: labelsById.get(el.getAttribute("target") || "") || el.getAttribute("target") || "",
+    relationship: el.getAttribute("label") || "related to"
+  }));
+
+  return { nodes, links };
+};
+
+const fromCsv = (text: string): KnowledgeGraphData => {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return { nodes: [], links: [] };
+  const columns = header.map(h => h.trim().toLowerCase());
+  const col = (row: string[], name: string) => {
+    const idx = columns.indexOf(name);
+    return idx === -1 ? undefined : row[idx]?.trim();
+  };
+
+  if (columns.includes("source") && columns.includes("target")) {
+    return {
+      nodes: [],
+      links: rows.map(r => ({
+        source: col(r, "source") || "",
+        target: col(r, "target") || "",
+        relationship: col(r, "relationship") || col(r, "label") || "related to"
+      }))
+    };
+  }
+  if (columns.includes("id")) {
+    return {
+      nodes: rows.map(r => ({ id: col(r, "id") || "", group: col(r, "group") || "Concept", val: toVal(col(r, "val")) })),
+      links: []
+    };
+  }
+  throw new Error("CSV must have either an id column (nodes) or source and target columns (edges).");
+};
+
+type RdfTerm = { kind: 'iri' | 'literal'; value: string };
+type Triple = [RdfTerm, RdfTerm, RdfTerm];
+
+/**
+ * Minimal Turtle reader: @prefix, IRIs, prefixed names, `a`, string and numeric literals,
+ * and `;`/`,` lists. Enough for our own output and typical hand-written files.
+ */
+const parseTurtle = (text: string): Triple[] => {
+  const withoutComments = text.replace(/^\s*#.*$/gm, "");
+  const tokens = withoutComments.match(/"(?:[^"\\]|\\.)*"(?:\^\^\S+|@[\w-]+)?|<[^>]*>|@prefix|[^\s;,.<>"]+(?:\.[^\s;,.<>"]+)*|[;,.]/g) || [];
+  const prefixes = new Map<string, string>();
+  const triples: Triple[] = [];
+
+  const term = (token: string): RdfTerm => {
+    if (token.startsWith("<")) return { kind: 'iri', value: token.slice(1, -1) };
+    if (token.startsWith('"')) return { kind: 'literal', value: unquote(token.replace(/(\^\^\S+|@[\w-]+)$/, "")) };
+    if (token === "a") return { kind: 'iri', value: RDF_TYPE };
+    const colon = token.indexOf(":");
+    if (colon !== -1 && prefixes.has(token.slice(0, colon))) {
+      return { kind: 'iri', value: prefixes.get(token.slice(0, colon)) + token.slice(colon + 1) };
+    }
+    return { kind: 'literal', value: token };
+  };
+
+  let i = 0;
+  while (i < tokens.length) {
+    if (tokens[i] === "@prefix") {
+      prefixes.set(tokens[i + 1].replace(/:$/, ""), tokens[i + 2].slice(1, -1));
+      i += 4; // @prefix name: <iri> .
+      continue;
+    }
+    const subject = term(tokens[i++]);
+    let predicate = term(tokens[i++]);
+    while (i < tokens.length) {
+      triples.push([subject, predicate, term(tokens[i++])]);
+      const sep = tokens[i++];
+      if (sep === ",") continue;
+      if (sep === ";") {
+        if (tokens[i] === ".") { i++; break; }
+        predicate = term(tokens[i++]);
+        continue;
+      }
+      break; // "."
+    }
+  }
+  return triples;
+};
+
+/**
+ * Builds nodes and links from RDF triples: typed or labelled resources become entities,
+ * IRI-valued predicates (other than rdf:type) become relationships.
+ */
+const graphFromTriples = (triples: Triple[]): KnowledgeGraphData => {
+  const nodes = new Map<string, GraphNode>();
+  const ensure = (iri: string) => {
+    if (!nodes.has(iri)) nodes.set(iri, { id: localName(iri), group: "Concept", val: DEFAULT_VAL });
+    return nodes.get(iri)!;
+  };
+  const edges: Array<{ s: string; p: string; o: string }> = [];
+
+  triples.forEach(([s, p, o]) => {
+    if (s.kind !== 'iri') return;
+    if (p.value === RDF_TYPE) { ensure(s.value); return; }
+    if (p.value === RDFS_LABEL) { ensure(s.value).id = o.value; return; }
+    if (p.value === GROUP_IRI) { ensure(s.value).group = o.value; return; }
+    if (p.value === VAL_IRI) { ensure(s.value).val = toVal(o.value); return; }
+    if (o.kind === 'iri') {
+      ensure(s.value);
+      ensure(o.value);
+      edges.push({ s: s.value, p: p.value, o: o.value });
+    }
+  });
+
+  return {
+    nodes: Array.from(nodes.values()),
+    links: edges.map(e => ({ source: nodes.get(e.s)!.id, target: nodes.get(e.o)!.id, relationship: localName(e.p) }))
+  };
+};
+
+const fromJsonLd = (text: string): KnowledgeGraphData => {
+  const doc = JSON.parse(text);
+  const context: Record<string, string> = {};
+  Object.entries(doc["@context"] || {}).forEach(([term, iri]) => {
+    if (typeof iri === 'string') context[term] = iri;
+    else if (iri && typeof (iri as any)["@id"] === 'string') context[term] = (iri as any)["@id"];
+  });
+  const expand = (key: string) => context[key] || key;
+  const entries: any[] = Array.isArray(doc) ? doc : doc["@graph"] || [doc];
+
+  const triples: Triple[] = [];
+  entries.forEach(entry => {
+    const subject: RdfTerm = { kind: 'iri', value: entry["@id"] };
+    if (!subject.value) return;
+    Object.entries(entry).forEach(([key, raw]) => {
+      if (key === "@id" || key === "@context") return;
+      const predicate: RdfTerm = { kind: 'iri', value: key === "@type" ? RDF_TYPE : expand(key) };
+      (Array.isArray(raw) ? raw : [raw]).forEach((value: any) => {
+        const object: RdfTerm = value && typeof value === 'object'
+          ? (value["@id"] ? { kind: 'iri', value: value["@id"] } : { kind: 'literal', value: String(value["@value"]) })
+          : { kind: key === "@type" ? 'iri' : 'literal', value: String(value) };
+        triples.push([subject, predicate, object]);
+      });
+    });
+  });
+  return graphFromTriples(triples);
+};
+
+const STRING_LITERAL = `"(?:[^"\\\\]|\\\\.)*"`;
+
+const fromCypher = (text: string): KnowledgeGraphData => {
+  const nodes: GraphNode[] = [];
+  const links: GraphLink[] = [];
+  const nodePattern = new RegExp(
+    `(?:MERGE|CREATE)\\s*\\(\\w*:Entity\\s*\\{id:\\s*(${STRING_LITERAL})\\}\\)(?:\\s*SET\\s+\\w+\\.group\\s*=\\s*(${STRING_LITERAL}))?(?:,\\s*\\w+\\.val\\s*=\\s*([\\d.]+))?`, "i");
+  const linkPattern = new RegExp(
+    `MATCH\\s*\\(\\w+:Entity\\s*\\{id:\\s*(${STRING_LITERAL})\\}\\)\\s*,\\s*\\(\\w+:Entity\\s*\\{id:\\s*(${STRING_LITERAL})\\}\\)\\s*(?:MERGE|CREATE)\\s*\\(\\w+\\)-\\[:(\\w+)(?:\\s*\\{relationship:\\s*(${STRING_LITERAL})\\})?\\]->\\(\\w+\\)`, "i");
+
+  text.split(/;\s*(?:\r?\n|$)/).forEach(statement => {
+    const link = statement.match(linkPattern);
+    if (link) {
+      links.push({
+        source: unquote(link[1]),
+        target: unquote(link[2]),
+        relationship: link[4] ? unquote(link[4]) : link[3].toLowerCase().replace(/_/g, " ")
+      });
+      return;
+    }
+    const node = statement.match(nodePattern);
+    if (node) {
+      nodes.push({ id: unquote(node[1]), group: node[2] ? unquote(node[2]) : "Concept", val: toVal(node[3]) });
+    }
+  });
+
+  return { nodes, links };
+};
+
+/**
+ * Parses a file in one of the supported interchange formats. Unknown or missing fields
+ * fall back to group "Concept", val 5 and relationship "related to".
+ */
+export const importGraph = (text: string, format: GraphFormat): KnowledgeGraphData => {
+  const parsed = (() => {
+    switch (format) {
+      case 'json': return fromJson(text);
+      case 'graphml': return fromGraphML(text);
+      case 'gexf': return fromGEXF(text);
+      case 'csv': return fromCsv(text);
+      case 'turtle': return graphFromTriples(parseTurtle(text));
+      case 'jsonld': return fromJsonLd(text);
+      case 'cypher': return fromCypher(text);
+    }
+  })();
+
+  return {
+    nodes: parsed.nodes.filter(n => n.id.trim()),
+    links: parsed.links.filter(l => l.source.trim() && l.target.trim()),
+    ...(parsed.imports ? { imports: parsed.imports } : {})
+  };
+};
@@ -0,0 +1,167 @@
+import { GraphLayout, GraphLayoutKind, KnowledgeGraphData } from "../types";
+
+// Target positions for the structured graph layouts. The graph view pulls nodes towards
+// these with forces, so switching layouts animates and dragged nodes can still be pinned.
+
+export const LAYOUT_LABELS: Record<GraphLayoutKind, string> = {
+  force: 'Force',
+  hierarchical: 'Hierarchy',
+  radial: 'Radial',
+  clustered: 'Clusters'
+};
+
+export const DEFAULT_LAYOUT: GraphLayout = { kind: 'force', pinned: {}, positions: {} };
+
+// Spacing between siblings and between levels of the hierarchy, and between rings of
+// the radial layout
+const TREE_SPACING: [number, number] = [60, 120];
+export const RING_SPACING = 150;
+
+const degreeOf = (graph: KnowledgeGraphData, direction: 'out' | 'in'): Map<string, number> => {
+  const degree = new Map<string, number>(graph.nodes.map(n => [n.id, 0]));
+  graph.links.forEach(l => {
+    const id = direction === 'out' ? l.source : l.target;
+    if (l.source !== l.target && degree.has(id)) degree.set(id, degree.get(id)! + 1);
+  });
+  return degree;
+};
+
+/**
+ * Lays the graph out as a top-down tree, centred on `center`. Relationships point
+ * downwards: nodes nothing points to are the roots, and each other node hangs under
+ * the first node found to point at it. Cycles with no way in are entered at their
+ * node with the most outgoing links. Leaves are spaced evenly and parents sit
+ * above the middle of their children.
+ */
+export const hierarchicalPositions = (graph: KnowledgeGraphData, center: [number, number] = [0, 0]): Map<string, [number, number]> => {
+  const ids = new Set(graph.nodes.map(n => n.id));
+  const outgoing = new Map<string, string[]>(graph.nodes.map(n => [n.id, []]));
+  graph.links.forEach(l => {
+    if (l.source !== l.target && ids.has(l.source) && ids.has(l.target)) outgoing.get(l.source)!.push(l.target);
+  });
+  const inDegree = degreeOf(graph, 'in');
+  const outDegree = degreeOf(graph, 'out');
+
+  const children = new Map<string, string[]>();
+  const depth = new Map<string, number>();
+  const roots: string[] = [];
+  const grow = (root: string) => {
+    roots.push(root);
+    depth.set(root, 0);
+    const queue = [root];
+    for (let i = 0; i < queue.length; i++) {
+      const id = queue[i];
+      outgoing.get(id)!.forEach(next => {
+        if (depth.has(next)) return;
+        depth.set(next, depth.get(id)! + 1);
+        if (!children.has(id)) children.set(id, []);
+        children.get(id)!.push(next);
+        queue.push(next);
+      });
+    }
+  };
+
+  graph.nodes.filter(n => !inDegree.get(n.id)).forEach(n => grow(n.id));
+  graph.nodes
+    .filter(n => !depth.has(n.id))
+    .sort((a, b) => outDegree.get(b.id)! - outDegree.get(a.id)!)
+    .forEach(n => { if (!depth.has(n.id)) grow(n.id); });
+
+  // Leaves take consecutive slots; a parent goes over the middle of its children
+  const slot = new Map<string, number>();
+  let nextLeaf = 0;
+  const place = (root: string) => {
+    const stack: Array<{ id: string; expanded: boolean }> = [{ id: root, expanded: false }];
+    while (stack.length) {
+      const entry = stack.pop()!;
+      const kids = children.get(entry.id) ?? [];
+      if (!kids.length) {
+        slot.set(entry.id, nextLeaf++);
+      } else if (entry.expanded) {
+        slot.set(entry.id, (slot.get(kids[0])! + slot.get(kids[kids.length - 1])!) / 2);
+      } else {
+        stack.push({ id: entry.id, expanded: true });
+        for (let i = kids.length - 1; i >= 0; i--) stack.push({ id: kids[i], expanded: false });
+      }
+    }
+    nextLeaf += 1; // Gap between trees
+  };
+  roots.forEach(place);
+
+  const width = (nextLeaf - 2) * TREE_SPACING[0];
+  const height = Math.max(0, ...depth.values()) * TREE_SPACING[1];
+  return new Map(graph.nodes.map(n => [n.id, [
+    center[0] + slot.get(n.id)! * TREE_SPACING[0] - width / 2,
+    center[1] + depth.get(n.id)! * TREE_SPACING[1] - height / 2
+  ]]));
+};
+
+/**
+ * Hops from the focus node, ignoring direction. Nodes it can't reach get one more than
+ * the furthest reachable node, so they form the outermost ring.
+ */
+export const radialDepths = (graph: KnowledgeGraphData, focusId: string): Map<string, number> => {
+  const adjacency = new Map<string, string[]>(graph.nodes.map(n => [n.id, []]));
+  graph.links.forEach(l => {
+    if (l.source === l.target || !adjacency.has(l.source) || !adjacency.has(l.target)) return;
+    adjacency.get(l.source)!.push(l.target);
+    adjacency.get(l.target)!.push(l.source);
+  });
+  const depths = new Map<string, number>();
+  if (adjacency.has(focusId)) {
+    depths.set(focusId, 0);
+    const queue = [focusId];
+    for (let i = 0; i < queue.length; i++) {
+      adjacency.get(queue[i])!.forEach(next => {
+        if (depths.has(next)) return;
+        depths.set(next, depths.get(queue[i])! + 1);
+        queue.push(next);
+      });
+    }
+  }
+  const outer = Math.max(0, ...depths.values()) + 1;
+  graph.nodes.forEach(n => { if (!depths.has(n.id)) depths.set(n.id, outer); });
+  return depths;
+};
+
+/**
+ * The focus of the radial layout when none has been picked: the best-connected node.
+ */
+export const defaultFocus = (graph: KnowledgeGraphData): string | undefined => {
+  const degree = new Map<string, number>();
+  graph.links.forEach(l => [l.source, l.target].forEach(id => degree.set(id, (degree.get(id) ?? 0) + 1)));
+  return graph.nodes.reduce<string | undefined>(
+    (best, n) => (best === undefined || (degree.get(n.id) ?? 0) > (degree.get(best) ?? 0) ? n.id : best), undefined);
+};
+
+/**
+ * Centres for the clustered layout: one per group, evenly around a circle large enough
+ * that clusters of typical size don't overlap.
+ */
+export const clusterCenters = (graph: KnowledgeGraphData, center: [number, number] = [0, 0]): Map<string, [number, number]> => {
+  const sizes = new Map<string, number>();
+  graph.nodes.forEach(n => sizes.set(n.group, (sizes.get(n.group) ?? 0) + 1));
+  const groups = Array.from(sizes.keys()).sort((a, b) => a.localeCompare(b));
+  if (groups.length === 1) return new Map([[groups[0], center]]);
+  // Room for the largest cluster, assuming it packs roughly into a disc
+  const clusterRadius = 30 * Math.sqrt(Math.max(...sizes.values()));
+  const radius = Math.max(200, (groups.length * (clusterRadius * 2 + 40)) / (2 * Math.PI));
+  return new Map(groups.map((group, i) => {
+    const angle = (2 * Math.PI * i) / groups.length - Math.PI / 2;
+    return [group, [center[0] + radius * Math.cos(angle), center[1] + radius * Math.sin(angle)]];
+  }));
+};
+
+/**
+ * Drops saved positions and pins of nodes no longer in the graph.
+ */
+export const pruneLayout = (layout: GraphLayout, graph: KnowledgeGraphData): GraphLayout => {
+  const ids = new Set(graph.nodes.map(n => n.id));
+  const keep = (record: Record<string, [number, number]>) => Object.fromEntries(Object.entries(record).filter(([id]) => ids.has(id)));
+  return {
+    ...layout,
+    focusId: layout.focusId && ids.has(layout.focusId) ? layout.focusId : undefined,
+    pinned: keep(layout.pinned),
+    positions: keep(layout.positions)
+  };
+};
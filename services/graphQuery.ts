@@ -0,0 +1,694 @@
+import { GraphLink, GraphNode, KnowledgeGraphData } from "../types";
+
+/*
+ * A small Cypher-like query language evaluated locally against the knowledge graph:
+ *
+ *   MATCH (a:Regulation)-[r:governs]->(b), (b)-[*1..3]-(c {id: "Healthcare"})
+ *   WHERE a.id CONTAINS "gdpr" AND NOT b.group = "Concept"
+ *   RETURN DISTINCT a, r, b.group AS kind
+ *   LIMIT 50
+ *
+ * Labels match a node's group and relationship types its relationship label (both
+ * case-insensitive; `is_part_of` also matches "is part of"). `|` separates alternatives,
+ * `*min..max` asks for a variable-length path. MATCH is optional and, without RETURN,
+ * every named variable is returned. String comparisons ignore case.
+ */
+
+type Direction = 'out' | 'in' | 'both';
+type Literal = string | number | boolean | null;
+
+interface NodePattern {
+  variable: string;
+  groups: string[];
+  properties: Record<string, Literal>;
+}
+
+interface RelPattern {
+  variable: string;
+  types: string[];
+  direction: Direction;
+  variableLength: boolean;
+  minHops: number;
+  maxHops: number;
+}
+
+interface PathPattern {
+  nodes: NodePattern[];
+  rels: RelPattern[];
+}
+
+type Operand =
+  | { kind: 'ref'; variable: string; property?: string }
+  | { kind: 'literal'; value: Literal }
+  | { kind: 'list'; values: Literal[] };
+
+type CompareOp = '=' | '<>' | '<' | '<=' | '>' | '>=' | 'CONTAINS' | 'STARTS WITH' | 'ENDS WITH' | '=~' | 'IN';
+
+type Condition =
+  | { kind: 'and' | 'or'; left: Condition; right: Condition }
+  | { kind: 'not'; operand: Condition }
+  | { kind: 'compare'; left: Operand; op: CompareOp; right: Operand };
+
+interface ReturnItem {
+  variable: string;
+  property?: string;
+  alias: string;
+}
+
+export interface GraphQuery {
+  patterns: PathPattern[];
+  where?: Condition;
+  returnItems: ReturnItem[];
+  distinct: boolean;
+  limit: number;
+}
+
+export interface QueryCell {
+  text: string;
+  nodeId?: string; // Set when the cell shows an entity, so it can be selected
+}
+
+export interface QueryResult {
+  columns: string[];
+  rows: QueryCell[][];
+  nodeIds: Set<string>; // Every entity taking part in a returned match, including path interiors
+  truncated: boolean; // More rows matched than the limit allowed
+}
+
+export const DEFAULT_QUERY_LIMIT = 200;
+const DEFAULT_MAX_HOPS = 6;
+const MAX_EXPANSIONS = 200000;
+
+export const EXAMPLE_QUERIES = [
+  '(a)-[r]->(b) RETURN a, r, b LIMIT 25',
+  'MATCH (a:Regulation)-[r]->(b) RETURN a, r.relationship, b.group',
+  'MATCH (a {id: "Artificial Intelligence"})-[*1..2]-(b) RETURN DISTINCT b, b.group',
+  'MATCH (a)-[p*2..3]->(b) WHERE a.group = "Technology" RETURN a, p, b LIMIT 20'
+];
+
+// ---------------------------------------------------------------------------
+// Tokenizer
+// ---------------------------------------------------------------------------
+
+type TokenType = 'ident' | 'string' | 'number' | 'punct' | 'eof';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  pos: number;
+}
+
+const PUNCTUATION = ['<-', '->', '..', '<>', '!=', '<=', '>=', '=~', '(', ')', '[', ']', '{', '}', ':', ',', '.', '|', '*', '-', '<', '>', '='];
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const ch = source[i];
+    if (/\s/.test(ch)) { i++; continue; }
+    if (source.startsWith('//', i)) {
+      while (i < source.length && source[i] !== '\n') i++;
+      continue;
+    }
+    const start = i;
+    if (ch === '"' || ch === "'" || ch === '`') {
+      let value = '';
+      i++;
+      while (i < source.length && source[i] !== ch) {
+        if (source[i] === '\\' && i + 1 < source.length) i++;
+        value += source[i++];
+      }
+      if (i >= source.length) throw new Error(`Unterminated ${ch === '`' ? 'name' : 'string'} at position ${start + 1}.`);
+      i++;
+      tokens.push({ type: ch === '`' ? 'ident' : 'string', value, pos: start });
+      continue;
+    }
+    if (/[0-9]/.test(ch)) {
+      while (/[0-9]/.test(source[i] ?? '')) i++;
+      if (source[i] === '.' && /[0-9]/.test(source[i + 1] ?? '')) {
+        i++;
+        while (/[0-9]/.test(source[i] ?? '')) i++;
+      }
+      tokens.push({ type: 'number', value: source.slice(start, i), pos: start });
+      continue;
+    }
+    if (/[A-Za-z_]/.test(ch)) {
+      while (/[A-Za-z0-9_]/.test(source[i] ?? '')) i++;
+      tokens.push({ type: 'ident', value: source.slice(start, i), pos: start });
+      continue;
+    }
+    const punct = PUNCTUATION.find(p => source.startsWith(p, i));
+    if (!punct) throw new Error(`Unexpected character "${ch}" at position ${i + 1}.`);
+    tokens.push({ type: 'punct', value: punct, pos: start });
+    i += punct.length;
+  }
+  tokens.push({ type: 'eof', value: '', pos: source.length });
+  return tokens;
+};
+
+// ---------------------------------------------------------------------------
+// Parser
+// ---------------------------------------------------------------------------
+
+class Parser {
+  private index = 0;
+  private anonymous = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  private get current(): Token {
+    return this.tokens[this.index];
+  }
+
+  private fail(expected: string): never {
+    const token = this.current;
+    const found = token.type === 'eof' ? 'end of query' : `"${token.value}"`;
+    throw new Error(`Expected ${expected} but found ${found} at position ${token.pos + 1}.`);
+  }
+
+  private isPunct(value: string): boolean {
+    return this.current.type === 'punct' && this.current.value === value;
+  }
+
+  private isKeyword(word: string): boolean {
+    return this.current.type === 'ident' && this.current.value.toUpperCase() === word;
+  }
+
+  private acceptPunct(value: string): boolean {
+    if (!this.isPunct(value)) return false;
+    this.index++;
+    return true;
+  }
+
+  private acceptKeyword(word: string): boolean {
+    if (!this.isKeyword(word)) return false;
+    this.index++;
+    return true;
+  }
+
+  private expectPunct(value: string): void {
+    if (!this.acceptPunct(value)) this.fail(`"${value}"`);
+  }
+
+  private expectKeyword(word: string): void {
+    if (!this.acceptKeyword(word)) this.fail(word);
+  }
+
+  private name(what: string): string {
+    if (this.current.type !== 'ident' && this.current.type !== 'string') this.fail(what);
+    return this.tokens[this.index++].value;
+  }
+
+  // Unnamed elements still get a (space-prefixed, so unwritable) variable, letting results
+  // report every entity a match touched
+  private anonymousVariable(): string {
+    return ` anon${this.anonymous++}`;
+  }
+
+  private integer(): number {
+    if (this.current.type !== 'number' || this.current.value.includes('.')) this.fail('a whole number');
+    return Number(this.tokens[this.index++].value);
+  }
+
+  parse(): GraphQuery {
+    this.acceptKeyword('MATCH');
+    const patterns = [this.path()];
+    while (this.acceptPunct(',')) patterns.push(this.path());
+
+    const where = this.acceptKeyword('WHERE') ? this.orCondition() : undefined;
+
+    let distinct = false;
+    let returnItems: ReturnItem[] | null = null;
+    if (this.acceptKeyword('RETURN')) {
+      distinct = this.acceptKeyword('DISTINCT');
+      returnItems = [this.returnItem()];
+      while (this.acceptPunct(',')) returnItems.push(this.returnItem());
+    }
+
+    const limit = this.acceptKeyword('LIMIT') ? this.integer() : DEFAULT_QUERY_LIMIT;
+    if (this.current.type !== 'eof') this.fail('WHERE, RETURN, LIMIT or the end of the query');
+
+    const variables = this.variablesOf(patterns);
+    if (!returnItems) {
+      returnItems = Array.from(variables.keys())
+        .filter(v => !v.startsWith(' '))
+        .map(variable => ({ variable, alias: variable }));
+      if (!returnItems.length) throw new Error("Name at least one variable, e.g. (a)-[r]->(b), or add a RETURN clause.");
+    }
+    const checkVariable = (variable: string) => {
+      if (!variables.has(variable)) throw new Error(`Variable "${variable}" is not defined in the MATCH pattern.`);
+    };
+    returnItems.forEach(item => checkVariable(item.variable));
+    if (where) this.operandsOf(where).forEach(o => { if (o.kind === 'ref') checkVariable(o.variable); });
+
+    return { patterns, where, returnItems, distinct, limit };
+  }
+
+  // Named variables, each either a node or a relationship; a name can't be both
+  private variablesOf(patterns: PathPattern[]): Map<string, 'node' | 'rel'> {
+    const variables = new Map<string, 'node' | 'rel'>();
+    const declare = (variable: string, kind: 'node' | 'rel') => {
+      const existing = variables.get(variable);
+      if (existing && (existing !== kind || kind === 'rel')) {
+        throw new Error(`Variable "${variable}" is used for more than one ${kind === 'rel' && existing === 'rel' ? 'relationship' : 'kind of element'}.`);
+      }
+      variables.set(variable, kind);
+    };
+    patterns.forEach(p => p.nodes.forEach((n, i) => {
+      declare(n.variable, 'node');
+      if (i < p.rels.length) declare(p.rels[i].variable, 'rel');
+    }));
+    return variables;
+  }
+
+  private operandsOf(condition: Condition): Operand[] {
+    if (condition.kind === 'compare') return [condition.left, condition.right];
+    if (condition.kind === 'not') return this.operandsOf(condition.operand);
+    return [...this.operandsOf(condition.left), ...this.operandsOf(condition.right)];
+  }
+
+  private path(): PathPattern {
+    const nodes = [this.nodePattern()];
+    const rels: RelPattern[] = [];
+    while (this.isPunct('-') || this.isPunct('<-')) {
+      rels.push(this.relPattern());
+      nodes.push(this.nodePattern());
+    }
+    return { nodes, rels };
+  }
+
+  private nodePattern(): NodePattern {
+    this.expectPunct('(');
+    const variable = this.current.type === 'ident' ? this.name('a variable') : this.anonymousVariable();
+    const groups: string[] = [];
+    if (this.acceptPunct(':')) {
+      groups.push(this.name('an entity group'));
+      while (this.acceptPunct('|')) {
+        this.acceptPunct(':');
+        groups.push(this.name('an entity group'));
+      }
+    }
+    const properties: Record<string, Literal> = {};
+    if (this.acceptPunct('{')) {
+      do {
+        const key = this.name('a property name');
+        this.expectPunct(':');
+        properties[key] = this.literal();
+      } while (this.acceptPunct(','));
+      this.expectPunct('}');
+    }
+    this.expectPunct(')');
+    return { variable, groups, properties };
+  }
+
+  private relPattern(): RelPattern {
+    const pointsLeft = this.acceptPunct('<-');
+    if (!pointsLeft) this.expectPunct('-');
+
+    let variable = this.anonymousVariable();
+    const types: string[] = [];
+    let variableLength = false;
+    let minHops = 1;
+    let maxHops = 1;
+    if (this.acceptPunct('[')) {
+      if (this.current.type === 'ident') variable = this.name('a variable');
+      if (this.acceptPunct(':')) {
+        types.push(this.name('a relationship type'));
+        while (this.acceptPunct('|')) {
+          this.acceptPunct(':');
+          types.push(this.name('a relationship type'));
+        }
+      }
+      if (this.acceptPunct('*')) {
+        variableLength = true;
+        maxHops = DEFAULT_MAX_HOPS;
+        if (this.current.type === 'number') {
+          minHops = this.integer();
+          maxHops = this.isPunct('..') ? DEFAULT_MAX_HOPS : minHops;
+        }
+        if (this.acceptPunct('..') && this.current.type === 'number') maxHops = this.integer();
+        if (maxHops < minHops) throw new Error(`Path length *${minHops}..${maxHops} is empty.`);
+        if (maxHops > DEFAULT_MAX_HOPS * 2) throw new Error(`Paths are limited to ${DEFAULT_MAX_HOPS * 2} hops.`);
+      }
+      this.expectPunct(']');
+    }
+
+    const pointsRight = this.acceptPunct('->');
+    if (!pointsRight) this.expectPunct('-');
+    if (pointsLeft && pointsRight) throw new Error("A relationship cannot point both ways; use -[...]- to ignore direction.");
+
+    return {
+      variable,
+      types,
+      direction: pointsRight ? 'out' : pointsLeft ? 'in' : 'both',
+      variableLength,
+      minHops,
+      maxHops
+    };
+  }
+
+  private returnItem(): ReturnItem {
+    const variable = this.name('a variable to return');
+    const property = this.acceptPunct('.') ? this.name('a property name') : undefined;
+    const alias = this.acceptKeyword('AS') ? this.name('a column name') : property ? `${variable}.${property}` : variable;
+    return { variable, property, alias };
+  }
+
+  private literal(): Literal {
+    const token = this.current;
+    if (token.type === 'string') { this.index++; return token.value; }
+    if (token.type === 'number') { this.index++; return Number(token.value); }
+    if (this.acceptPunct('-')) {
+      if (this.current.type !== 'number') this.fail('a number');
+      return -Number(this.tokens[this.index++].value);
+    }
+    if (this.acceptKeyword('TRUE')) return true;
+    if (this.acceptKeyword('FALSE')) return false;
+    if (this.acceptKeyword('NULL')) return null;
+    return this.fail('a value');
+  }
+
+  private orCondition(): Condition {
+    let left = this.andCondition();
+    while (this.acceptKeyword('OR')) left = { kind: 'or', left, right: this.andCondition() };
+    return left;
+  }
+
+  private andCondition(): Condition {
+    let left = this.notCondition();
+    while (this.acceptKeyword('AND')) left = { kind: 'and', left, right: this.notCondition() };
+    return left;
+  }
+
+  private notCondition(): Condition {
+    if (this.acceptKeyword('NOT')) return { kind: 'not', operand: this.notCondition() };
+    if (this.acceptPunct('(')) {
+      const inner = this.orCondition();
+      this.expectPunct(')');
+      return inner;
+    }
+    return this.comparison();
+  }
+
+  private comparison(): Condition {
+    const left = this.operand();
+    let op: CompareOp;
+    if (this.acceptKeyword('CONTAINS')) op = 'CONTAINS';
+    else if (this.acceptKeyword('STARTS')) { this.expectKeyword('WITH'); op = 'STARTS WITH'; }
+    else if (this.acceptKeyword('ENDS')) { this.expectKeyword('WITH'); op = 'ENDS WITH'; }
+    else if (this.acceptKeyword('IN')) op = 'IN';
+    else {
+      const symbol = ['=', '<>', '!=', '<=', '>=', '<', '>', '=~'].find(s => this.isPunct(s));
+      if (!symbol) this.fail('a comparison such as =, <>, CONTAINS or IN');
+      this.index++;
+      op = symbol === '!=' ? '<>' : symbol as CompareOp;
+    }
+    if (op === 'IN') {
+      this.expectPunct('[');
+      const values: Literal[] = [];
+      if (!this.isPunct(']')) {
+        do values.push(this.literal()); while (this.acceptPunct(','));
+      }
+      this.expectPunct(']');
+      return { kind: 'compare', left, op, right: { kind: 'list', values } };
+    }
+    return { kind: 'compare', left, op, right: this.operand() };
+  }
+
+  private operand(): Operand {
+    if (this.current.type === 'ident' && !['TRUE', 'FALSE', 'NULL'].includes(this.current.value.toUpperCase())) {
+      const variable = this.name('a variable');
+      const property = this.acceptPunct('.') ? this.name('a property name') : undefined;
+      return { kind: 'ref', variable, property };
+    }
+    return { kind: 'literal', value: this.literal() };
+  }
+}
+
+/**
+ * Parses a query, throwing an Error that points at the offending position.
+ */
+export const parseQuery = (source: string): GraphQuery => {
+  if (!source.trim()) throw new Error("The query is empty.");
+  return new Parser(tokenize(source)).parse();
+};
+
+// ---------------------------------------------------------------------------
+// Evaluation
+// ---------------------------------------------------------------------------
+
+type Binding =
+  | { kind: 'node'; node: GraphNode }
+  | { kind: 'link'; link: GraphLink }
+  | { kind: 'path'; nodeIds: string[]; links: GraphLink[] };
+
+type Row = Map<string, Binding>;
+
+interface Step {
+  links: GraphLink[];
+  nodeIds: string[]; // Every node walked, from the start to the end
+}
+
+interface EvaluationContext {
+  nodesById: Map<string, GraphNode>;
+  incident: Map<string, GraphLink[]>;
+  budget: number;
+}
+
+const normalizeLabel = (label: string) => label.trim().toLowerCase().replace(/[\s_-]+/g, ' ');
+
+const toLiteral = (value: unknown): Literal => {
+  if (value === undefined || value === null) return null;
+  if (Array.isArray(value)) return value.join(', ');
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') return value;
+  return JSON.stringify(value);
+};
+
+const describeLink = (link: GraphLink) => `${link.source} -[${link.relationship}]-> ${link.target}`;
+
+const describePath = (nodeIds: string[], links: GraphLink[]) =>
+  nodeIds.reduce((text, id, i) => {
+    if (i === 0) return id;
+    const link = links[i - 1];
+    return link.source === nodeIds[i - 1]
+      ? `${text} -[${link.relationship}]-> ${id}`
+      : `${text} <-[${link.relationship}]- ${id}`;
+  }, '');
+
+// Reads a property of a bound element. `name` is an alias of a node's id and `type` of a link's relationship.
+/**
+ * A field of a node or link, falling back to its typed properties, so `n.founded`
+ * reads the "founded" property.
+ */
+const fieldOf = (item: GraphNode | GraphLink, property: string): Literal => {
+  if (property === 'properties') return (item.properties || []).map(p => `${p.key}: ${p.value}`).join(', ') || null;
+  const field = (item as unknown as Record<string, unknown>)[property];
+  if (field !== undefined) return toLiteral(field);
+  return item.properties?.find(p => p.key.toLowerCase() === property.toLowerCase())?.value ?? null;
+};
+
+const propertyOf = (binding: Binding, property?: string): Literal => {
+  if (binding.kind === 'node') {
+    if (!property || property === 'name') return binding.node.id;
+    return fieldOf(binding.node, property);
+  }
+  if (binding.kind === 'link') {
+    if (!property || property === 'type') return binding.link.relationship;
+    return fieldOf(binding.link, property);
+  }
+  if (!property) return describePath(binding.nodeIds, binding.links);
+  if (property === 'length') return binding.links.length;
+  if (property === 'nodes') return binding.nodeIds.join(', ');
+  if (property === 'relationships') return binding.links.map(l => l.relationship).join(', ');
+  return null;
+};
+
+const sameLiteral = (a: Literal, b: Literal): boolean =>
+  typeof a === 'string' && typeof b === 'string' ? a.toLowerCase() === b.toLowerCase() : a === b;
+
+const compare = (left: Literal, op: CompareOp, right: Literal | Literal[]): boolean => {
+  if (op === 'IN') return Array.isArray(right) && right.some(value => sameLiteral(left, value));
+  if (Array.isArray(right) || left === null || right === null) {
+    return op === '=' ? left === right : op === '<>' ? left !== right : false;
+  }
+  const a = typeof left === 'string' ? left.toLowerCase() : left;
+  const b = typeof right === 'string' ? right.toLowerCase() : right;
+  switch (op) {
+    case '=': return a === b;
+    case '<>': return a !== b;
+    case '<': return a < b;
+    case '<=': return a <= b;
+    case '>': return a > b;
+    case '>=': return a >= b;
+    case 'CONTAINS': return String(a).includes(String(b));
+    case 'STARTS WITH': return String(a).startsWith(String(b));
+    case 'ENDS WITH': return String(a).endsWith(String(b));
+    case '=~': {
+      const pattern = String(right).replace(/^\(\?i\)/, '');
+      try {
+        return new RegExp(`^(?:${pattern})$`, 'i').test(String(left));
+      } catch {
+        throw new Error(`Invalid regular expression: ${right}`);
+      }
+    }
+  }
+};
+
+const evaluate = (condition: Condition, row: Row): boolean => {
+  switch (condition.kind) {
+    case 'and': return evaluate(condition.left, row) && evaluate(condition.right, row);
+    case 'or': return evaluate(condition.left, row) || evaluate(condition.right, row);
+    case 'not': return !evaluate(condition.operand, row);
+    case 'compare': {
+      const value = (o: Operand): Literal | Literal[] =>
+        o.kind === 'literal' ? o.value : o.kind === 'list' ? o.values : propertyOf(row.get(o.variable)!, o.property);
+      return compare(value(condition.left) as Literal, condition.op, value(condition.right));
+    }
+  }
+};
+
+const nodeMatches = (pattern: NodePattern, node: GraphNode): boolean =>
+  (!pattern.groups.length || pattern.groups.some(g => normalizeLabel(g) === normalizeLabel(node.group))) &&
+  Object.entries(pattern.properties).every(([key, value]) => {
+    const actual = propertyOf({ kind: 'node', node }, key === 'id' ? undefined : key);
+    return key === 'aliases'
+      ? [node.id, ...(node.aliases || [])].some(name => sameLiteral(name, value))
+      : sameLiteral(actual, value);
+  });
+
+const bindNode = (row: Row, pattern: NodePattern, node: GraphNode): Row | null => {
+  const bound = row.get(pattern.variable);
+  if (bound) return bound.kind === 'node' && bound.node.id === node.id ? row : null;
+  return new Map(row).set(pattern.variable, { kind: 'node', node });
+};
+
+const bindRel = (row: Row, pattern: RelPattern, step: Step): Row => {
+  const binding: Binding = pattern.variableLength
+    ? { kind: 'path', nodeIds: step.nodeIds, links: step.links }
+    : { kind: 'link', link: step.links[0] };
+  return new Map(row).set(pattern.variable, binding);
+};
+
+// Walks from `start` along links allowed by the pattern. Variable-length walks never revisit a node.
+function* expand(ctx: EvaluationContext, pattern: RelPattern, start: GraphNode, used: Set<GraphLink>): Generator<Step> {
+  const types = pattern.types.map(normalizeLabel);
+  const follow = (nodeId: string): { link: GraphLink; next: string }[] =>
+    (ctx.incident.get(nodeId) || []).flatMap(link => {
+      if (used.has(link) || (types.length && !types.includes(normalizeLabel(link.relationship)))) return [];
+      const moves: { link: GraphLink; next: string }[] = [];
+      if (pattern.direction !== 'in' && link.source === nodeId) moves.push({ link, next: link.target });
+      if (pattern.direction !== 'out' && link.target === nodeId && link.source !== link.target) moves.push({ link, next: link.source });
+      return moves;
+    });
+
+  const walk = function* (nodeIds: string[], links: GraphLink[]): Generator<Step> {
+    if (--ctx.budget < 0) throw new Error("The query explores too many paths. Narrow it with groups, relationship types or shorter paths.");
+    if (links.length >= pattern.minHops) yield { nodeIds, links };
+    if (links.length >= pattern.maxHops) return;
+    for (const { link, next } of follow(nodeIds[nodeIds.length - 1])) {
+      if (pattern.variableLength && nodeIds.includes(next)) continue;
+      yield* walk([...nodeIds, next], [...links, link]);
+    }
+  };
+  yield* walk([start.id], []);
+}
+
+function* matchSteps(
+  ctx: EvaluationContext,
+  path: PathPattern,
+  index: number,
+  current: GraphNode,
+  row: Row,
+  used: Set<GraphLink>
+): Generator<[Row, Set<GraphLink>]> {
+  if (index === path.rels.length) {
+    yield [row, used];
+    return;
+  }
+  const rel = path.rels[index];
+  const nextPattern = path.nodes[index + 1];
+  for (const step of expand(ctx, rel, current, used)) {
+    const end = ctx.nodesById.get(step.nodeIds[step.nodeIds.length - 1])!;
+    if (!nodeMatches(nextPattern, end)) continue;
+    const withNode = bindNode(row, nextPattern, end);
+    if (!withNode) continue;
+    yield* matchSteps(ctx, path, index + 1, end, bindRel(withNode, rel, step), new Set([...used, ...step.links]));
+  }
+}
+
+// A relationship is matched at most once per result row, as in Cypher
+function* matchPatterns(ctx: EvaluationContext, patterns: PathPattern[], index: number, row: Row, used: Set<GraphLink>): Generator<Row> {
+  if (index === patterns.length) {
+    yield row;
+    return;
+  }
+  const path = patterns[index];
+  const first = path.nodes[0];
+  const bound = row.get(first.variable);
+  const candidates = bound?.kind === 'node' ? [bound.node] : Array.from(ctx.nodesById.values());
+  for (const node of candidates) {
+    if (!nodeMatches(first, node)) continue;
+    const withNode = bindNode(row, first, node);
+    if (!withNode) continue;
+    for (const [matched, nextUsed] of matchSteps(ctx, path, 0, node, withNode, used)) {
+      yield* matchPatterns(ctx, patterns, index + 1, matched, nextUsed);
+    }
+  }
+}
+
+const cellFor = (binding: Binding, property?: string): QueryCell => {
+  if (binding.kind === 'link' && !property) return { text: describeLink(binding.link) };
+  const value = propertyOf(binding, property);
+  const text = value === null ? '' : String(value);
+  const showsNode = binding.kind === 'node' && (!property || property === 'id' || property === 'name');
+  return showsNode ? { text, nodeId: binding.node.id } : { text };
+};
+
+/**
+ * Runs a parsed query against the graph.
+ */
+export const executeQuery = (graph: KnowledgeGraphData, query: GraphQuery): QueryResult => {
+  const nodesById = new Map(graph.nodes.map(n => [n.id, n]));
+  const incident = new Map<string, GraphLink[]>();
+  graph.links.forEach(link => {
+    if (!nodesById.has(link.source) || !nodesById.has(link.target)) return;
+    [link.source, link.target].forEach(id => {
+      if (!incident.has(id)) incident.set(id, []);
+      if (!incident.get(id)!.includes(link)) incident.get(id)!.push(link);
+    });
+  });
+  const ctx: EvaluationContext = { nodesById, incident, budget: MAX_EXPANSIONS };
+
+  const rows: QueryCell[][] = [];
+  const seen = new Set<string>();
+  const nodeIds = new Set<string>();
+  let truncated = false;
+
+  for (const row of matchPatterns(ctx, query.patterns, 0, new Map(), new Set())) {
+    if (query.where && !evaluate(query.where, row)) continue;
+    const cells = query.returnItems.map(item => cellFor(row.get(item.variable)!, item.property));
+    if (query.distinct) {
+      const key = JSON.stringify(cells.map(c => c.text));
+      if (seen.has(key)) continue;
+      seen.add(key);
+    }
+    if (rows.length >= query.limit) {
+      truncated = true;
+      break;
+    }
+    rows.push(cells);
+    row.forEach(binding => {
+      if (binding.kind === 'node') nodeIds.add(binding.node.id);
+      else if (binding.kind === 'link') [binding.link.source, binding.link.target].forEach(id => nodeIds.add(id));
+      else binding.nodeIds.forEach(id => nodeIds.add(id));
+    });
+  }
+
+  return { columns: query.returnItems.map(item => item.alias), rows, nodeIds, truncated };
+};
+
+/**
+ * Parses and runs a query in one go.
+ */
+export const runQuery = (graph: KnowledgeGraphData, source: string): QueryResult =>
+  executeQuery(graph, parseQuery(source));
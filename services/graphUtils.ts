@@ -0,0 +1,74 @@
+import { KnowledgeGraphData, GraphLink } from "../types";
+
+export interface NodeRelationships {
+  incoming: GraphLink[];
+  outgoing: GraphLink[];
+  neighbors: string[];
+}
+
+/**
+ * Returns the sorted list of distinct node groups in the graph.
+ */
+export const getGroups = (graph: KnowledgeGraphData): string[] =>
+  Array.from(new Set(graph.nodes.map(n => n.group))).sort((a, b) => a.localeCompare(b));
+
+/**
+ * Collects the links touching a node, split by direction, plus its distinct neighbours.
+ */
+export const getNodeRelationships = (graph: KnowledgeGraphData, nodeId: string): NodeRelationships => {
+  const incoming = graph.links.filter(l => l.target === nodeId);
+  const outgoing = graph.links.filter(l => l.source === nodeId);
+  const neighbors = new Set<string>();
+  incoming.forEach(l => neighbors.add(l.source));
+  outgoing.forEach(l => neighbors.add(l.target));
+  neighbors.delete(nodeId);
+
+  return { incoming, outgoing, neighbors: Array.from(neighbors) };
+};
+
+/**
+ * Breadth-first search ignoring edge direction. Returns the ids within `hops` steps of `nodeId`, including itself.
+ */
+export const getNeighborhood = (graph: KnowledgeGraphData, nodeId: string, hops: number): Set<string> => {
+  const adjacency = new Map<string, string[]>();
+  graph.links.forEach(l => {
+    if (!adjacency.has(l.source)) adjacency.set(l.source, []);
+    if (!adjacency.has(l.target)) adjacency.set(l.target, []);
+    adjacency.get(l.source)!.push(l.target);
+    adjacency.get(l.target)!.push(l.source);
+  });
+
+  const visited = new Set<string>([nodeId]);
+  let frontier = [nodeId];
+  for (let depth = 0; depth < hops && frontier.length; depth++) {
+    const next: string[] = [];
+    frontier.forEach(id => {
+      (adjacency.get(id) || []).forEach(neighbor => {
+        if (!visited.has(neighbor)) {
+          visited.add(neighbor);
+          next.push(neighbor);
+        }
+      });
+    });
+    frontier = next;
+  }
+  return visited;
+};
+
+/**
+ * Finds a node by name: exact (case-insensitive) match on id or alias first, then the shortest id containing the query.
+ */
+export const findNodeByName = (graph: KnowledgeGraphData, query: string): string | undefined => {
+  const q = query.trim().toLowerCase();
+  if (!q) return undefined;
+  const exact = graph.nodes.find(n => [n.id, ...(n.aliases || [])].some(name => name.toLowerCase() === q));
+  if (exact) return exact.id;
+  return graph.nodes
+    .filter(n => n.id.toLowerCase().includes(q))
+    .sort((a, b) => a.id.length - b.id.length)[0]?.id;
+};
+
+/**
+ * Identity key for a link. Links have no id of their own; two links are the same fact when all three fields match.
+ */
+export const linkKey = (link: GraphLink): string => `${link.source}-${link.target}-${link.relationship}`;
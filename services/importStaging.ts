@@ -0,0 +1,83 @@
+import { KnowledgeGraphData, GraphNode, GraphLink } from "../types";
+import { createEntityLookup } from "./entityResolution";
+
+export interface StagedNode {
+  node: GraphNode;
+  included: boolean;
+}
+
+export interface StagedLink {
+  link: GraphLink;
+  included: boolean;
+  // Staged entities the endpoints refer to, by index, so renaming an entity in review
+  // carries its links along; unset once an endpoint is edited by hand
+  sourceIndex?: number;
+  targetIndex?: number;
+}
+
+export type StagedNodeStatus = 'new' | 'existing';
+
+export interface StagedLinkStatus {
+  status: 'new' | 'existing' | 'dropped';
+  reason?: string; // Why a dropped link cannot be committed
+}
+
+export const stageExtraction = (extraction: KnowledgeGraphData): { nodes: StagedNode[]; links: StagedLink[] } => {
+  const indexOf = new Map<string, number>();
+  extraction.nodes.forEach((node, i) => { if (!indexOf.has(node.id)) indexOf.set(node.id, i); });
+  return {
+    nodes: extraction.nodes.map(node => ({ node, included: true })),
+    links: extraction.links.map(link => ({
+      link,
+      included: true,
+      sourceIndex: indexOf.get(link.source),
+      targetIndex: indexOf.get(link.target)
+    }))
+  };
+};
+
+/**
+ * The link as it will be committed, with endpoints following renamed staged entities.
+ */
+export const resolveStagedLink = ({ link, sourceIndex, targetIndex }: StagedLink, nodes: StagedNode[]): GraphLink => ({
+  ...link,
+  source: sourceIndex === undefined ? link.source : nodes[sourceIndex].node.id,
+  target: targetIndex === undefined ? link.target : nodes[targetIndex].node.id
+});
+
+/**
+ * Diffs staged items against the current graph, mirroring how `mergeIntoGraph`
+ * will treat them: nodes match by normalized name or alias (`matchedNodes`; an existing
+ * entity keeps its group), and a link is dropped when an endpoint resolves neither to
+ * an existing entity nor to an included staged one.
+ */
+export const classifyStaged = (
+  graph: KnowledgeGraphData,
+  nodes: StagedNode[],
+  links: StagedLink[]
+): { nodeStatus: StagedNodeStatus[]; matchedNodes: Array<GraphNode | undefined>; linkStatus: StagedLinkStatus[] } => {
+  const findExisting = createEntityLookup(graph.nodes);
+  const findStaged = createEntityLookup(nodes.filter(n => n.included).map(n => n.node));
+  const resolve = (name: string) => findExisting(name)?.id || findStaged(name)?.id;
+
+  const existingLinkKeys = new Set(
+    graph.links.map(l => `${l.source.toLowerCase()}|${l.target.toLowerCase()}|${l.relationship.trim().toLowerCase()}`)
+  );
+
+  const matchedNodes = nodes.map(({ node }) => findExisting(node.id));
+  const nodeStatus = matchedNodes.map(match => (match ? 'existing' : 'new') as StagedNodeStatus);
+
+  const linkStatus = links.map((staged): StagedLinkStatus => {
+    const link = resolveStagedLink(staged, nodes);
+    const source = resolve(link.source);
+    const target = resolve(link.target);
+    if (!source) return { status: 'dropped', reason: `Unknown entity "${link.source}"` };
+    if (!target) return { status: 'dropped', reason: `Unknown entity "${link.target}"` };
+    if (source === target) return { status: 'dropped', reason: 'Links an entity to itself' };
+    if (!link.relationship.trim()) return { status: 'dropped', reason: 'Empty relationship' };
+    const key = `${source.toLowerCase()}|${target.toLowerCase()}|${link.relationship.trim().toLowerCase()}`;
+    return { status: existingLinkKeys.has(key) ? 'existing' : 'new' };
+  });
+
+  return { nodeStatus, matchedNodes, linkStatus };
+};
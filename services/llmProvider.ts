@@ -0,0 +1,98 @@
+import { Schema } from "@google/genai";
+import { SourceCitation } from "../types";
+
+export type ProviderId = 'gemini' | 'openai-compatible' | 'mock';
+
+// Tasks that can be routed to different providers/models
+export type LLMTask = 'extraction' | 'solver';
+
+export type PromptPart =
+  | { text: string }
+  | { inlineData: { mimeType: string; data: string } }; // Base64 encoded file
+
+export interface GenerateRequest {
+  task: LLMTask;
+  model: string;
+  systemInstruction: string;
+  parts: PromptPart[];
+  responseSchema?: Schema; // Request JSON output matching this schema
+  webSearch?: boolean; // Ground the answer with web search where the provider supports it
+}
+
+export interface GenerateResponse {
+  text: string;
+  sources: Array<{ title: string; uri: string }>;
+  citations?: SourceCitation[]; // Passages of `text` supported by `sources`, where the provider reports them
+}
+
+export type StreamEvent =
+  | { type: 'status'; status: 'searching' | 'writing' }
+  | { type: 'text'; text: string } // Next piece of the answer
+  | { type: 'sources'; sources: GenerateResponse['sources']; citations?: SourceCitation[] }; // All found so far
+
+export interface StreamOptions {
+  signal?: AbortSignal;
+  onEvent: (event: StreamEvent) => void;
+}
+
+export interface LLMProvider {
+  id: ProviderId;
+  generate: (request: GenerateRequest) => Promise<GenerateResponse>;
+  // Resolves with the full response. When `signal` is aborted it may resolve early or reject.
+  stream: (request: GenerateRequest, options: StreamOptions) => Promise<GenerateResponse>;
+}
+
+export interface TaskModelSettings {
+  provider: ProviderId;
+  model: string;
+}
+
+export interface LLMSettings {
+  tasks: Record<LLMTask, TaskModelSettings>;
+  openAICompatible: {
+    baseUrl: string; // e.g. http://localhost:11434/v1 for Ollama, http://localhost:8080/v1 for llama.cpp
+    apiKey: string;
+  };
+}
+
+export const PROVIDER_LABELS: Record<ProviderId, string> = {
+  'gemini': 'Google Gemini',
+  'openai-compatible': 'OpenAI-compatible (local)',
+  'mock': 'Offline mock'
+};
+
+export const SUGGESTED_MODELS: Record<ProviderId, string[]> = {
+  'gemini': ['gemini-3-flash-preview', 'gemini-3-pro-preview'],
+  'openai-compatible': ['llama3.1', 'qwen2.5', 'mistral'],
+  'mock': ['mock']
+};
+
+export const DEFAULT_LLM_SETTINGS: LLMSettings = {
+  tasks: {
+    extraction: { provider: 'gemini', model: 'gemini-3-flash-preview' },
+    solver: { provider: 'gemini', model: 'gemini-3-pro-preview' }
+  },
+  openAICompatible: {
+    baseUrl: 'http://localhost:11434/v1',
+    apiKey: ''
+  }
+};
+
+const SETTINGS_KEY = "ccsmind.llmSettings";
+
+export const loadLLMSettings = (): LLMSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) || "null");
+    if (!stored) return DEFAULT_LLM_SETTINGS;
+    return {
+      tasks: { ...DEFAULT_LLM_SETTINGS.tasks, ...stored.tasks },
+      openAICompatible: { ...DEFAULT_LLM_SETTINGS.openAICompatible, ...stored.openAICompatible }
+    };
+  } catch {
+    return DEFAULT_LLM_SETTINGS;
+  }
+};
+
+export const saveLLMSettings = (settings: LLMSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
@@ -0,0 +1,250 @@
+import { SourceCitation } from "../types";
+
+// A small Markdown parser for model output. It produces a tree that components render
+// as React elements, so no model-generated HTML ever reaches the page. Supports
+// headings, paragraphs, nested lists, tables, block quotes, fenced code and rules, with
+// bold, italic, inline code and http(s)/mailto links inline.
+
+export type MarkdownInline =
+  | { kind: 'text'; text: string }
+  | { kind: 'strong' | 'em'; children: MarkdownInline[] }
+  | { kind: 'code'; text: string }
+  | { kind: 'link'; href: string; children: MarkdownInline[] }
+  | { kind: 'citation'; sourceIndices: number[] };
+
+export interface MarkdownListItem {
+  text: string;
+  children: MarkdownBlock[];
+}
+
+export type TableAlign = 'left' | 'center' | 'right' | undefined;
+
+export type MarkdownBlock =
+  | { kind: 'heading'; level: number; text: string }
+  | { kind: 'paragraph'; text: string }
+  | { kind: 'list'; ordered: boolean; start: number; items: MarkdownListItem[] }
+  | { kind: 'table'; header: string[]; align: TableAlign[]; rows: string[][] }
+  | { kind: 'quote'; blocks: MarkdownBlock[] }
+  | { kind: 'code'; language?: string; text: string }
+  | { kind: 'rule' };
+
+// Citation markers are spliced into the text before parsing, delimited by private-use
+// characters that cannot occur in model output
+const CITE_OPEN = "\uE000";
+const CITE_CLOSE = "\uE001";
+const CITE_MARKER = /\uE000([\d,]+)\uE001/g;
+
+const HEADING = /^\s{0,3}(#{1,6})\s+(.*?)(\s+#+)?\s*$/;
+const RULE = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const FENCE = /^\s{0,3}(`{3,}|~{3,})\s*([\w+#.-]*)/;
+const QUOTE = /^\s{0,3}>\s?(.*)$/;
+const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const TABLE_DIVIDER = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+const indentOf = (line: string): number => (line.match(/^\s*/)?.[0] ?? "").replace(/\t/g, "    ").length;
+
+const isTableStart = (line: string, next?: string): boolean =>
+  line.includes("|") && next !== undefined && next.includes("-") && TABLE_DIVIDER.test(next) && (next.includes("|") || line.trim().startsWith("|"));
+
+const startsBlock = (line: string, next?: string): boolean =>
+  HEADING.test(line) || FENCE.test(line) || RULE.test(line) || QUOTE.test(line) || LIST_ITEM.test(line) || isTableStart(line, next);
+
+const splitRow = (line: string): string[] =>
+  line.trim().replace(/^\|/, "").replace(/(?<!\\)\|$/, "").split(/(?<!\\)\|/).map(cell => cell.trim().replace(/\\\|/g, "|"));
+
+const dedent = (lines: string[]): string[] => {
+  const indent = Math.min(...lines.filter(l => l.trim()).map(indentOf));
+  return Number.isFinite(indent) ? lines.map(l => l.replace(/\t/g, "    ").slice(indent)) : lines;
+};
+
+const parseList = (lines: string[], start: number): { block: MarkdownBlock; next: number } => {
+  const first = lines[start].match(LIST_ITEM)!;
+  const baseIndent = indentOf(first[1]);
+  const ordered = /\d/.test(first[2]);
+  const isSibling = (line: string) => {
+    const m = line.match(LIST_ITEM);
+    return !!m && indentOf(m[1]) <= baseIndent + 1 && /\d/.test(m[2]) === ordered && !RULE.test(line);
+  };
+
+  const items: Array<{ text: string; body: string[] }> = [];
+  let i = start;
+  while (i < lines.length) {
+    const line = lines[i];
+    if (isSibling(line)) {
+      items.push({ text: line.match(LIST_ITEM)![3], body: [] });
+      i++;
+      continue;
+    }
+    const current = items[items.length - 1];
+    if (!line.trim()) {
+      // Blank lines stay inside the list only if it carries on afterwards
+      let j = i;
+      while (j < lines.length && !lines[j].trim()) j++;
+      if (j === lines.length || !(indentOf(lines[j]) > baseIndent || isSibling(lines[j]))) break;
+      current.body.push("");
+      i++;
+      continue;
+    }
+    if (indentOf(line) > baseIndent) {
+      current.body.push(line);
+    } else if (!current.body.length && !startsBlock(line, lines[i + 1])) {
+      current.text += ` ${line.trim()}`; // Lazy continuation of the item's first line
+    } else {
+      break;
+    }
+    i++;
+  }
+
+  return {
+    block: {
+      kind: 'list',
+      ordered,
+      start: ordered ? parseInt(first[2], 10) : 1,
+      items: items.map(item => ({ text: item.text.trim(), children: parseBlocks(dedent(item.body)) }))
+    },
+    next: i
+  };
+};
+
+const parseBlocks = (lines: string[]): MarkdownBlock[] => {
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      const body: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) body.push(lines[i++]);
+      i++; // Closing fence
+      blocks.push({ kind: 'code', language: fence[2] || undefined, text: body.join("\n").replace(CITE_MARKER, "") });
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      blocks.push({ kind: 'heading', level: heading[1].length, text: heading[2] });
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ kind: 'rule' });
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const body: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) body.push(lines[i++].match(QUOTE)![1]);
+      blocks.push({ kind: 'quote', blocks: parseBlocks(body) });
+      continue;
+    }
+
+    if (isTableStart(line, lines[i + 1])) {
+      const header = splitRow(line);
+      const align = splitRow(lines[i + 1]).map((cell): TableAlign =>
+        cell.startsWith(":") && cell.endsWith(":") ? 'center' : cell.endsWith(":") ? 'right' : cell.startsWith(":") ? 'left' : undefined
+      );
+      const rows: string[][] = [];
+      i += 2;
+      while (i < lines.length && lines[i].trim() && lines[i].includes("|")) {
+        const cells = splitRow(lines[i++]);
+        rows.push(header.map((_, c) => cells[c] ?? ""));
+      }
+      blocks.push({ kind: 'table', header, align, rows });
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      const { block, next } = parseList(lines, i);
+      blocks.push(block);
+      i = next;
+      continue;
+    }
+
+    const text = [line.trim()];
+    i++;
+    while (i < lines.length && lines[i].trim() && !startsBlock(lines[i], lines[i + 1])) text.push(lines[i++].trim());
+    blocks.push({ kind: 'paragraph', text: text.join(" ") });
+  }
+  return blocks;
+};
+
+export const parseMarkdown = (text: string): MarkdownBlock[] => parseBlocks(text.replace(/\r\n?/g, "\n").split("\n"));
+
+// Only these schemes become clickable; anything else (javascript:, data:, ...) stays text
+export const isSafeHref = (href: string): boolean => /^(https?:\/\/|mailto:)/i.test(href);
+
+const INLINE = new RegExp([
+  /(`+)([^`]|[^`][\s\S]*?[^`])\1(?!`)/.source, // 1-2: code
+  /\*\*(?=\S)([\s\S]*?\S)\*\*/.source, // 3: strong
+  /__(?=\S)([\s\S]*?\S)__(?!\w)/.source, // 4: strong
+  /\*(?=[^\s*])([\s\S]*?[^\s*])\*/.source, // 5: em
+  /(?<!\w)_(?=[^\s_])([\s\S]*?[^\s_])_(?!\w)/.source, // 6: em
+  /\[((?:[^\]\\]|\\.)+)\]\(\s*<?([^\s)>]+)>?(?:\s+"[^"]*")?\s*\)/.source, // 7-8: link
+  /\uE000([\d,]+)\uE001/.source, // 9: citation
+  /<(https?:\/\/[^>\s]+)>/.source, // 10: autolink
+  /(https?:\/\/[^\s<>()]+[^\s<>().,;:!?'"*_])/.source // 11: bare URL
+].join("|"), "g");
+
+export const parseInline = (text: string): MarkdownInline[] => {
+  const nodes: MarkdownInline[] = [];
+  const pushText = (raw: string) => {
+    if (!raw) return;
+    const value = raw.replace(/\\([\\`*_[\]()#+\-.!|])/g, "$1"); // Backslash escapes
+    const last = nodes[nodes.length - 1];
+    if (last?.kind === 'text') last.text += value;
+    else nodes.push({ kind: 'text', text: value });
+  };
+
+  let cursor = 0;
+  for (const m of text.matchAll(INLINE)) {
+    pushText(text.slice(cursor, m.index));
+    cursor = m.index! + m[0].length;
+    if (m[2] !== undefined) nodes.push({ kind: 'code', text: m[2].trim().replace(CITE_MARKER, "") });
+    else if (m[3] !== undefined || m[4] !== undefined) nodes.push({ kind: 'strong', children: parseInline(m[3] ?? m[4]) });
+    else if (m[5] !== undefined || m[6] !== undefined) nodes.push({ kind: 'em', children: parseInline(m[5] ?? m[6]) });
+    else if (m[7] !== undefined) {
+      const children = parseInline(m[7]);
+      const href = m[8].replace(CITE_MARKER, "");
+      if (isSafeHref(href)) nodes.push({ kind: 'link', href, children });
+      else nodes.push(...children);
+    } else if (m[9] !== undefined) nodes.push({ kind: 'citation', sourceIndices: m[9].split(",").map(Number) });
+    else {
+      const href = m[10] ?? m[11];
+      nodes.push({ kind: 'link', href, children: [{ kind: 'text', text: href }] });
+    }
+  }
+  pushText(text.slice(cursor));
+  return nodes;
+};
+
+/**
+ * Marks where each cited passage ends in the text, so the parser can place a citation
+ * there. Passages are looked up in order; ones that can't be found (e.g. reworded by
+ * post-processing) are skipped, and markers at the same spot are combined.
+ */
+export const insertCitationMarkers = (text: string, citations: SourceCitation[] = []): string => {
+  const markers = new Map<number, Set<number>>();
+  let cursor = 0;
+  citations.forEach(citation => {
+    let start = text.indexOf(citation.text, cursor);
+    if (start === -1) start = text.indexOf(citation.text);
+    if (start === -1) return;
+    const end = start + citation.text.length;
+    cursor = end;
+    if (!markers.has(end)) markers.set(end, new Set());
+    citation.sourceIndices.forEach(i => markers.get(end)!.add(i));
+  });
+
+  return Array.from(markers)
+    .sort((a, b) => b[0] - a[0])
+    .reduce((out, [at, indices]) =>
+      `${out.slice(0, at)}${CITE_OPEN}${Array.from(indices).sort((a, b) => a - b).join(",")}${CITE_CLOSE}${out.slice(at)}`, text);
+};
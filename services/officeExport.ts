@@ -0,0 +1,469 @@
+import { MarkdownBlock, MarkdownInline, isSafeHref, parseInline } from "./markdown";
+import { ScenarioReport, citationLabel, formatReportDate, inlineToText } from "./report";
+import { createZip } from "./zip";
+
+// Office Open XML (.docx, .xlsx) generation for scenario reports. Both are zip packages
+// of XML parts; only the parts the formats require are written.
+
+export const DOCX_MIME = "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+export const XLSX_MIME = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+const REL_NS = "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+const PACKAGE_REL_NS = "http://schemas.openxmlformats.org/package/2006/relationships";
+const HYPERLINK_REL = `${REL_NS}/hyperlink`;
+
+// Excel rejects longer cell values
+const MAX_CELL_LENGTH = 32767;
+
+// Control characters are not allowed anywhere in XML 1.0
+const escapeXml = (value: string) =>
+  value
+    .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F\uFFFE\uFFFF]/g, "")
+    .replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const corePropertiesPart = (report: ScenarioReport) => [
+  XML_HEADER,
+  '<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">',
+  `<dc:title>${escapeXml(report.title)}</dc:title>`,
+  `<dc:subject>${escapeXml(report.scenario.slice(0, 255))}</dc:subject>`,
+  `<dcterms:created xsi:type="dcterms:W3CDTF">${new Date(report.createdAt).toISOString().replace(/\.\d+Z$/, "Z")}</dcterms:created>`,
+  '</cp:coreProperties>'
+].join("");
+
+const contentTypesPart = (overrides: Array<[string, string]>) => [
+  XML_HEADER,
+  '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">',
+  '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>',
+  '<Default Extension="xml" ContentType="application/xml"/>',
+  ...overrides.map(([part, type]) => `<Override PartName="${part}" ContentType="${type}"/>`),
+  '<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>',
+  '</Types>'
+].join("");
+
+const relationshipsPart = (rels: Array<{ id: string; type: string; target: string; external?: boolean }>) => [
+  XML_HEADER,
+  `<Relationships xmlns="${PACKAGE_REL_NS}">`,
+  ...rels.map(r => `<Relationship Id="${r.id}" Type="${r.type}" Target="${escapeXml(r.target)}"${r.external ? ' TargetMode="External"' : ""}/>`),
+  '</Relationships>'
+].join("");
+
+const packageRels = (mainPart: string) => relationshipsPart([
+  { id: "rId1", type: `${REL_NS}/officeDocument`, target: mainPart },
+  { id: "rId2", type: `${PACKAGE_REL_NS}/metadata/core-properties`, target: "docProps/core.xml" }
+]);
+
+// ---------------------------------------------------------------------------
+// Word
+
+const WORD_NS = "http://schemas.openxmlformats.org/wordprocessingml/2006/main";
+
+// Widths in twentieths of a point; A4 with 2cm margins leaves 9638 for text
+const PAGE_TEXT_WIDTH = 9638;
+
+const WORD_STYLES = [
+  XML_HEADER,
+  `<w:styles xmlns:w="${WORD_NS}">`,
+  '<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:eastAsia="Calibri" w:cs="Calibri"/><w:sz w:val="22"/><w:szCs w:val="22"/><w:lang w:val="en-US"/></w:rPr></w:rPrDefault>',
+  '<w:pPrDefault><w:pPr><w:spacing w:after="120" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>',
+  '<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>',
+  '<w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:spacing w:before="2400" w:after="240"/></w:pPr><w:rPr><w:b/><w:color w:val="1E293B"/><w:sz w:val="56"/><w:szCs w:val="56"/></w:rPr></w:style>',
+  '<w:style w:type="paragraph" w:styleId="Subtitle"><w:name w:val="Subtitle"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:rPr><w:color w:val="475569"/><w:sz w:val="28"/><w:szCs w:val="28"/></w:rPr></w:style>',
+  ...[[1, 32, 360], [2, 28, 280], [3, 24, 240], [4, 22, 200]].map(([level, size, before]) =>
+    `<w:style w:type="paragraph" w:styleId="Heading${level}"><w:name w:val="heading ${level}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:keepNext/><w:spacing w:before="${before}" w:after="120"/><w:outlineLvl w:val="${level - 1}"/></w:pPr><w:rPr><w:b/><w:color w:val="1E3A8A"/><w:sz w:val="${size}"/><w:szCs w:val="${size}"/></w:rPr></w:style>`),
+  '<w:style w:type="paragraph" w:styleId="ListParagraph"><w:name w:val="List Paragraph"/><w:basedOn w:val="Normal"/><w:qFormat/><w:pPr><w:spacing w:after="60"/><w:contextualSpacing/></w:pPr></w:style>',
+  '<w:style w:type="paragraph" w:styleId="Quote"><w:name w:val="Quote"/><w:basedOn w:val="Normal"/><w:qFormat/><w:pPr><w:ind w:left="567"/><w:pBdr><w:left w:val="single" w:sz="12" w:space="8" w:color="CBD5E1"/></w:pBdr></w:pPr><w:rPr><w:i/><w:color w:val="475569"/></w:rPr></w:style>',
+  '<w:style w:type="paragraph" w:styleId="Code"><w:name w:val="Code"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:after="0" w:line="240" w:lineRule="auto"/><w:shd w:val="clear" w:color="auto" w:fill="F1F5F9"/></w:pPr><w:rPr><w:rFonts w:ascii="Consolas" w:hAnsi="Consolas" w:cs="Consolas"/><w:sz w:val="19"/></w:rPr></w:style>',
+  '<w:style w:type="character" w:styleId="Hyperlink"><w:name w:val="Hyperlink"/><w:rPr><w:color w:val="2563EB"/><w:u w:val="single"/></w:rPr></w:style>',
+  '<w:style w:type="table" w:default="1" w:styleId="TableNormal"><w:name w:val="Normal Table"/><w:tblPr><w:tblInd w:w="0" w:type="dxa"/><w:tblCellMar><w:top w:w="0" w:type="dxa"/><w:left w:w="108" w:type="dxa"/><w:bottom w:w="0" w:type="dxa"/><w:right w:w="108" w:type="dxa"/></w:tblCellMar></w:tblPr></w:style>',
+  '<w:style w:type="table" w:styleId="ReportTable"><w:name w:val="Report Table"/><w:basedOn w:val="TableNormal"/><w:pPr><w:spacing w:before="40" w:after="40"/></w:pPr><w:rPr><w:sz w:val="20"/><w:szCs w:val="20"/></w:rPr><w:tblPr><w:tblBorders>',
+  ...["top", "left", "bottom", "right", "insideH", "insideV"].map(side => `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="CBD5E1"/>`),
+  '</w:tblBorders></w:tblPr><w:tblStylePr w:type="firstRow"><w:rPr><w:b/></w:rPr><w:tcPr><w:shd w:val="clear" w:color="auto" w:fill="E2E8F0"/></w:tcPr></w:tblStylePr></w:style>',
+  '</w:styles>'
+].join("");
+
+const BULLETS = ["•", "◦", "▪"];
+const LIST_LEVELS = 9;
+
+const listLevel = (ilvl: number, ordered: boolean) => {
+  const indent = 360 * (ilvl + 1) + 360;
+  const format = ordered
+    ? `<w:numFmt w:val="${["decimal", "lowerLetter", "lowerRoman"][ilvl % 3]}"/><w:lvlText w:val="%${ilvl + 1}."/>`
+    : `<w:numFmt w:val="bullet"/><w:lvlText w:val="${BULLETS[ilvl % BULLETS.length]}"/>`;
+  return `<w:lvl w:ilvl="${ilvl}"><w:start w:val="1"/>${format}<w:lvlJc w:val="left"/><w:pPr><w:ind w:left="${indent}" w:hanging="360"/></w:pPr></w:lvl>`;
+};
+
+interface WordInlineFormat {
+  bold?: boolean;
+  italic?: boolean;
+  code?: boolean;
+  link?: boolean;
+}
+
+/**
+ * Accumulates body XML along with what it refers to: external hyperlink relationships
+ * and one numbering instance per ordered list, so each list restarts at its own start.
+ */
+class WordWriter {
+  readonly body: string[] = [];
+  private readonly links = new Map<string, string>();
+  private readonly orderedLists: Array<{ ilvl: number; start: number }> = [];
+
+  constructor(private readonly sourceCount: number) {}
+
+  linkId(href: string): string {
+    if (!this.links.has(href)) this.links.set(href, `rIdLink${this.links.size + 1}`);
+    return this.links.get(href)!;
+  }
+
+  // Numbering id 1 is the shared bullet list; ordered lists get 2, 3, ...
+  orderedList(ilvl: number, start: number): number {
+    this.orderedLists.push({ ilvl, start });
+    return this.orderedLists.length + 1;
+  }
+
+  run(text: string, format: WordInlineFormat = {}, extra = ""): string {
+    const props = [
+      format.link ? '<w:rStyle w:val="Hyperlink"/>' : "",
+      format.code ? '<w:rFonts w:ascii="Consolas" w:hAnsi="Consolas" w:cs="Consolas"/><w:shd w:val="clear" w:color="auto" w:fill="F1F5F9"/>' : "",
+      format.bold ? "<w:b/>" : "",
+      format.italic ? "<w:i/>" : "",
+      extra
+    ].join("");
+    return `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ""}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+  }
+
+  inline(nodes: MarkdownInline[], format: WordInlineFormat = {}): string {
+    return nodes.map(node => {
+      switch (node.kind) {
+        case 'text': return this.run(node.text, format);
+        case 'code': return this.run(node.text, { ...format, code: true });
+        case 'strong': return this.inline(node.children, { ...format, bold: true });
+        case 'em': return this.inline(node.children, { ...format, italic: true });
+        case 'link':
+          return `<w:hyperlink r:id="${this.linkId(node.href)}" w:history="1">${this.inline(node.children, { ...format, link: true })}</w:hyperlink>`;
+        case 'citation': {
+          // Jumps to the source's row in the Sources table
+          const known = node.sourceIndices.filter(i => i < this.sourceCount);
+          if (!known.length) return "";
+          return `<w:hyperlink w:anchor="source_${known[0] + 1}">${this.run(citationLabel(known), format, '<w:vertAlign w:val="superscript"/><w:color w:val="2563EB"/>')}</w:hyperlink>`;
+        }
+      }
+    }).join("");
+  }
+
+  paragraph(content: string, props = ""): void {
+    this.body.push(`<w:p>${props ? `<w:pPr>${props}</w:pPr>` : ""}${content}</w:p>`);
+  }
+
+  styled(style: string, content: string, extraProps = ""): void {
+    this.paragraph(content, `<w:pStyle w:val="${style}"/>${extraProps}`);
+  }
+
+  blocks(blocks: MarkdownBlock[], headingOffset: number, ilvl = 0, quoted = false): void {
+    blocks.forEach(block => {
+      switch (block.kind) {
+        case 'heading':
+          this.styled(`Heading${Math.min(block.level + headingOffset, 4)}`, this.inline(parseInline(block.text)));
+          break;
+        case 'paragraph':
+          this.styled(quoted ? "Quote" : "Normal", this.inline(parseInline(block.text)));
+          break;
+        case 'list': {
+          const numId = block.ordered ? this.orderedList(ilvl, block.start) : 1;
+          const level = Math.min(ilvl, LIST_LEVELS - 1);
+          block.items.forEach(item => {
+            this.styled("ListParagraph", this.inline(parseInline(item.text)), `<w:numPr><w:ilvl w:val="${level}"/><w:numId w:val="${numId}"/></w:numPr>`);
+            this.blocks(item.children, headingOffset, ilvl + 1, quoted);
+          });
+          break;
+        }
+        case 'table':
+          this.table(block.header.map(cell => this.inline(parseInline(cell))), block.rows.map(row => row.map(cell => this.inline(parseInline(cell)))));
+          break;
+        case 'quote':
+          this.blocks(block.blocks, headingOffset, ilvl, true);
+          break;
+        case 'code':
+          block.text.split("\n").forEach(line => this.styled("Code", this.run(line)));
+          this.paragraph("");
+          break;
+        case 'rule':
+          this.paragraph("", '<w:pBdr><w:bottom w:val="single" w:sz="6" w:space="1" w:color="CBD5E1"/></w:pBdr>');
+          break;
+      }
+    });
+  }
+
+  /**
+   * Header and cells are run XML; widths are relative weights for the columns.
+   */
+  table(header: string[], rows: string[][], weights: number[] = header.map(() => 1)): void {
+    const total = weights.reduce((sum, w) => sum + w, 0);
+    const widths = weights.map(w => Math.floor(PAGE_TEXT_WIDTH * w / total));
+    const row = (cells: string[], isHeader: boolean) =>
+      `<w:tr>${isHeader ? "<w:trPr><w:tblHeader/></w:trPr>" : ""}${cells.map((cell, c) =>
+        `<w:tc><w:tcPr><w:tcW w:w="${widths[c]}" w:type="dxa"/></w:tcPr><w:p>${cell}</w:p></w:tc>`).join("")}</w:tr>`;
+    this.body.push([
+      '<w:tbl><w:tblPr><w:tblStyle w:val="ReportTable"/><w:tblW w:w="5000" w:type="pct"/><w:tblLook w:val="0020" w:firstRow="1" w:lastRow="0" w:firstColumn="0" w:lastColumn="0" w:noHBand="1" w:noVBand="1"/></w:tblPr>',
+      `<w:tblGrid>${widths.map(w => `<w:gridCol w:w="${w}"/>`).join("")}</w:tblGrid>`,
+      row(header, true),
+      ...rows.map(cells => row(cells, false)),
+      '</w:tbl>'
+    ].join(""));
+    this.paragraph(""); // Keeps consecutive tables apart
+  }
+
+  numberingPart(): string {
+    return [
+      XML_HEADER,
+      `<w:numbering xmlns:w="${WORD_NS}">`,
+      `<w:abstractNum w:abstractNumId="0"><w:multiLevelType w:val="hybridMultilevel"/>${Array.from({ length: LIST_LEVELS }, (_, i) => listLevel(i, false)).join("")}</w:abstractNum>`,
+      `<w:abstractNum w:abstractNumId="1"><w:multiLevelType w:val="hybridMultilevel"/>${Array.from({ length: LIST_LEVELS }, (_, i) => listLevel(i, true)).join("")}</w:abstractNum>`,
+      '<w:num w:numId="1"><w:abstractNumId w:val="0"/></w:num>',
+      ...this.orderedLists.map((list, i) =>
+        `<w:num w:numId="${i + 2}"><w:abstractNumId w:val="1"/><w:lvlOverride w:ilvl="${Math.min(list.ilvl, LIST_LEVELS - 1)}"><w:startOverride w:val="${list.start}"/></w:lvlOverride></w:num>`),
+      '</w:numbering>'
+    ].join("");
+  }
+
+  relationshipsPart(): string {
+    return relationshipsPart([
+      { id: "rIdStyles", type: `${REL_NS}/styles`, target: "styles.xml" },
+      { id: "rIdNumbering", type: `${REL_NS}/numbering`, target: "numbering.xml" },
+      ...Array.from(this.links, ([href, id]) => ({ id, type: HYPERLINK_REL, target: href, external: true }))
+    ]);
+  }
+}
+
+const textRuns = (writer: WordWriter, text: string) => writer.inline(parseInline(text));
+
+/**
+ * Builds a Word document: a title page, then the summary, the write-up with its
+ * headings, lists and tables, the action steps, risks, assumptions and a table of
+ * sources that citations link to.
+ */
+export const reportToDocx = (report: ScenarioReport): Blob => {
+  const w = new WordWriter(report.sources.length);
+
+  w.styled("Title", w.run(report.title));
+  w.styled("Subtitle", w.run(report.scenario));
+  w.paragraph(w.run(`Generated ${formatReportDate(report)}`, {}, '<w:color w:val="64748B"/>'));
+  if (report.partial) w.paragraph(w.run("Generation was stopped early; this report is partial.", { italic: true }, '<w:color w:val="B45309"/>'));
+  w.paragraph('<w:r><w:br w:type="page"/></w:r>');
+
+  if (report.summary) {
+    w.styled("Heading1", w.run("Summary"));
+    w.paragraph(textRuns(w, report.summary));
+  }
+
+  if (report.body.length) {
+    w.styled("Heading1", w.run("Analysis"));
+    w.blocks(report.body, 1);
+  }
+
+  if (report.steps.length) {
+    w.styled("Heading1", w.run("Action Steps"));
+    w.table(
+      ["#", "Step", "Owner", "Priority", "Timeline"].map(h => w.run(h)),
+      report.steps.map((step, i) => [
+        w.run(String(i + 1)),
+        w.run(step.title, { bold: true }) + (step.description ? `<w:r><w:br/></w:r>${textRuns(w, step.description)}` : ""),
+        w.run(step.owner || ""),
+        w.run(step.priority),
+        w.run(step.timeline || "")
+      ]),
+      [0.5, 5, 1.5, 1.2, 1.5]
+    );
+  }
+
+  if (report.risks.length) {
+    w.styled("Heading1", w.run("Risks"));
+    w.table(["Risk", "Mitigation"].map(h => w.run(h)), report.risks.map(r => [textRuns(w, r.risk), textRuns(w, r.mitigation)]));
+  }
+
+  if (report.assumptions.length) {
+    w.styled("Heading1", w.run("Assumptions"));
+    report.assumptions.forEach(a => w.styled("ListParagraph", textRuns(w, a), '<w:numPr><w:ilvl w:val="0"/><w:numId w:val="1"/></w:numPr>'));
+  }
+
+  if (report.sources.length) {
+    w.styled("Heading1", w.run("Sources"));
+    w.table(
+      ["#", "Title", "Link"].map(h => w.run(h)),
+      report.sources.map((s, i) => [
+        `<w:bookmarkStart w:id="${i}" w:name="source_${s.number}"/>${w.run(String(s.number))}<w:bookmarkEnd w:id="${i}"/>`,
+        w.run(s.title),
+        // Only http(s) and mailto sources become links; anything else is listed as text
+        isSafeHref(s.uri) ? `<w:hyperlink r:id="${w.linkId(s.uri)}" w:history="1">${w.run(s.uri, { link: true })}</w:hyperlink>` : w.run(s.uri)
+      ]),
+      [0.5, 4, 5]
+    );
+  }
+
+  const document = [
+    XML_HEADER,
+    `<w:document xmlns:w="${WORD_NS}" xmlns:r="${REL_NS}"><w:body>`,
+    ...w.body,
+    '<w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1134" w:right="1134" w:bottom="1134" w:left="1134" w:header="709" w:footer="709" w:gutter="0"/></w:sectPr>',
+    '</w:body></w:document>'
+  ].join("");
+
+  return createZip([
+    {
+      path: "[Content_Types].xml",
+      content: contentTypesPart([
+        ["/word/document.xml", "application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"],
+        ["/word/styles.xml", "application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"],
+        ["/word/numbering.xml", "application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml"]
+      ])
+    },
+    { path: "_rels/.rels", content: packageRels("word/document.xml") },
+    { path: "docProps/core.xml", content: corePropertiesPart(report) },
+    { path: "word/document.xml", content: document },
+    { path: "word/styles.xml", content: WORD_STYLES },
+    { path: "word/numbering.xml", content: w.numberingPart() },
+    { path: "word/_rels/document.xml.rels", content: w.relationshipsPart() }
+  ], DOCX_MIME);
+};
+
+// ---------------------------------------------------------------------------
+// Excel
+
+const SHEET_NS = "http://schemas.openxmlformats.org/spreadsheetml/2006/main";
+
+// Cell style indices into cellXfs below
+const STYLE_HEADER = 1;
+const STYLE_WRAP = 2;
+const STYLE_LINK = 3;
+
+const XLSX_STYLES = [
+  XML_HEADER,
+  `<styleSheet xmlns="${SHEET_NS}">`,
+  '<fonts count="3"><font><sz val="11"/><name val="Calibri"/><family val="2"/></font><font><b/><sz val="11"/><name val="Calibri"/><family val="2"/></font><font><u/><sz val="11"/><color rgb="FF2563EB"/><name val="Calibri"/><family val="2"/></font></fonts>',
+  '<fills count="3"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill><fill><patternFill patternType="solid"><fgColor rgb="FFE2E8F0"/><bgColor indexed="64"/></patternFill></fill></fills>',
+  '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>',
+  '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>',
+  '<cellXfs count="4">',
+  '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>',
+  '<xf numFmtId="0" fontId="1" fillId="2" borderId="0" xfId="0" applyFont="1" applyFill="1"/>',
+  '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0" applyAlignment="1"><alignment vertical="top" wrapText="1"/></xf>',
+  '<xf numFmtId="0" fontId="2" fillId="0" borderId="0" xfId="0" applyFont="1" applyAlignment="1"><alignment vertical="top"/></xf>',
+  '</cellXfs>',
+  '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>',
+  '</styleSheet>'
+].join("");
+
+type SheetCell = string | number | { text: string; href: string };
+
+interface SheetSpec {
+  name: string;
+  columns: Array<{ header: string; width: number }>;
+  rows: SheetCell[][];
+}
+
+const columnName = (index: number): string => {
+  let name = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) name = String.fromCharCode(65 + (n - 1) % 26) + name;
+  return name;
+};
+
+const sheetParts = (sheet: SheetSpec): { xml: string; rels: string } => {
+  const links: Array<{ ref: string; href: string }> = [];
+  const cell = (value: SheetCell, ref: string, style: number) => {
+    if (typeof value === 'number') return `<c r="${ref}" s="${style}"><v>${value}</v></c>`;
+    if (typeof value === 'object') {
+      links.push({ ref, href: value.href });
+      return `<c r="${ref}" s="${STYLE_LINK}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(value.text.slice(0, MAX_CELL_LENGTH))}</t></is></c>`;
+    }
+    return `<c r="${ref}" s="${style}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(value.slice(0, MAX_CELL_LENGTH))}</t></is></c>`;
+  };
+  const lastRef = `${columnName(sheet.columns.length - 1)}${sheet.rows.length + 1}`;
+
+  const xml = [
+    XML_HEADER,
+    `<worksheet xmlns="${SHEET_NS}" xmlns:r="${REL_NS}">`,
+    `<dimension ref="A1:${lastRef}"/>`,
+    '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>',
+    `<cols>${sheet.columns.map((col, i) => `<col min="${i + 1}" max="${i + 1}" width="${col.width}" customWidth="1"/>`).join("")}</cols>`,
+    '<sheetData>',
+    `<row r="1">${sheet.columns.map((col, i) => cell(col.header, `${columnName(i)}1`, STYLE_HEADER)).join("")}</row>`,
+    ...sheet.rows.map((row, r) =>
+      `<row r="${r + 2}">${row.map((value, c) => cell(value, `${columnName(c)}${r + 2}`, STYLE_WRAP)).join("")}</row>`),
+    '</sheetData>',
+    `<autoFilter ref="A1:${lastRef}"/>`,
+    links.length ? `<hyperlinks>${links.map((l, i) => `<hyperlink ref="${l.ref}" r:id="rId${i + 1}"/>`).join("")}</hyperlinks>` : "",
+    '</worksheet>'
+  ].join("");
+
+  return { xml, rels: relationshipsPart(links.map((l, i) => ({ id: `rId${i + 1}`, type: HYPERLINK_REL, target: l.href, external: true }))) };
+};
+
+/**
+ * Builds a workbook with one sheet for the action steps and one for the sources.
+ */
+export const reportToXlsx = (report: ScenarioReport): Blob => {
+  const sheets: SheetSpec[] = [
+    {
+      name: "Steps",
+      columns: [
+        { header: "#", width: 5 }, { header: "Step", width: 40 }, { header: "Description", width: 60 },
+        { header: "Owner", width: 18 }, { header: "Priority", width: 10 }, { header: "Timeline", width: 16 },
+        { header: "Entities", width: 30 }, { header: "Done", width: 8 }
+      ],
+      rows: report.steps.map((step, i) => [
+        i + 1,
+        step.title,
+        inlineToText(parseInline(step.description || "")),
+        step.owner || "",
+        step.priority,
+        step.timeline || "",
+        step.nodeIds.join(", "),
+        step.done ? "Yes" : "No"
+      ])
+    },
+    {
+      name: "Sources",
+      columns: [{ header: "#", width: 5 }, { header: "Title", width: 50 }, { header: "URL", width: 70 }],
+      rows: report.sources.map(s => [s.number, s.title, isSafeHref(s.uri) ? { text: s.uri, href: s.uri } : s.uri])
+    }
+  ];
+  const parts = sheets.map(sheetParts);
+
+  const workbook = [
+    XML_HEADER,
+    `<workbook xmlns="${SHEET_NS}" xmlns:r="${REL_NS}"><sheets>`,
+    ...sheets.map((sheet, i) => `<sheet name="${sheet.name}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`),
+    '</sheets>',
+    // Lets the autoFilter ranges show their dropdowns
+    `<definedNames>${sheets.map((sheet, i) =>
+      `<definedName name="_xlnm._FilterDatabase" localSheetId="${i}" hidden="1">'${sheet.name}'!$A$1:$${columnName(sheet.columns.length - 1)}$${sheet.rows.length + 1}</definedName>`).join("")}</definedNames>`,
+    '</workbook>'
+  ].join("");
+
+  return createZip([
+    {
+      path: "[Content_Types].xml",
+      content: contentTypesPart([
+        ["/xl/workbook.xml", "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"],
+        ["/xl/styles.xml", "application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"],
+        ...sheets.map((_, i): [string, string] => [`/xl/worksheets/sheet${i + 1}.xml`, "application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"])
+      ])
+    },
+    { path: "_rels/.rels", content: packageRels("xl/workbook.xml") },
+    { path: "docProps/core.xml", content: corePropertiesPart(report) },
+    { path: "xl/workbook.xml", content: workbook },
+    {
+      path: "xl/_rels/workbook.xml.rels",
+      content: relationshipsPart([
+        ...sheets.map((_, i) => ({ id: `rId${i + 1}`, type: `${REL_NS}/worksheet`, target: `worksheets/sheet${i + 1}.xml` })),
+        { id: `rId${sheets.length + 1}`, type: `${REL_NS}/styles`, target: "styles.xml" }
+      ])
+    },
+    { path: "xl/styles.xml", content: XLSX_STYLES },
+    ...parts.flatMap((part, i) => [
+      { path: `xl/worksheets/sheet${i + 1}.xml`, content: part.xml },
+      { path: `xl/worksheets/_rels/sheet${i + 1}.xml.rels`, content: part.rels }
+    ])
+  ], XLSX_MIME);
+};
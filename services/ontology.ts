@@ -0,0 +1,169 @@
+import { GraphLink, KnowledgeGraphData, Ontology, RelationshipType } from "../types";
+import { normalizeEntityKey, levenshtein } from "./entityResolution";
+import { getGroups, linkKey } from "./graphUtils";
+import { mergeProvenance } from "./provenance";
+import { mergeDetails } from "./properties";
+import { weighFact } from "./confidence";
+
+export type OntologyIssue =
+  | { kind: 'unknown-entity-type'; value: string; nodeIds: string[]; suggestion?: string }
+  | { kind: 'unknown-relationship-type'; value: string; links: GraphLink[]; suggestion?: string }
+  | { kind: 'domain' | 'range'; relationship: string; group: string; links: GraphLink[] };
+
+// Lowest similarity at which a free-form label is suggested as a known type
+const SUGGESTION_THRESHOLD = 0.6;
+
+export const EMPTY_ONTOLOGY: Ontology = { entityTypes: [], relationshipTypes: [] };
+
+/**
+ * Comparison key for type names: case, punctuation and a plural ending are ignored, so
+ * "technologies" and "Technology" or "part_of" and "Part Of" are the same type.
+ */
+const typeKey = (name: string): string =>
+  normalizeEntityKey(name).replace(/ies$/, "y").replace(/([^s])s$/, "$1");
+
+const closest = (value: string, names: string[]): string | undefined => {
+  const key = typeKey(value);
+  let best: { name: string; score: number } | undefined;
+  names.forEach(name => {
+    const other = typeKey(name);
+    const score = key === other ? 1
+      : key.includes(other) || other.includes(key) ? 0.8
+      : 1 - levenshtein(key, other) / Math.max(key.length, other.length, 1);
+    if (score >= SUGGESTION_THRESHOLD && (!best || score > best.score)) best = { name, score };
+  });
+  return best?.name;
+};
+
+/**
+ * The ontology's entity type for a group label, if it names one.
+ */
+export const matchEntityType = (ontology: Ontology, group: string): string | undefined =>
+  ontology.entityTypes.find(t => typeKey(t.name) === typeKey(group))?.name;
+
+export const matchRelationshipType = (ontology: Ontology, relationship: string): RelationshipType | undefined =>
+  ontology.relationshipTypes.find(t => typeKey(t.name) === typeKey(relationship));
+
+/**
+ * Lists the nodes and links that break the ontology: groups and relationship labels it
+ * doesn't define, and relationships whose endpoints fall outside the type's domain or range.
+ * Issues are grouped by the offending label, most widespread first.
+ */
+export const validateGraph = (graph: KnowledgeGraphData, ontology: Ontology): OntologyIssue[] => {
+  const issues: OntologyIssue[] = [];
+  const entityTypeNames = ontology.entityTypes.map(t => t.name);
+  const groupOf = new Map(graph.nodes.map(n => [n.id, matchEntityType(ontology, n.group) ?? n.group]));
+
+  if (entityTypeNames.length) {
+    const unknown = new Map<string, string[]>();
+    graph.nodes.forEach(n => {
+      if (matchEntityType(ontology, n.group) !== n.group) {
+        unknown.set(n.group, [...(unknown.get(n.group) || []), n.id]);
+      }
+    });
+    unknown.forEach((nodeIds, value) => issues.push({
+      kind: 'unknown-entity-type', value, nodeIds, suggestion: closest(value, entityTypeNames)
+    }));
+  }
+
+  if (ontology.relationshipTypes.length) {
+    const unknown = new Map<string, GraphLink[]>();
+    const outside = new Map<string, { kind: 'domain' | 'range'; relationship: string; group: string; links: GraphLink[] }>();
+    const flag = (kind: 'domain' | 'range', relationship: string, group: string, link: GraphLink) => {
+      const key = `${kind}|${relationship}|${group}`;
+      if (!outside.has(key)) outside.set(key, { kind, relationship, group, links: [] });
+      outside.get(key)!.links.push(link);
+    };
+
+    graph.links.forEach(l => {
+      const type = matchRelationshipType(ontology, l.relationship);
+      if (!type || type.name !== l.relationship) {
+        unknown.set(l.relationship, [...(unknown.get(l.relationship) || []), l]);
+      }
+      if (!type) return;
+      const sourceGroup = groupOf.get(l.source);
+      const targetGroup = groupOf.get(l.target);
+      if (type.domain.length && sourceGroup && !type.domain.includes(sourceGroup)) flag('domain', type.name, sourceGroup, l);
+      if (type.range.length && targetGroup && !type.range.includes(targetGroup)) flag('range', type.name, targetGroup, l);
+    });
+
+    const relationshipNames = ontology.relationshipTypes.map(t => t.name);
+    unknown.forEach((links, value) => issues.push({
+      kind: 'unknown-relationship-type', value, links, suggestion: closest(value, relationshipNames)
+    }));
+    outside.forEach(issue => issues.push(issue));
+  }
+
+  const size = (issue: OntologyIssue) => ('nodeIds' in issue ? issue.nodeIds.length : issue.links.length);
+  return issues.sort((a, b) => size(b) - size(a));
+};
+
+/**
+ * Renames node groups in bulk, e.g. { "Tech": "Technology", "Technologies": "Technology" }.
+ */
+export const remapEntityTypes = (graph: KnowledgeGraphData, mapping: Record<string, string>): KnowledgeGraphData => ({
+  ...graph,
+  nodes: graph.nodes.map(n => (mapping[n.group] ? { ...n, group: mapping[n.group] } : n))
+});
+
+/**
+ * Renames relationship labels in bulk. Links that become identical are merged, keeping
+ * the provenance and properties of both.
+ */
+export const remapRelationshipTypes = (graph: KnowledgeGraphData, mapping: Record<string, string>): KnowledgeGraphData => {
+  const links = new Map<string, GraphLink>();
+  graph.links.forEach(l => {
+    const link = mapping[l.relationship] ? { ...l, relationship: mapping[l.relationship] } : l;
+    const existing = links.get(linkKey(link));
+    links.set(linkKey(link), existing
+      ? weighFact({ ...existing, ...mergeDetails(existing, link), provenance: mergeProvenance(existing.provenance, link.provenance) })
+      : link);
+  });
+  return { ...graph, links: Array.from(links.values()) };
+};
+
+/**
+ * Snaps extracted groups and relationship labels that name an ontology type (in another
+ * case, spelling or number) to the type's exact name. Anything else is left for the
+ * validator to flag.
+ */
+export const conformToOntology = (graph: KnowledgeGraphData, ontology?: Ontology): KnowledgeGraphData => {
+  if (!ontology) return graph;
+  return {
+    ...graph,
+    nodes: graph.nodes.map(n => ({ ...n, group: matchEntityType(ontology, n.group) ?? n.group })),
+    links: graph.links.map(l => ({ ...l, relationship: matchRelationshipType(ontology, l.relationship)?.name ?? l.relationship }))
+  };
+};
+
+/**
+ * Drafts an ontology from the labels already used in the graph, as a starting point.
+ */
+export const inferOntology = (graph: KnowledgeGraphData): Ontology => ({
+  entityTypes: getGroups(graph).map(name => ({ name })),
+  relationshipTypes: Array.from(new Set(graph.links.map(l => l.relationship)))
+    .sort((a, b) => a.localeCompare(b))
+    .map(name => ({ name, domain: [], range: [] }))
+});
+
+/**
+ * Prompt text describing the ontology for the extraction model.
+ */
+export const describeOntology = (ontology: Ontology): string => {
+  const lines: string[] = [];
+  if (ontology.entityTypes.length) {
+    lines.push("Allowed entity types (use exactly these names as \"group\"):");
+    ontology.entityTypes.forEach(t => lines.push(`- ${t.name}${t.description ? `: ${t.description}` : ""}`));
+  }
+  if (ontology.relationshipTypes.length) {
+    lines.push("Allowed relationship types (use exactly these names as \"relationship\"; source and target types in brackets):");
+    ontology.relationshipTypes.forEach(t => {
+      const ends = `[${t.domain.join(" | ") || "any"} -> ${t.range.join(" | ") || "any"}]`;
+      lines.push(`- ${t.name} ${ends}${t.description ? `: ${t.description}` : ""}`);
+    });
+  }
+  return lines.join("\n");
+};
+
+export const hasOntology = (ontology?: Ontology): ontology is Ontology =>
+  !!ontology && (ontology.entityTypes.length > 0 || ontology.relationshipTypes.length > 0);
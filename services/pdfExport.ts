@@ -0,0 +1,418 @@
+import { jsPDF } from "jspdf";
+import { MarkdownBlock, MarkdownInline, TableAlign, isSafeHref, parseInline } from "./markdown";
+import { ScenarioReport, formatReportDate } from "./report";
+
+// PDF generation for scenario reports with jsPDF. jsPDF only draws text at positions,
+// so this lays out Markdown itself: words are measured and wrapped one at a time, so
+// bold, italic, code and links can share a line, and links get clickable areas.
+
+// A4 in millimetres
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const MARGIN = 20;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+const BOTTOM = PAGE_HEIGHT - MARGIN;
+
+const PT_TO_MM = 0.3528;
+const LINE_HEIGHT = 1.45;
+const BODY_SIZE = 10.5;
+const LIST_INDENT = 6;
+const CELL_PADDING = 1.8;
+
+const HEADING_SIZES: Record<number, number> = { 1: 16, 2: 13.5, 3: 12, 4: 11 };
+
+type Rgb = [number, number, number];
+const TEXT_COLOR: Rgb = [30, 41, 59];
+const MUTED_COLOR: Rgb = [100, 116, 139];
+const LINK_COLOR: Rgb = [37, 99, 235];
+const HEADING_COLOR: Rgb = [30, 58, 138];
+const RULE_COLOR: Rgb = [203, 213, 225];
+const FILL_COLOR: Rgb = [241, 245, 249];
+const HEADER_FILL: Rgb = [226, 232, 240];
+
+// The standard PDF fonts only cover Windows-1252; common symbols outside it are
+// spelled out rather than printed as garbage
+const SUBSTITUTIONS: Array<[RegExp, string]> = [
+  [/[→⟶]/g, "->"], [/[←⟵]/g, "<-"], [/↔/g, "<->"], [/⇒/g, "=>"],
+  [/≥/g, ">="], [/≤/g, "<="], [/≠/g, "!="], [/≈/g, "~"],
+  [/[✓✔]/g, "v"], [/[✗✘]/g, "x"], [/[◦▪■□●]/g, "•"], [/[\u200B-\u200D\uFEFF]/g, ""]
+];
+
+const toPdfText = (text: string) => SUBSTITUTIONS.reduce((out, [pattern, replacement]) => out.replace(pattern, replacement), text);
+
+interface Run {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  code?: boolean;
+  href?: string;
+  superscript?: boolean;
+  color?: Rgb;
+}
+
+interface FlowOptions {
+  x?: number;
+  width?: number;
+  size?: number;
+  color?: Rgb;
+  align?: TableAlign;
+}
+
+/**
+ * Writes a report page by page, tracking the vertical position so blocks can break
+ * onto new pages.
+ */
+class PdfWriter {
+  readonly doc = new jsPDF({ unit: "mm", format: "a4" });
+  y = MARGIN;
+
+  constructor(private readonly sources: ScenarioReport['sources']) {}
+
+  newPage(): void {
+    this.doc.addPage();
+    this.y = MARGIN;
+  }
+
+  ensureSpace(height: number): void {
+    if (this.y + height > BOTTOM) this.newPage();
+  }
+
+  private font(run: Run, size: number): void {
+    const style = run.bold && run.italic ? "bolditalic" : run.bold ? "bold" : run.italic ? "italic" : "normal";
+    this.doc.setFont(run.code ? "courier" : "helvetica", style);
+    this.doc.setFontSize(run.superscript ? size * 0.7 : size);
+  }
+
+  runs(nodes: MarkdownInline[], base: Omit<Run, 'text'> = {}): Run[] {
+    return nodes.flatMap((node): Run[] => {
+      switch (node.kind) {
+        case 'text': return [{ ...base, text: node.text }];
+        case 'code': return [{ ...base, code: true, text: node.text }];
+        case 'strong': return this.runs(node.children, { ...base, bold: true });
+        case 'em': return this.runs(node.children, { ...base, italic: true });
+        case 'link': return this.runs(node.children, { ...base, href: node.href });
+        case 'citation':
+          // Each number links straight to its source, if the source is an http(s) or mailto link
+          return node.sourceIndices.filter(i => i < this.sources.length).map(i => ({
+            ...base, text: `[${i + 1}]`, superscript: true, href: isSafeHref(this.sources[i].uri) ? this.sources[i].uri : undefined
+          }));
+      }
+    });
+  }
+
+  /**
+   * Lays out runs as wrapped lines starting at the current position and returns the
+   * height used. Words wider than a line (long URLs) are split by character.
+   */
+  flow(runs: Run[], { x = MARGIN, width = CONTENT_WIDTH, size = BODY_SIZE, color = TEXT_COLOR, align }: FlowOptions = {}, draw = true): number {
+    const lineHeight = size * PT_TO_MM * LINE_HEIGHT;
+    type Placed = { run: Run; text: string; width: number; space: number };
+    const lines: Placed[][] = [[]];
+    let lineWidth = 0;
+
+    const place = (run: Run, text: string, space: number) => {
+      this.font(run, size);
+      const wordWidth = this.doc.getTextWidth(text);
+      let line = lines[lines.length - 1];
+      if (line.length && lineWidth + space + wordWidth > width) {
+        line = [];
+        lines.push(line);
+        lineWidth = 0;
+        space = 0;
+      }
+      if (!line.length) space = 0;
+      if (wordWidth > width) {
+        // Split an overlong word into pieces that fit
+        let piece = "";
+        for (const char of text) {
+          if (piece && this.doc.getTextWidth(piece + char) > width - lineWidth - space) {
+            line.push({ run, text: piece, width: this.doc.getTextWidth(piece), space });
+            line = [];
+            lines.push(line);
+            lineWidth = 0;
+            space = 0;
+            piece = "";
+          }
+          piece += char;
+        }
+        text = piece;
+      }
+      const placed = { run, text, width: this.doc.getTextWidth(text), space };
+      line.push(placed);
+      lineWidth += space + placed.width;
+    };
+
+    let pendingSpace = false;
+    runs.forEach(run => {
+      const parts = toPdfText(run.text).split(/(\s+)/);
+      parts.forEach(part => {
+        if (!part) return;
+        if (/^\s+$/.test(part)) {
+          pendingSpace = true;
+          return;
+        }
+        this.font(run, size);
+        place(run, part, pendingSpace || run.superscript ? this.doc.getTextWidth(" ") * (run.superscript ? 0.3 : 1) : 0);
+        pendingSpace = false;
+      });
+    });
+
+    const nonEmpty = lines.filter(line => line.length);
+    if (!draw) return nonEmpty.length * lineHeight;
+
+    nonEmpty.forEach(line => {
+      this.ensureSpace(lineHeight);
+      const total = line.reduce((sum, p) => sum + p.space + p.width, 0);
+      let cursor = x + (align === 'right' ? width - total : align === 'center' ? (width - total) / 2 : 0);
+      const baseline = this.y + size * PT_TO_MM;
+      line.forEach(p => {
+        cursor += p.space;
+        this.font(p.run, size);
+        const rgb = p.run.href ? LINK_COLOR : p.run.color ?? color;
+        this.doc.setTextColor(...rgb);
+        const y = p.run.superscript ? baseline - size * PT_TO_MM * 0.35 : baseline;
+        this.doc.text(p.text, cursor, y);
+        if (p.run.href) {
+          this.doc.link(cursor, y - size * PT_TO_MM, p.width, size * PT_TO_MM * 1.2, { url: p.run.href });
+          if (!p.run.superscript) {
+            this.doc.setDrawColor(...LINK_COLOR);
+            this.doc.setLineWidth(0.15);
+            this.doc.line(cursor, y + 0.6, cursor + p.width, y + 0.6);
+          }
+        }
+        cursor += p.width;
+      });
+      this.y += lineHeight;
+    });
+    return nonEmpty.length * lineHeight;
+  }
+
+  heading(text: string, level: number): void {
+    const size = HEADING_SIZES[Math.min(level, 4)];
+    // Keep a heading with at least the first lines that follow it
+    this.ensureSpace(size * PT_TO_MM * 2 + BODY_SIZE * PT_TO_MM * LINE_HEIGHT * 2);
+    this.y += level === 1 ? 6 : 4;
+    this.flow(this.runs(parseInline(text), { bold: true }), { size, color: HEADING_COLOR });
+    this.y += 1.5;
+  }
+
+  paragraph(runs: Run[], options: FlowOptions = {}): void {
+    this.flow(runs, options);
+    this.y += 2.5;
+  }
+
+  blocks(blocks: MarkdownBlock[], headingOffset: number, indent = 0, color: Rgb = TEXT_COLOR): void {
+    const x = MARGIN + indent;
+    const width = CONTENT_WIDTH - indent;
+    blocks.forEach(block => {
+      switch (block.kind) {
+        case 'heading':
+          this.heading(block.text, block.level + headingOffset);
+          break;
+        case 'paragraph':
+          this.paragraph(this.runs(parseInline(block.text)), { x, width, color });
+          break;
+        case 'list':
+          this.list(block.items.map(item => ({ runs: this.runs(parseInline(item.text)), children: item.children })),
+            block.ordered ? block.start : null, indent, headingOffset, color);
+          this.y += 1.5;
+          break;
+        case 'table':
+          this.table(
+            block.header.map(cell => this.runs(parseInline(cell))),
+            block.rows.map(row => row.map(cell => this.runs(parseInline(cell)))),
+            { indent, align: block.align }
+          );
+          break;
+        case 'quote': {
+          const top = this.y;
+          const page = this.doc.getNumberOfPages();
+          this.blocks(block.blocks, headingOffset, indent + 5, MUTED_COLOR);
+          // Side bar, on the page where the quote ends
+          this.doc.setDrawColor(...RULE_COLOR);
+          this.doc.setLineWidth(0.8);
+          this.doc.line(x + 1, page === this.doc.getNumberOfPages() ? top : MARGIN, x + 1, this.y - 2.5);
+          break;
+        }
+        case 'code': {
+          const size = 8.5;
+          const lineHeight = size * PT_TO_MM * LINE_HEIGHT;
+          this.doc.setFont("courier", "normal");
+          this.doc.setFontSize(size);
+          const lines: string[] = this.doc.splitTextToSize(toPdfText(block.text), width - 2 * CELL_PADDING);
+          this.y += 1;
+          lines.forEach(line => {
+            this.ensureSpace(lineHeight);
+            this.doc.setFillColor(...FILL_COLOR);
+            this.doc.rect(x, this.y, width, lineHeight, "F");
+            this.doc.setFont("courier", "normal");
+            this.doc.setFontSize(size);
+            this.doc.setTextColor(...TEXT_COLOR);
+            this.doc.text(line, x + CELL_PADDING, this.y + size * PT_TO_MM);
+            this.y += lineHeight;
+          });
+          this.y += 3.5;
+          break;
+        }
+        case 'rule':
+          this.ensureSpace(6);
+          this.doc.setDrawColor(...RULE_COLOR);
+          this.doc.setLineWidth(0.3);
+          this.doc.line(x, this.y + 2, x + width, this.y + 2);
+          this.y += 6;
+          break;
+      }
+    });
+  }
+
+  list(items: Array<{ runs: Run[]; children?: MarkdownBlock[] }>, start: number | null, indent: number, headingOffset: number, color: Rgb = TEXT_COLOR): void {
+    const x = MARGIN + indent;
+    items.forEach((item, i) => {
+      const marker = start === null ? "•" : `${start + i}.`;
+      this.ensureSpace(BODY_SIZE * PT_TO_MM * LINE_HEIGHT);
+      this.doc.setFont("helvetica", "normal");
+      this.doc.setFontSize(BODY_SIZE);
+      this.doc.setTextColor(...MUTED_COLOR);
+      this.doc.text(marker, x + LIST_INDENT - 1.5, this.y + BODY_SIZE * PT_TO_MM, { align: "right" });
+      this.flow(item.runs, { x: x + LIST_INDENT, width: CONTENT_WIDTH - indent - LIST_INDENT, color });
+      this.y += 1;
+      if (item.children?.length) this.blocks(item.children, headingOffset, indent + LIST_INDENT, color);
+    });
+  }
+
+  /**
+   * Draws a bordered table with a shaded header row that repeats after page breaks.
+   * Rows are kept whole unless a single row is taller than a page.
+   */
+  table(header: Run[][], rows: Run[][][], { indent = 0, align = [], weights }: { indent?: number; align?: TableAlign[]; weights?: number[] } = {}): void {
+    const size = 9;
+    const x = MARGIN + indent;
+    const width = CONTENT_WIDTH - indent;
+    const w = weights ?? header.map(() => 1);
+    const total = w.reduce((sum, v) => sum + v, 0);
+    const widths = w.map(v => width * v / total);
+
+    const rowHeight = (cells: Run[][]) =>
+      Math.max(...cells.map((cell, c) => this.flow(cell, { width: widths[c] - 2 * CELL_PADDING, size }, false)), size * PT_TO_MM * LINE_HEIGHT) + 2 * CELL_PADDING;
+
+    const drawRow = (cells: Run[][], isHeader: boolean) => {
+      const height = rowHeight(cells);
+      if (this.y + height > BOTTOM && height <= BOTTOM - MARGIN) {
+        this.newPage();
+        if (!isHeader) drawRow(header, true);
+      }
+      const top = this.y;
+      let cellX = x;
+      cells.forEach((cell, c) => {
+        if (isHeader) {
+          this.doc.setFillColor(...HEADER_FILL);
+          this.doc.rect(cellX, top, widths[c], height, "F");
+        }
+        this.doc.setDrawColor(...RULE_COLOR);
+        this.doc.setLineWidth(0.2);
+        this.doc.rect(cellX, top, widths[c], height);
+        this.y = top + CELL_PADDING;
+        this.flow(isHeader ? cell.map(run => ({ ...run, bold: true })) : cell, { x: cellX + CELL_PADDING, width: widths[c] - 2 * CELL_PADDING, size, align: align[c] });
+        cellX += widths[c];
+      });
+      this.y = top + height;
+    };
+
+    this.y += 1;
+    drawRow(header, true);
+    rows.forEach(row => drawRow(row, false));
+    this.y += 4;
+  }
+
+  titlePage(report: ScenarioReport): void {
+    this.y = 90;
+    this.doc.setFillColor(...HEADING_COLOR);
+    this.doc.rect(MARGIN, this.y - 12, 24, 2, "F");
+    this.flow([{ text: report.title, bold: true }], { size: 28, color: HEADING_COLOR });
+    this.y += 8;
+    this.flow([{ text: report.scenario }], { size: 13, color: TEXT_COLOR });
+    this.y += 10;
+    const details = [
+      `Generated ${formatReportDate(report)}`,
+      `${report.steps.length} action step${report.steps.length === 1 ? "" : "s"} • ${report.sources.length} source${report.sources.length === 1 ? "" : "s"}`
+    ];
+    details.forEach(line => this.flow([{ text: line }], { size: 10, color: MUTED_COLOR }));
+    if (report.partial) {
+      this.y += 4;
+      this.flow([{ text: "Generation was stopped early; this report is partial.", italic: true }], { size: 10, color: [180, 83, 9] });
+    }
+  }
+
+  // Page numbers on every page but the title page
+  footers(title: string): void {
+    const pages = this.doc.getNumberOfPages();
+    for (let page = 2; page <= pages; page++) {
+      this.doc.setPage(page);
+      this.doc.setFont("helvetica", "normal");
+      this.doc.setFontSize(8);
+      this.doc.setTextColor(...MUTED_COLOR);
+      this.doc.text(toPdfText(title), MARGIN, PAGE_HEIGHT - 10);
+      this.doc.text(`${page - 1} / ${pages - 1}`, PAGE_WIDTH - MARGIN, PAGE_HEIGHT - 10, { align: "right" });
+    }
+  }
+}
+
+/**
+ * Builds a PDF: a title page, then the summary, the write-up with its structure kept,
+ * the action steps, risks, assumptions and the sources, with links and citations
+ * clickable throughout.
+ */
+export const reportToPdf = (report: ScenarioReport): Blob => {
+  const w = new PdfWriter(report.sources);
+  w.doc.setProperties({ title: report.title, subject: report.scenario.slice(0, 255) });
+  w.titlePage(report);
+  w.newPage();
+
+  if (report.summary) {
+    w.heading("Summary", 1);
+    w.paragraph(w.runs(parseInline(report.summary)));
+  }
+
+  if (report.body.length) {
+    w.heading("Analysis", 1);
+    w.blocks(report.body, 1);
+  }
+
+  if (report.steps.length) {
+    w.heading("Action Steps", 1);
+    w.table(
+      ["#", "Step", "Owner", "Priority", "Timeline"].map(text => [{ text }]),
+      report.steps.map((step, i) => [
+        [{ text: String(i + 1) }],
+        [{ text: step.title, bold: true }, ...(step.description ? [{ text: " — " }, ...w.runs(parseInline(step.description))] : [])],
+        [{ text: step.owner || "" }],
+        [{ text: step.priority }],
+        [{ text: step.timeline || "" }]
+      ]),
+      { weights: [0.5, 5, 1.5, 1.2, 1.5] }
+    );
+  }
+
+  if (report.risks.length) {
+    w.heading("Risks", 1);
+    w.table(
+      [[{ text: "Risk" }], [{ text: "Mitigation" }]],
+      report.risks.map(r => [w.runs(parseInline(r.risk)), w.runs(parseInline(r.mitigation))])
+    );
+  }
+
+  if (report.assumptions.length) {
+    w.heading("Assumptions", 1);
+    w.list(report.assumptions.map(a => ({ runs: w.runs(parseInline(a)) })), null, 0, 1);
+  }
+
+  if (report.sources.length) {
+    w.heading("Sources", 1);
+    w.list(report.sources.map(s => ({
+      runs: [{ text: s.title, bold: true }, { text: " " }, { text: s.uri, href: isSafeHref(s.uri) ? s.uri : undefined }]
+    })), 1, 0, 1);
+  }
+
+  w.footers(report.title);
+  return w.doc.output("blob");
+};
@@ -0,0 +1,93 @@
+import { GraphProperty, PropertyType } from "../types";
+import { isSafeHref } from "./markdown";
+
+export const PROPERTY_TYPES: PropertyType[] = ['string', 'number', 'date', 'url', 'boolean'];
+
+// The descriptive fields shared by entities and relationships
+export interface GraphDetails {
+  description?: string;
+  properties?: GraphProperty[];
+}
+
+/**
+ * Checks a property value typed in by the user (or returned by the model), returning
+ * an error message, or null when it is valid for the type.
+ */
+export const validatePropertyValue = (type: PropertyType, text: string): string | null => {
+  const value = text.trim();
+  if (!value) return "Value cannot be empty.";
+  switch (type) {
+    case 'number':
+      return Number.isFinite(Number(value.replace(/,/g, ""))) ? null : `"${value}" is not a number.`;
+    case 'date':
+      return /^\d{4}(-\d{2}(-\d{2})?)?$/.test(value) && !Number.isNaN(Date.parse(value)) ? null : `"${value}" is not a date (YYYY-MM-DD).`;
+    case 'url':
+      try {
+        new URL(value);
+      } catch {
+        return `"${value}" is not a URL.`;
+      }
+      return isSafeHref(value) ? null : `"${value}" is not an http(s) or mailto link.`;
+    case 'boolean':
+      return /^(true|false|yes|no)$/i.test(value) ? null : `"${value}" is not true or false.`;
+    default:
+      return null;
+  }
+};
+
+/**
+ * Converts a textual value to its stored form. Values that don't fit the type are
+ * kept as plain strings rather than dropped.
+ */
+export const toProperty = (key: string, text: string, type: PropertyType): GraphProperty => {
+  const value = text.trim();
+  if (validatePropertyValue(type, value)) return { key, value, type: 'string' };
+  switch (type) {
+    case 'number': return { key, value: Number(value.replace(/,/g, "")), type };
+    case 'boolean': return { key, value: /^(true|yes)$/i.test(value), type };
+    default: return { key, value, type };
+  }
+};
+
+/**
+ * Cleans up properties from the model: trims keys, drops empty ones, coerces values to
+ * their declared type, and keeps the last value given for a key.
+ */
+export const normalizeProperties = (
+  raw?: Array<{ key?: string; value?: unknown; type?: string }>
+): GraphProperty[] | undefined => {
+  const byKey = new Map<string, GraphProperty>();
+  (raw || []).forEach(p => {
+    const key = p.key?.trim();
+    const text = p.value === undefined || p.value === null ? "" : String(p.value);
+    if (!key || !text.trim()) return;
+    const type = PROPERTY_TYPES.includes(p.type as PropertyType) ? p.type as PropertyType : 'string';
+    byKey.set(key.toLowerCase(), toProperty(key, text, type));
+  });
+  return byKey.size ? Array.from(byKey.values()) : undefined;
+};
+
+/**
+ * Combines the details of two records of the same fact. What is already known wins;
+ * new keys and a missing description are filled in from `incoming`.
+ */
+export const mergeDetails = (existing: GraphDetails, incoming: GraphDetails): GraphDetails => {
+  const known = new Set((existing.properties || []).map(p => p.key.toLowerCase()));
+  const added = (incoming.properties || []).filter(p => !known.has(p.key.toLowerCase()));
+  const properties = [...(existing.properties || []), ...added];
+  return {
+    description: existing.description || incoming.description,
+    properties: properties.length ? properties : undefined
+  };
+};
+
+export const formatPropertyValue = (property: GraphProperty): string =>
+  property.type === 'boolean' ? (property.value ? "Yes" : "No")
+    : property.type === 'number' ? Number(property.value).toLocaleString()
+    : String(property.value);
+
+/**
+ * Properties as a plain key/value object, the compact form used in prompts.
+ */
+export const propertiesToRecord = (properties?: GraphProperty[]): Record<string, string | number | boolean> | undefined =>
+  properties?.length ? Object.fromEntries(properties.map(p => [p.key, p.value])) : undefined;
@@ -0,0 +1,86 @@
+import { KnowledgeGraphData, GraphNode, ImportRecord, Provenance } from "../types";
+import { weighGraph } from "./confidence";
+
+const SNIPPET_LENGTH = 60;
+
+/**
+ * Creates the record that every fact extracted from one file, pasted text or solved scenario points back to.
+ */
+export const createImportRecord = (kind: ImportRecord['kind'], sourceText: string): ImportRecord => {
+  const label = kind !== 'file' && sourceText.length > SNIPPET_LENGTH
+    ? `${sourceText.slice(0, SNIPPET_LENGTH).trim()}…`
+    : sourceText.trim();
+  return {
+    id: `imp-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    kind,
+    label: label || 'Untitled input',
+    createdAt: Date.now()
+  };
+};
+
+/**
+ * Concatenates provenance lists, dropping exact duplicates.
+ */
+export const mergeProvenance = (a: Provenance[] = [], b: Provenance[] = []): Provenance[] | undefined => {
+  const seen = new Set<string>();
+  const merged = [...a, ...b].filter(p => {
+    const key = `${p.importId}|${p.excerpt || ''}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+  return merged.length ? merged : undefined;
+};
+
+/**
+ * Removes an import and its provenance entries, weakening the facts it confirmed. With
+ * `removeOrphanedFacts`, nodes and links that were supported only by this import are
+ * deleted as well; facts that never had provenance (seed data, manual edits) are always kept.
+ */
+export const removeImport = (
+  graph: KnowledgeGraphData,
+  importId: string,
+  removeOrphanedFacts: boolean
+): KnowledgeGraphData => {
+  const strip = <T extends { provenance?: Provenance[] }>(item: T): T | null => {
+    if (!item.provenance?.some(p => p.importId === importId)) return item;
+    const remaining = item.provenance.filter(p => p.importId !== importId);
+    if (remaining.length === 0 && removeOrphanedFacts) return null;
+    return { ...item, provenance: remaining.length ? remaining : undefined };
+  };
+
+  const nodes = graph.nodes.map(strip).filter((n): n is GraphNode => n !== null);
+  const nodeIds = new Set(nodes.map(n => n.id));
+  const links = graph.links
+    .map(strip)
+    .filter((l): l is NonNullable<typeof l> => l !== null && nodeIds.has(l.source) && nodeIds.has(l.target));
+
+  return weighGraph({
+    ...graph,
+    nodes,
+    links,
+    imports: (graph.imports || []).filter(i => i.id !== importId)
+  });
+};
+
+/**
+ * Counts the nodes and links that would be deleted together with an import.
+ */
+export const countFactsOnlyFrom = (graph: KnowledgeGraphData, importId: string) => {
+  const onlyFrom = (item: { provenance?: Provenance[] }) =>
+    !!item.provenance?.length && item.provenance.every(p => p.importId === importId);
+  return { nodes: graph.nodes.filter(onlyFrom).length, links: graph.links.filter(onlyFrom).length };
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Internal entities mentioned by name or alias in a piece of generated text.
+ */
+export const findCitedNodes = (graph: KnowledgeGraphData, text: string): GraphNode[] =>
+  graph.nodes.filter(n =>
+    [n.id, ...(n.aliases || [])].some(name =>
+      // Require word boundaries so short names like "AI" don't match inside other words
+      new RegExp(`(^|[^a-z0-9])${escapeRegExp(name)}($|[^a-z0-9])`, "i").test(text)
+    )
+  );
@@ -0,0 +1,96 @@
+import { GoogleGenAI } from "@google/genai";
+import { LLMProvider, GenerateRequest, GenerateResponse, StreamOptions } from "../llmProvider";
+import { SourceCitation } from "../../types";
+
+type Source = GenerateResponse['sources'][number];
+
+let client: GoogleGenAI | null = null;
+
+// Created on first use so the app can start (and run other providers) without a Gemini key
+const getClient = (): GoogleGenAI => {
+  if (!client) {
+    if (!process.env.API_KEY) throw new Error("GEMINI_API_KEY is not configured.");
+    client = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  }
+  return client;
+};
+
+/**
+ * Extracts deduplicated web sources from Gemini's search grounding metadata, appended to
+ * `known`, along with the passages of the answer each source supports
+ * (`groundingSupports`). Citations refer to positions in the returned source list.
+ */
+export const extractGrounding = (response: any, known: Source[] = []): { sources: Source[]; citations: SourceCitation[] } => {
+  const metadata = response.candidates?.[0]?.groundingMetadata;
+  const sources = [...known];
+  const indexByUri = new Map(sources.map((s, i) => [s.uri, i]));
+
+  // Position in `sources` of each grounding chunk; chunks without a web page map to undefined
+  const chunkSource: Array<number | undefined> = (metadata?.groundingChunks || []).map((c: any) => {
+    if (!c.web?.uri || !c.web?.title) return undefined;
+    if (!indexByUri.has(c.web.uri)) {
+      indexByUri.set(c.web.uri, sources.length);
+      sources.push({ title: c.web.title, uri: c.web.uri });
+    }
+    return indexByUri.get(c.web.uri);
+  });
+
+  const citations = (metadata?.groundingSupports || []).flatMap((support: any): SourceCitation[] => {
+    const text = support.segment?.text?.trim();
+    const sourceIndices = Array.from(new Set<number>(
+      (support.groundingChunkIndices || [])
+        .map((i: number) => chunkSource[i])
+        .filter((i: number | undefined): i is number => i !== undefined)
+    )).sort((a, b) => a - b);
+    return text && sourceIndices.length ? [{ text, sourceIndices }] : [];
+  });
+
+  return { sources, citations };
+};
+
+const buildRequest = (request: GenerateRequest, signal?: AbortSignal) => ({
+  model: request.model,
+  contents: { parts: request.parts },
+  config: {
+    systemInstruction: request.systemInstruction,
+    abortSignal: signal,
+    ...(request.responseSchema
+      ? { responseMimeType: "application/json", responseSchema: request.responseSchema }
+      : {}),
+    ...(request.webSearch ? { tools: [{ googleSearch: {} }] } : {})
+  }
+});
+
+export const geminiProvider: LLMProvider = {
+  id: 'gemini',
+
+  generate: async (request: GenerateRequest): Promise<GenerateResponse> => {
+    const response = await getClient().models.generateContent(buildRequest(request));
+    return { text: response.text || "", ...extractGrounding(response) };
+  },
+
+  stream: async (request: GenerateRequest, { signal, onEvent }: StreamOptions): Promise<GenerateResponse> => {
+    const stream = await getClient().models.generateContentStream(buildRequest(request, signal));
+    // Grounded answers search before they write; there is no explicit event for it
+    onEvent({ type: 'status', status: request.webSearch ? 'searching' : 'writing' });
+
+    let text = "";
+    let sources: Source[] = [];
+    let citations: SourceCitation[] = [];
+    for await (const chunk of stream) {
+      if (signal?.aborted) break;
+      const grounding = extractGrounding(chunk, sources);
+      if (grounding.sources.length > sources.length || grounding.citations.length) {
+        sources = grounding.sources;
+        citations = [...citations, ...grounding.citations];
+        onEvent({ type: 'sources', sources, citations });
+      }
+      if (chunk.text) {
+        if (!text && request.webSearch) onEvent({ type: 'status', status: 'writing' });
+        text += chunk.text;
+        onEvent({ type: 'text', text: chunk.text });
+      }
+    }
+    return { text, sources, citations };
+  }
+};
@@ -0,0 +1,18 @@
+import { LLMProvider, LLMTask, ProviderId, loadLLMSettings } from "../llmProvider";
+import { geminiProvider } from "./geminiProvider";
+import { openAICompatibleProvider } from "./openAICompatibleProvider";
+import { mockProvider } from "./mockProvider";
+
+const PROVIDERS: Record<ProviderId, LLMProvider> = {
+  'gemini': geminiProvider,
+  'openai-compatible': openAICompatibleProvider,
+  'mock': mockProvider
+};
+
+/**
+ * Resolves the provider and model configured for a task in the model settings.
+ */
+export const getProviderForTask = (task: LLMTask): { provider: LLMProvider; model: string } => {
+  const { provider, model } = loadLLMSettings().tasks[task];
+  return { provider: PROVIDERS[provider] || PROVIDERS.gemini, model };
+};
@@ -0,0 +1,126 @@
+import { LLMTask } from "../llmProvider";
+
+// Canned responses for the offline mock provider: a few built in for demos and tests,
+// plus any loaded from a fixture file in the model settings
+
+export interface MockFixture {
+  task: LLMTask;
+  match?: string | RegExp; // Matched against the prompt text; omitted matches everything
+  text: string; // Raw model output (JSON for extraction)
+  sources?: Array<{ title: string; uri: string }>;
+}
+
+const FIXTURES_KEY = "ccsmind.mockFixtures";
+
+const TASKS: LLMTask[] = ['extraction', 'solver'];
+
+const AI_ACT_EXTRACTION = {
+  nodes: [
+    {
+      id: "EU AI Act", group: "Regulation", confidence: 0.95,
+      evidence: "The EU AI Act classifies AI systems used in medical diagnostics as high-risk.",
+      description: "European Union regulation on artificial intelligence systems.",
+      properties: [{ key: "adopted", value: "2024", type: "date" }]
+    },
+    {
+      id: "High-Risk AI Systems", group: "Concept", confidence: 0.85,
+      evidence: "AI systems used in medical diagnostics as high-risk",
+      description: "AI systems subject to conformity assessment under the EU AI Act."
+    },
+    {
+      id: "Conformity Assessment", group: "Application", confidence: 0.7,
+      evidence: "Providers must complete a conformity assessment before deployment.",
+      description: "Review a high-risk AI system must pass before it is placed on the market."
+    }
+  ],
+  links: [
+    { source: "EU AI Act", target: "Artificial Intelligence", relationship: "regulates", confidence: 0.9, evidence: "The EU AI Act classifies AI systems" },
+    { source: "EU AI Act", target: "High-Risk AI Systems", relationship: "defines", confidence: 0.85, evidence: "classifies AI systems used in medical diagnostics as high-risk" },
+    { source: "Diagnostics", target: "High-Risk AI Systems", relationship: "classified as", confidence: 0.8, evidence: "AI systems used in medical diagnostics as high-risk" },
+    { source: "High-Risk AI Systems", target: "Conformity Assessment", relationship: "requires", confidence: 0.7, evidence: "Providers must complete a conformity assessment before deployment." }
+  ]
+};
+
+const BREACH_PLAN = {
+  thoughtProcess: "The breach touches personal health data, so Privacy and GDPR obligations drive the timeline.",
+  summary: "Contain the breach, notify the supervisory authority within 72 hours and review the diagnostics pipeline.",
+  steps: [
+    { title: "Contain the breach and preserve evidence", owner: "Security lead", priority: "high", timeline: "Hour 0-4", nodeIds: ["Privacy"] },
+    { title: "Notify the supervisory authority", owner: "Data protection officer", priority: "high", timeline: "Within 72 hours", nodeIds: ["GDPR"] },
+    { title: "Audit data access in the diagnostics models", owner: "ML team", priority: "medium", timeline: "Week 1", nodeIds: ["Diagnostics", "Machine Learning"] }
+  ],
+  risks: [{ risk: "Late notification", mitigation: "Start the 72-hour clock at detection, not confirmation" }],
+  assumptions: ["The affected data includes patient records"]
+};
+
+const BUILT_IN_FIXTURES: MockFixture[] = [
+  { task: 'extraction', match: "EU AI Act", text: JSON.stringify(AI_ACT_EXTRACTION) },
+  {
+    task: 'solver',
+    match: /data breach/i,
+    text: [
+      "## Practical Action Plan",
+      "",
+      "Under the GDPR, a personal data breach must be reported to the supervisory authority within 72 hours.",
+      "",
+      ...BREACH_PLAN.steps.map((step, idx) => `${idx + 1}. ${step.title}.`),
+      "",
+      "```json",
+      JSON.stringify(BREACH_PLAN, null, 2),
+      "```"
+    ].join("\n"),
+    sources: [{ title: "GDPR Article 33: Notification of a personal data breach", uri: "https://gdpr-info.eu/art-33-gdpr/" }]
+  }
+];
+
+// Fixture files are JSON, so a regular expression match is given as "pattern"
+interface StoredFixture {
+  task: LLMTask;
+  match?: string;
+  pattern?: string;
+  text: string;
+  sources?: Array<{ title: string; uri: string }>;
+}
+
+/**
+ * Reads a fixture file: a JSON array of { task, match | pattern, text, sources }. `text`
+ * may also be given as an object, which is stored as its JSON.
+ */
+export const parseMockFixtures = (json: string): StoredFixture[] => {
+  const data = JSON.parse(json);
+  if (!Array.isArray(data)) throw new Error("A fixture file must contain a JSON array.");
+  return data.map((raw: any, idx: number) => {
+    if (!TASKS.includes(raw?.task)) throw new Error(`Fixture ${idx + 1}: "task" must be one of ${TASKS.join(", ")}.`);
+    const text = typeof raw.text === 'string' ? raw.text : raw.text && JSON.stringify(raw.text);
+    if (!text) throw new Error(`Fixture ${idx + 1} has no "text".`);
+    if (raw.pattern !== undefined) new RegExp(raw.pattern); // Throws on an invalid pattern
+    return {
+      task: raw.task,
+      match: typeof raw.match === 'string' ? raw.match : undefined,
+      pattern: typeof raw.pattern === 'string' ? raw.pattern : undefined,
+      text,
+      sources: Array.isArray(raw.sources) ? raw.sources.map((s: any) => ({ title: String(s.title ?? s.uri), uri: String(s.uri) })) : undefined
+    };
+  });
+};
+
+export const loadStoredFixtures = (): StoredFixture[] => {
+  try {
+    return JSON.parse(localStorage.getItem(FIXTURES_KEY) || "[]");
+  } catch {
+    return [];
+  }
+};
+
+export const saveStoredFixtures = (fixtures: StoredFixture[]) => {
+  if (fixtures.length) localStorage.setItem(FIXTURES_KEY, JSON.stringify(fixtures));
+  else localStorage.removeItem(FIXTURES_KEY);
+};
+
+/**
+ * Fixtures in the order they are tried: loaded ones first, so they can override the built-in ones.
+ */
+export const activeMockFixtures = (): MockFixture[] => [
+  ...loadStoredFixtures().map(({ pattern, match, ...fixture }) => ({ ...fixture, match: pattern ? new RegExp(pattern) : match })),
+  ...BUILT_IN_FIXTURES
+];
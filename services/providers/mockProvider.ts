@@ -0,0 +1,130 @@
+import { LLMProvider, GenerateRequest, GenerateResponse, StreamOptions } from "../llmProvider";
+import { activeMockFixtures } from "./mockFixtures";
+
+const textParts = (request: GenerateRequest) =>
+  request.parts.flatMap(part => ('text' in part ? [part.text] : []));
+
+const promptText = (request: GenerateRequest) => textParts(request).join("\n");
+
+// Allowed values of a string field in the extraction schema (set when an ontology is in force)
+const schemaEnum = (request: GenerateRequest, list: 'nodes' | 'links', field: string): string[] | undefined =>
+  request.responseSchema?.properties?.[list]?.items?.properties?.[field]?.enum;
+
+/**
+ * Deterministic stand-in for extraction: capitalized phrases become entities and
+ * entities mentioned in the same sentence are linked, with a lower confidence since
+ * co-occurrence is weak evidence. Under an ontology, acronyms get an organisation-like
+ * type if one is allowed and everything else the first allowed type.
+ */
+const heuristicExtraction = (request: GenerateRequest): string => {
+  const groups = schemaEnum(request, 'nodes', 'group');
+  const conceptGroup = groups?.[0] ?? "Concept";
+  const acronymGroup = groups ? groups.find(g => /acronym|abbreviation|organi[sz]ation/i.test(g)) ?? conceptGroup : "Acronym";
+  const relationship = schemaEnum(request, 'links', 'relationship')?.[0] ?? "related to";
+  // The input is the last text part; drop the label and quotes the extractor wraps it in
+  const last = textParts(request).slice(-1)[0] ?? "";
+  const source = last.match(/^[^\n]*:\n"([\s\S]*)"\s*$/)?.[1] ?? last;
+  const nodes = new Map<string, { id: string; group: string; evidence: string; confidence: number }>();
+  const links: Array<{ source: string; target: string; relationship: string; evidence: string; confidence: number }> = [];
+
+  source.split(/(?<=[.!?])\s+/).forEach(sentence => {
+    const names = Array.from(new Set(
+      (sentence.match(/\b[A-Z][\w-]*(?:\s+[A-Z][\w-]*)*/g) || []).map(name => name.replace(/^(The|A|An)\s+/, ""))
+    )).filter(name => name.length > 2);
+    names.forEach(name => {
+      if (!nodes.has(name)) nodes.set(name, { id: name, group: /^[A-Z0-9-]+$/.test(name) ? acronymGroup : conceptGroup, evidence: sentence.trim(), confidence: 0.7 });
+    });
+    for (let i = 1; i < names.length; i++) {
+      links.push({ source: names[i - 1], target: names[i], relationship, evidence: sentence.trim(), confidence: 0.4 });
+    }
+  });
+
+  return JSON.stringify({ nodes: Array.from(nodes.values()), links });
+};
+
+const heuristicSolution = (text: string): string => {
+  const scenario = text.match(/Scenario: "([\s\S]*?)"/)?.[1] ?? "the described scenario";
+  let entities: string[] = [];
+  try {
+    // The knowledge base context is the last JSON object in the prompt
+    const start = text.lastIndexOf('{"nodes"');
+    const context = JSON.parse(start === -1 ? "{}" : text.slice(start, text.lastIndexOf("}") + 1));
+    entities = (context.nodes || []).slice(0, 3).map((n: { id: string }) => n.id);
+  } catch {
+    // No usable context; the plan just won't reference entities
+  }
+
+  const plan = {
+    thoughtProcess: `Matched ${entities.length} internal entities to the scenario; no web search was performed offline.`,
+    summary: `Stabilise the situation around ${scenario}, assign owners and review the outcome.`,
+    steps: [
+      { title: "Review the relevant internal knowledge", owner: "Analyst", priority: "high", timeline: "Day 1", nodeIds: entities },
+      { title: "Identify stakeholders and owners", owner: "Project lead", priority: "medium", timeline: "Day 2", nodeIds: entities.slice(0, 1) },
+      { title: "Define mitigations and a follow-up review", owner: "Team", priority: "low", timeline: "Week 1", nodeIds: [] }
+    ],
+    risks: [{ risk: "Internal knowledge is incomplete", mitigation: "Import recent documents before acting" }],
+    assumptions: ["The knowledge base reflects the current state of the organisation"]
+  };
+
+  return [
+    "## Practical Action Plan (offline mock)",
+    "",
+    `**Scenario:** ${scenario}`,
+    "",
+    ...plan.steps.map((step, idx) => `${idx + 1}. ${step.title}.`),
+    "",
+    "_Generated by the offline mock provider; no external search was performed._",
+    "",
+    "```json",
+    JSON.stringify(plan, null, 2),
+    "```"
+  ].join("\n");
+};
+
+const respond = (request: GenerateRequest): GenerateResponse => {
+  const text = promptText(request);
+  const fixture = activeMockFixtures().find(f =>
+    f.task === request.task &&
+    (!f.match || (typeof f.match === 'string' ? text.includes(f.match) : f.match.test(text)))
+  );
+  if (fixture) return { text: fixture.text, sources: fixture.sources || [] };
+
+  return request.task === 'extraction'
+    ? { text: heuristicExtraction(request), sources: [] }
+    : { text: heuristicSolution(text), sources: [] };
+};
+
+// Delay between streamed words, so the streaming UI can be exercised offline
+const STREAM_DELAY_MS = 25;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Offline provider for development and tests. Returns a fixture (built in or loaded in
+ * the model settings, see mockFixtures.ts) when one matches the prompt, otherwise a
+ * deterministic heuristic response.
+ */
+export const mockProvider: LLMProvider = {
+  id: 'mock',
+
+  generate: async (request: GenerateRequest): Promise<GenerateResponse> => respond(request),
+
+  stream: async (request: GenerateRequest, { signal, onEvent }: StreamOptions): Promise<GenerateResponse> => {
+    const response = respond(request);
+    if (request.webSearch) {
+      onEvent({ type: 'status', status: 'searching' });
+      await wait(STREAM_DELAY_MS * 20);
+    }
+    onEvent({ type: 'status', status: 'writing' });
+
+    let text = "";
+    for (const piece of response.text.split(/(?<=\s)/)) {
+      if (signal?.aborted) return { text, sources: [] };
+      await wait(STREAM_DELAY_MS);
+      text += piece;
+      onEvent({ type: 'text', text: piece });
+    }
+    if (response.sources.length) onEvent({ type: 'sources', sources: response.sources });
+    return response;
+  }
+};
@@ -0,0 +1,103 @@
+import { Schema } from "@google/genai";
+import { LLMProvider, GenerateRequest, GenerateResponse, StreamOptions, loadLLMSettings } from "../llmProvider";
+
+/**
+ * Converts a Gemini response schema (upper-case OpenAPI types) to plain JSON Schema.
+ */
+const toJsonSchema = (schema: Schema): Record<string, unknown> => {
+  const result: Record<string, unknown> = {};
+  if (schema.type) result.type = schema.type.toLowerCase();
+  if (schema.description) result.description = schema.description;
+  if (schema.enum) result.enum = schema.enum;
+  if (schema.items) result.items = toJsonSchema(schema.items);
+  if (schema.properties) {
+    result.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+    );
+  }
+  if (schema.required) result.required = schema.required;
+  return result;
+};
+
+const postChatCompletion = async (request: GenerateRequest, stream: boolean, signal?: AbortSignal): Promise<Response> => {
+  const { baseUrl, apiKey } = loadLLMSettings().openAICompatible;
+
+  const userContent = request.parts.map(part => {
+    if ('text' in part) return part.text;
+    throw new Error(`The local model cannot read ${part.inlineData.mimeType} files. Paste the text instead.`);
+  }).join("\n\n");
+
+  const body: Record<string, unknown> = {
+    model: request.model,
+    stream,
+    messages: [
+      { role: "system", content: request.systemInstruction },
+      { role: "user", content: userContent }
+    ]
+  };
+  if (request.responseSchema) {
+    // Not strict: strict mode needs every property required and additionalProperties: false,
+    // and our schemas have optional fields
+    body.response_format = {
+      type: "json_schema",
+      json_schema: { name: "response", schema: toJsonSchema(request.responseSchema) }
+    };
+  }
+
+  const response = await fetch(`${baseUrl.replace(/\/$/, "")}/chat/completions`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {})
+    },
+    body: JSON.stringify(body),
+    signal
+  });
+  if (!response.ok) {
+    throw new Error(`Local model request failed (${response.status}): ${await response.text()}`);
+  }
+  return response;
+};
+
+/**
+ * Any server exposing the OpenAI chat completions API, e.g. a local Ollama or llama.cpp server.
+ * Binary documents are not supported, and web search is not available.
+ */
+export const openAICompatibleProvider: LLMProvider = {
+  id: 'openai-compatible',
+
+  generate: async (request: GenerateRequest): Promise<GenerateResponse> => {
+    const response = await postChatCompletion(request, false);
+    const data = await response.json();
+    return { text: data.choices?.[0]?.message?.content || "", sources: [] };
+  },
+
+  stream: async (request: GenerateRequest, { signal, onEvent }: StreamOptions): Promise<GenerateResponse> => {
+    const response = await postChatCompletion(request, true, signal);
+    onEvent({ type: 'status', status: 'writing' });
+    if (!response.body) throw new Error("Local model returned an empty stream.");
+
+    // Server-sent events: "data: {json}" lines, terminated by "data: [DONE]"
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    let text = "";
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() || "";
+      for (const line of lines) {
+        const payload = line.replace(/^data:\s*/, "").trim();
+        if (!line.startsWith("data:") || !payload || payload === "[DONE]") continue;
+        const delta = JSON.parse(payload).choices?.[0]?.delta?.content;
+        if (delta) {
+          text += delta;
+          onEvent({ type: 'text', text: delta });
+        }
+      }
+    }
+    return { text, sources: [] };
+  }
+};
@@ -0,0 +1,124 @@
+import { ActionStep, ScenarioResult } from "../types";
+import { MarkdownBlock, MarkdownInline, parseMarkdown, parseInline, insertCitationMarkers } from "./markdown";
+
+// The document every scenario export (PDF, Word, Excel, text) is generated from, so the
+// formats agree on content and order
+
+export interface ReportSource {
+  number: number; // As cited in the text, starting at 1
+  title: string;
+  uri: string;
+}
+
+export interface ScenarioReport {
+  title: string;
+  scenario: string;
+  createdAt: number;
+  summary?: string;
+  body: MarkdownBlock[]; // The write-up, with citation markers
+  steps: ActionStep[];
+  risks: Array<{ risk: string; mitigation: string }>;
+  assumptions: string[];
+  sources: ReportSource[];
+  partial: boolean; // Generation was stopped early
+}
+
+const stepFromListItem = (text: string): ActionStep => ({ title: inlineToText(parseInline(text), false), priority: 'medium', nodeIds: [] });
+
+/**
+ * Steps for solutions without a structured plan: the items of the first numbered list
+ * in the write-up.
+ */
+const stepsFromBody = (blocks: MarkdownBlock[]): ActionStep[] => {
+  for (const block of blocks) {
+    if (block.kind === 'list' && block.ordered) return block.items.map(item => stepFromListItem(item.text));
+    if (block.kind === 'quote') {
+      const nested = stepsFromBody(block.blocks);
+      if (nested.length) return nested;
+    }
+  }
+  return [];
+};
+
+export const buildScenarioReport = (scenario: string, result: ScenarioResult, createdAt = Date.now()): ScenarioReport => {
+  const body = parseMarkdown(insertCitationMarkers(result.solution, result.citations));
+  return {
+    title: "Strategic Action Plan",
+    scenario: scenario.trim(),
+    createdAt,
+    summary: result.plan?.summary || undefined,
+    body,
+    steps: result.plan?.steps.length ? result.plan.steps : stepsFromBody(body),
+    risks: result.plan?.risks ?? [],
+    assumptions: result.plan?.assumptions ?? [],
+    sources: result.sources.map((s, i) => ({ number: i + 1, title: s.title, uri: s.uri })),
+    partial: !!result.stopped
+  };
+};
+
+export const citationLabel = (sourceIndices: number[]): string => `[${sourceIndices.map(i => i + 1).join(", ")}]`;
+
+/**
+ * Flattens inline Markdown to text, optionally keeping citations as "[1, 2]".
+ */
+export const inlineToText = (nodes: MarkdownInline[], withCitations = true): string =>
+  nodes.map(node => {
+    switch (node.kind) {
+      case 'text':
+      case 'code': return node.text;
+      case 'strong':
+      case 'em':
+      case 'link': return inlineToText(node.children, withCitations);
+      case 'citation': return withCitations ? citationLabel(node.sourceIndices) : "";
+    }
+  }).join("");
+
+export const formatReportDate = (report: ScenarioReport): string => new Date(report.createdAt).toLocaleString();
+
+const blocksToText = (blocks: MarkdownBlock[], indent = ""): string[] =>
+  blocks.flatMap(block => {
+    switch (block.kind) {
+      case 'heading': return ["", `${indent}${inlineToText(parseInline(block.text)).toUpperCase()}`];
+      case 'paragraph': return [`${indent}${inlineToText(parseInline(block.text))}`, ""];
+      case 'list':
+        return [...block.items.flatMap((item, i) => [
+          `${indent}${block.ordered ? `${block.start + i}.` : "-"} ${inlineToText(parseInline(item.text))}`,
+          ...blocksToText(item.children, `${indent}   `).filter(line => line.trim())
+        ]), ""];
+      case 'table':
+        return [...[block.header, ...block.rows].map(row => `${indent}${row.map(cell => inlineToText(parseInline(cell))).join(" | ")}`), ""];
+      case 'quote': return blocksToText(block.blocks, `${indent}> `);
+      case 'code': return [...block.text.split("\n").map(line => `${indent}    ${line}`), ""];
+      case 'rule': return [`${indent}----`, ""];
+    }
+  });
+
+/**
+ * Plain-text rendering for the .txt export.
+ */
+export const reportToText = (report: ScenarioReport): string => {
+  const lines = [
+    report.title.toUpperCase(),
+    `Scenario: ${report.scenario}`,
+    `Generated: ${formatReportDate(report)}${report.partial ? " (stopped early, partial)" : ""}`,
+    "",
+    ...(report.summary ? ["SUMMARY", report.summary, ""] : []),
+    ...blocksToText(report.body)
+  ];
+  if (report.steps.length) {
+    lines.push("ACTION STEPS", ...report.steps.flatMap((step, i) => {
+      const details = [step.owner && `Owner: ${step.owner}`, `Priority: ${step.priority}`, step.timeline && `Timeline: ${step.timeline}`];
+      return [
+        `${i + 1}. ${step.done ? "[x] " : ""}${step.title}`,
+        ...(step.description ? [`   ${inlineToText(parseInline(step.description))}`] : []),
+        `   ${details.filter(Boolean).join(" | ")}`
+      ];
+    }), "");
+  }
+  if (report.risks.length) {
+    lines.push("RISKS", ...report.risks.map(r => `- ${r.risk}${r.mitigation ? ` (mitigation: ${r.mitigation})` : ""}`), "");
+  }
+  if (report.assumptions.length) lines.push("ASSUMPTIONS", ...report.assumptions.map(a => `- ${a}`), "");
+  if (report.sources.length) lines.push("SOURCES", ...report.sources.map(s => `[${s.number}] ${s.title}: ${s.uri}`));
+  return lines.join("\n").replace(/\n{3,}/g, "\n\n").trim() + "\n";
+};
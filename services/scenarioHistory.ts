@@ -0,0 +1,75 @@
+import { KnowledgeGraphData, ScenarioResult, ScenarioRun } from "../types";
+import { runStoreRequest, newRecordId, SCENARIO_RUN_STORE } from "./workspaceStore";
+import { loadLLMSettings } from "./llmProvider";
+import { linkKey } from "./graphUtils";
+
+/**
+ * Short, order-independent hash of the graph's entities and relationships (FNV-1a), used
+ * to tell whether two runs saw the same knowledge.
+ */
+export const graphFingerprint = (graph: KnowledgeGraphData): string => {
+  const facts = [
+    ...graph.nodes.map(n => `n:${n.id}:${n.group}`),
+    ...graph.links.map(l => `l:${linkKey(l)}`)
+  ].sort();
+  let hash = 0x811c9dc5;
+  for (const fact of facts) {
+    for (let i = 0; i < fact.length; i++) {
+      hash ^= fact.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+};
+
+/**
+ * Lists a workspace's scenario runs, newest first.
+ */
+export const listScenarioRuns = async (workspaceId: string): Promise<ScenarioRun[]> => {
+  const runs = await runStoreRequest<ScenarioRun[]>(SCENARIO_RUN_STORE, "readonly", store =>
+    store.index("workspaceId").getAll(IDBKeyRange.only(workspaceId))
+  );
+  return runs.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+/**
+ * Records a solved scenario with the solver model and a snapshot of the graph's size.
+ */
+export const saveScenarioRun = async (
+  workspaceId: string,
+  scenario: string,
+  result: ScenarioResult,
+  graph: KnowledgeGraphData
+): Promise<ScenarioRun> => {
+  const { provider, model } = loadLLMSettings().tasks.solver;
+  const run: ScenarioRun = {
+    id: newRecordId("run"),
+    workspaceId,
+    scenario,
+    result,
+    createdAt: Date.now(),
+    provider,
+    model,
+    graph: {
+      nodes: graph.nodes.length,
+      links: graph.links.length,
+      imports: graph.imports?.length || 0,
+      fingerprint: graphFingerprint(graph)
+    }
+  };
+  await runStoreRequest(SCENARIO_RUN_STORE, "readwrite", store => store.put(run));
+  return run;
+};
+
+export const deleteScenarioRun = async (id: string): Promise<void> => {
+  await runStoreRequest(SCENARIO_RUN_STORE, "readwrite", store => store.delete(id));
+};
+
+/**
+ * Stores an edited result (e.g. checklist progress) on an existing run.
+ */
+export const updateScenarioRunResult = async (run: ScenarioRun, result: ScenarioResult): Promise<ScenarioRun> => {
+  const updated = { ...run, result };
+  await runStoreRequest(SCENARIO_RUN_STORE, "readwrite", store => store.put(updated));
+  return updated;
+};
@@ -0,0 +1,35 @@
+import { ImportRecord, KnowledgeGraphData, ScenarioResult } from "../types";
+import { createImportRecord } from "./provenance";
+import { runChunkedExtraction } from "./extractionPipeline";
+
+/**
+ * Text the extractor reads when learning from a solution: the write-up, the plan's
+ * summary and steps, and the titles of the web sources it was grounded on.
+ */
+export const buildLearningText = (scenario: string, result: ScenarioResult): string => [
+  `Scenario: ${scenario}`,
+  "",
+  result.solution,
+  ...(result.plan
+    ? ["", result.plan.summary, ...result.plan.steps.map(s => `- ${s.title}${s.description ? `: ${s.description}` : ""}`)]
+    : []),
+  ...(result.sources.length
+    ? ["", "Web sources consulted:", ...result.sources.map(s => `- ${s.title} (${s.uri})`)]
+    : [])
+].join("\n");
+
+/**
+ * Extracts entities and relationships from a scenario solution. Everything extracted
+ * points to a 'scenario' import record, so the learned facts can be traced back to the
+ * scenario (and removed again from the import history).
+ */
+export const extractFromSolution = async (
+  scenario: string,
+  result: ScenarioResult,
+  currentGraph: KnowledgeGraphData,
+  scenarioRunId?: string
+): Promise<{ graph: KnowledgeGraphData; source: ImportRecord }> => {
+  const source: ImportRecord = { ...createImportRecord('scenario', scenario), scenarioRunId };
+  const { graph } = await runChunkedExtraction(buildLearningText(scenario, result), currentGraph, { importId: source.id });
+  return { graph, source };
+};
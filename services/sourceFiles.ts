@@ -0,0 +1,39 @@
+import { FileInput } from "./geminiService";
+
+// Documents sent to the model as-is rather than read as text
+export const BINARY_MIME_TYPES = [
+  'application/pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document', // docx
+  'application/msword', // doc
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', // xlsx
+  'application/vnd.ms-excel', // xls
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation', // pptx
+  'application/vnd.ms-powerpoint' // ppt
+];
+
+export const SOURCE_FILE_ACCEPT = ".txt,.md,.json,.csv,.log,.pdf,.doc,.docx,.xls,.xlsx,.ppt,.pptx";
+
+export const isBinarySourceFile = (file: File) => BINARY_MIME_TYPES.includes(file.type);
+
+/**
+ * Reads a source file for extraction: binary documents as base64 file input,
+ * everything else as plain text.
+ */
+export const readSourceFile = (file: File): Promise<string | FileInput> =>
+  new Promise((resolve, reject) => {
+    const binary = isBinarySourceFile(file);
+    const reader = new FileReader();
+
+    reader.onload = (event) => {
+      const result = event.target?.result as string;
+      // Data URLs look like "data:application/pdf;base64,....."
+      resolve(binary ? { mimeType: file.type, data: result.split(',')[1] } : result);
+    };
+    reader.onerror = () => reject(reader.error || new Error(`Could not read ${file.name}`));
+
+    if (binary) {
+      reader.readAsDataURL(file);
+    } else {
+      reader.readAsText(file);
+    }
+  });
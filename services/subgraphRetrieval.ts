@@ -0,0 +1,178 @@
+import { KnowledgeGraphData, GraphNode, GraphLink, SolverContext } from "../types";
+import { normalizeEntityKey } from "./entityResolution";
+import { propertiesToRecord } from "./properties";
+import { byConfidence, confidenceOf } from "./confidence";
+
+export interface RetrievalOptions {
+  hops?: number; // Neighbourhood expanded around matched entities
+  tokenBudget?: number; // Approximate prompt tokens the subgraph may use
+}
+
+export const DEFAULT_RETRIEVAL_OPTIONS: Required<RetrievalOptions> = {
+  hops: 1,
+  tokenBudget: 6000
+};
+
+export interface RetrievedSubgraph {
+  graph: KnowledgeGraphData;
+  context: SolverContext;
+}
+
+// Words too common to signal relevance on their own
+const STOPWORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "for", "from", "has", "have", "how", "in", "is", "it",
+  "its", "of", "on", "or", "our", "should", "that", "the", "their", "this", "to", "was", "we", "what",
+  "when", "which", "who", "will", "with", "would", "you", "your"
+]);
+
+const tokenize = (text: string): string[] =>
+  normalizeEntityKey(text).split(" ").filter(t => t.length > 1 && !STOPWORDS.has(t));
+
+// Rough token estimate for English text and JSON (about four characters per token)
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+const roundConfidence = (confidence?: number) =>
+  confidence === undefined ? undefined : Math.round(confidence * 100) / 100;
+
+/**
+ * The form in which a node or link is given to the solver: its name, type, description,
+ * properties and confidence, without bookkeeping such as provenance.
+ */
+export const toContextNode = ({ id, group, aliases, description, properties, confidence }: GraphNode) =>
+  ({ id, group, aliases, description, properties: propertiesToRecord(properties), confidence: roundConfidence(confidence) });
+
+export const toContextLink = ({ source, target, relationship, description, properties, confidence }: GraphLink) =>
+  ({ source, target, relationship, description, properties: propertiesToRecord(properties), confidence: roundConfidence(confidence) });
+
+/**
+ * Scores how directly the scenario mentions a node: whole-name mentions of the id or
+ * an alias count most, then individual word overlap, then its group.
+ */
+const scoreNode = (node: GraphNode, scenarioKey: string, scenarioTokens: Set<string>): number => {
+  let score = 0;
+  const padded = ` ${scenarioKey} `;
+  [node.id, ...(node.aliases || [])].forEach(name => {
+    const key = normalizeEntityKey(name);
+    if (key && padded.includes(` ${key} `)) score = Math.max(score, 10);
+    const tokens = tokenize(name);
+    if (tokens.length) {
+      const overlap = tokens.filter(t => scenarioTokens.has(t)).length / tokens.length;
+      score = Math.max(score, overlap * 5);
+    }
+  });
+  if (tokenize(node.group).some(t => scenarioTokens.has(t))) score += 1;
+  return score;
+};
+
+/**
+ * Selects the part of the graph relevant to a scenario: entities matched by name, group
+ * or relationship wording, plus their k-hop neighbourhood, ranked by relevance (decaying
+ * with distance and weighted by confidence) and trimmed to fit the token budget. Falls back
+ * to the best-connected entities when nothing matches. Nodes are returned in rank order and
+ * links strongest first.
+ */
+export const retrieveRelevantSubgraph = (
+  graph: KnowledgeGraphData,
+  scenario: string,
+  options: RetrievalOptions = {}
+): RetrievedSubgraph => {
+  const { hops, tokenBudget } = { ...DEFAULT_RETRIEVAL_OPTIONS, ...options };
+  const scenarioKey = normalizeEntityKey(scenario);
+  const scenarioTokens = new Set(tokenize(scenario));
+
+  const degree = new Map<string, number>();
+  const adjacency = new Map<string, string[]>();
+  graph.links.forEach(l => {
+    degree.set(l.source, (degree.get(l.source) || 0) + 1);
+    degree.set(l.target, (degree.get(l.target) || 0) + 1);
+    if (!adjacency.has(l.source)) adjacency.set(l.source, []);
+    if (!adjacency.has(l.target)) adjacency.set(l.target, []);
+    adjacency.get(l.source)!.push(l.target);
+    adjacency.get(l.target)!.push(l.source);
+  });
+
+  // Direct relevance of each node
+  const direct = new Map<string, number>();
+  graph.nodes.forEach(n => {
+    const score = scoreNode(n, scenarioKey, scenarioTokens);
+    if (score > 0) direct.set(n.id, score);
+  });
+  // Relationship wording that matches the scenario lends weight to both endpoints
+  graph.links.forEach(l => {
+    if (tokenize(l.relationship).some(t => scenarioTokens.has(t))) {
+      [l.source, l.target].forEach(id => direct.set(id, (direct.get(id) || 0) + 1));
+    }
+  });
+
+  const seedIds = Array.from(direct.keys()).filter(id => (direct.get(id) || 0) >= 2.5);
+
+  // Spread relevance outwards, halving with each hop
+  const relevance = new Map(direct);
+  seedIds.forEach(seed => {
+    const visited = new Set([seed]);
+    let frontier = [seed];
+    for (let depth = 1; depth <= hops && frontier.length; depth++) {
+      const next: string[] = [];
+      frontier.forEach(id => (adjacency.get(id) || []).forEach(neighbor => {
+        if (visited.has(neighbor)) return;
+        visited.add(neighbor);
+        next.push(neighbor);
+        const spread = (direct.get(seed) || 0) / Math.pow(2, depth);
+        relevance.set(neighbor, Math.max(relevance.get(neighbor) || 0, spread));
+      }));
+      frontier = next;
+    }
+  });
+
+  const nodeById = new Map(graph.nodes.map(n => [n.id, n]));
+  const rank = (id: string) => (relevance.get(id) || 0) * confidenceOf(nodeById.get(id)!);
+  const ranked = (relevance.size > 0 ? Array.from(relevance.keys()) : graph.nodes.map(n => n.id))
+    .filter(id => nodeById.has(id))
+    .sort((a, b) =>
+      rank(b) - rank(a) || confidenceOf(nodeById.get(b)!) - confidenceOf(nodeById.get(a)!) || (degree.get(b) || 0) - (degree.get(a) || 0)
+    );
+
+  // Strongest links first, so weak ones are the ones dropped when the budget runs out
+  const incident = new Map<string, GraphLink[]>();
+  [...graph.links].sort(byConfidence).forEach(l => {
+    [l.source, l.target].forEach(id => {
+      if (!incident.has(id)) incident.set(id, []);
+      incident.get(id)!.push(l);
+    });
+  });
+  const linkCost = (l: GraphLink) => estimateTokens(JSON.stringify(toContextLink(l)));
+
+  // Greedily add nodes in rank order with the links they close, until the budget is spent
+  const included = new Set<string>();
+  const links = new Set<GraphLink>();
+  let tokens = 0;
+  for (const id of ranked) {
+    const nodeCost = estimateTokens(JSON.stringify(toContextNode(nodeById.get(id)!)));
+    if (tokens + nodeCost > tokenBudget) break;
+    included.add(id);
+    tokens += nodeCost;
+    // Links that don't fit are dropped; the node alone still carries context
+    (incident.get(id) || []).forEach(l => {
+      if (links.has(l) || !included.has(l.source) || !included.has(l.target)) return;
+      const cost = linkCost(l);
+      if (tokens + cost > tokenBudget) return;
+      links.add(l);
+      tokens += cost;
+    });
+  }
+
+  const nodes = Array.from(included, id => nodeById.get(id)!);
+  return {
+    graph: { nodes, links: Array.from(links).sort(byConfidence) },
+    context: {
+      nodeIds: nodes.map(n => n.id),
+      seedIds: seedIds.filter(id => included.has(id)),
+      linkCount: links.size,
+      estimatedTokens: tokens,
+      truncated: nodes.length < ranked.length,
+      totalNodes: graph.nodes.length,
+      hops,
+      tokenBudget
+    }
+  };
+};
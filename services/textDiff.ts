@@ -0,0 +1,40 @@
+export type DiffLine =
+  | { type: 'same'; text: string }
+  | { type: 'added'; text: string }
+  | { type: 'removed'; text: string };
+
+/**
+ * Line-based diff via longest common subsequence. Whitespace at line ends is ignored
+ * when comparing. Suited to documents of a few hundred lines.
+ */
+export const diffLines = (before: string, after: string): DiffLine[] => {
+  const a = before.split("\n");
+  const b = after.split("\n");
+  const same = (i: number, j: number) => a[i].trimEnd() === b[j].trimEnd();
+
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = same(i, j) ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (same(i, j)) {
+      result.push({ type: 'same', text: b[j] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      result.push({ type: 'removed', text: a[i++] });
+    } else {
+      result.push({ type: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) result.push({ type: 'removed', text: a[i++] });
+  while (j < b.length) result.push({ type: 'added', text: b[j++] });
+  return result;
+};
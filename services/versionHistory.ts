@@ -0,0 +1,93 @@
+import { GraphOperation, GraphVersion, KnowledgeGraphData } from "../types";
+import { runStoreRequest, runStoreTransaction, newRecordId, GRAPH_VERSION_STORE } from "./workspaceStore";
+
+// Unnamed versions kept per workspace; older ones are pruned, named snapshots never are
+export const MAX_VERSIONS = 100;
+
+/**
+ * Lists a workspace's versions, newest first. Each holds a full copy of the graph.
+ */
+export const listGraphVersions = async (workspaceId: string): Promise<GraphVersion[]> => {
+  const versions = await runStoreRequest<GraphVersion[]>(GRAPH_VERSION_STORE, "readonly", store =>
+    store.index("workspaceId").getAll(IDBKeyRange.only(workspaceId))
+  );
+  return versions.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+/**
+ * Deletes the oldest unnamed versions beyond MAX_VERSIONS. Works on index keys only, so
+ * the stored graphs are never read.
+ */
+const pruneGraphVersions = (workspaceId: string): Promise<void> =>
+  runStoreTransaction(GRAPH_VERSION_STORE, "readwrite", store => {
+    // Every [workspaceId, …] key sorts between these two
+    const range = IDBKeyRange.bound([workspaceId], [workspaceId, []]);
+    const named = new Set<IDBValidKey>();
+    let kept = 0;
+
+    const snapshots = store.index("workspaceSnapshot").openKeyCursor(range);
+    snapshots.onsuccess = () => {
+      const cursor = snapshots.result;
+      if (cursor) {
+        named.add(cursor.primaryKey);
+        cursor.continue();
+        return;
+      }
+      const newestFirst = store.index("workspaceCreatedAt").openKeyCursor(range, "prev");
+      newestFirst.onsuccess = () => {
+        const version = newestFirst.result;
+        if (!version) return;
+        if (!named.has(version.primaryKey) && ++kept > MAX_VERSIONS) store.delete(version.primaryKey);
+        version.continue();
+      };
+    };
+  });
+
+/**
+ * Stores a full copy of the graph as it stands after an operation, pruning the oldest
+ * unnamed versions beyond MAX_VERSIONS.
+ */
+export const recordGraphVersion = async (
+  workspaceId: string,
+  operation: GraphOperation,
+  graph: KnowledgeGraphData,
+  snapshotName?: string
+): Promise<GraphVersion> => {
+  const version: GraphVersion = {
+    ...operation,
+    id: newRecordId("ver"),
+    workspaceId,
+    createdAt: Date.now(),
+    graph,
+    snapshotName
+  };
+  await runStoreRequest(GRAPH_VERSION_STORE, "readwrite", store => store.put(version));
+
+  await pruneGraphVersions(workspaceId);
+  return version;
+};
+
+/**
+ * Records the current graph under a name, without changing it.
+ */
+export const saveSnapshot = (workspaceId: string, name: string, graph: KnowledgeGraphData): Promise<GraphVersion> =>
+  recordGraphVersion(workspaceId, { kind: 'snapshot', label: `Snapshot "${name}"` }, graph, name);
+
+export const deleteGraphVersion = async (id: string): Promise<void> => {
+  await runStoreRequest(GRAPH_VERSION_STORE, "readwrite", store => store.delete(id));
+};
+
+/**
+ * Combines operations applied in the same update into one version. The import id is
+ * kept when only one of them refers to an import, so that import can still be found.
+ */
+export const combineOperations = (operations: GraphOperation[]): GraphOperation | undefined => {
+  if (operations.length <= 1) return operations[0];
+  const kinds = new Set(operations.map(o => o.kind));
+  const importIds = operations.map(o => o.importId).filter((id): id is string => !!id);
+  return {
+    kind: kinds.size === 1 ? operations[0].kind : 'edit',
+    label: operations.map(o => o.label).join("; "),
+    ...(importIds.length === 1 ? { importId: importIds[0] } : {})
+  };
+};
@@ -0,0 +1,199 @@
+import { GraphLayout, KnowledgeGraphData, Workspace, WorkspaceSummary } from "../types";
+
+const DB_NAME = "ccsmind";
+const DB_VERSION = 4;
+const WORKSPACE_STORE = "workspaces";
+export const SCENARIO_RUN_STORE = "scenarioRuns"; // Added in version 2; see scenarioHistory.ts
+export const GRAPH_VERSION_STORE = "graphVersions"; // Added in version 3, pruning indexes in 4; see versionHistory.ts
+const ACTIVE_WORKSPACE_KEY = "ccsmind.activeWorkspaceId";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(WORKSPACE_STORE)) {
+          db.createObjectStore(WORKSPACE_STORE, { keyPath: "id" });
+        }
+        if (!db.objectStoreNames.contains(SCENARIO_RUN_STORE)) {
+          db.createObjectStore(SCENARIO_RUN_STORE, { keyPath: "id" }).createIndex("workspaceId", "workspaceId");
+        }
+        if (!db.objectStoreNames.contains(GRAPH_VERSION_STORE)) {
+          db.createObjectStore(GRAPH_VERSION_STORE, { keyPath: "id" }).createIndex("workspaceId", "workspaceId");
+        }
+        // Lets the version log be pruned without reading the stored graphs
+        const versions = request.transaction!.objectStore(GRAPH_VERSION_STORE);
+        if (!versions.indexNames.contains("workspaceCreatedAt")) {
+          versions.createIndex("workspaceCreatedAt", ["workspaceId", "createdAt"]);
+        }
+        if (!versions.indexNames.contains("workspaceSnapshot")) {
+          versions.createIndex("workspaceSnapshot", ["workspaceId", "snapshotName"]);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+/**
+ * Runs a single request against one object store of the app database.
+ */
+export const runStoreRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Runs requests issued by `action` in one transaction on a store, resolving once it completes.
+ */
+export const runStoreTransaction = async (
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => void
+): Promise<void> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    action(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+const runRequest = <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> =>
+  runStoreRequest(WORKSPACE_STORE, mode, action);
+
+const toSummary = ({ graph, layout, ...summary }: Workspace): WorkspaceSummary => summary;
+
+export const newRecordId = (prefix: string) =>
+  typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const getStoredActiveWorkspaceId = (): string | null => localStorage.getItem(ACTIVE_WORKSPACE_KEY);
+
+export const storeActiveWorkspaceId = (id: string) => localStorage.setItem(ACTIVE_WORKSPACE_KEY, id);
+
+/**
+ * Lists all stored workspaces (without their graphs), oldest first.
+ */
+export const listWorkspaces = async (): Promise<WorkspaceSummary[]> => {
+  const all = await runRequest<Workspace[]>("readonly", store => store.getAll());
+  return all.map(toSummary).sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const loadWorkspace = async (id: string): Promise<Workspace | undefined> =>
+  runRequest<Workspace | undefined>("readonly", store => store.get(id));
+
+export const createWorkspace = async (name: string, graph: KnowledgeGraphData, layout?: GraphLayout): Promise<Workspace> => {
+  const now = Date.now();
+  const workspace: Workspace = { id: newRecordId("ws"), name, createdAt: now, updatedAt: now, graph, layout };
+  await runRequest("readwrite", store => store.put(workspace));
+  return workspace;
+};
+
+/**
+ * Reads, changes and writes back a stored workspace in one transaction, so concurrent
+ * saves of different fields (graph, layout) can't overwrite each other.
+ */
+const modifyWorkspace = async (id: string, modify: (workspace: Workspace) => Workspace): Promise<void> => {
+  const db = await openDatabase();
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(WORKSPACE_STORE, "readwrite");
+    const store = tx.objectStore(WORKSPACE_STORE);
+    const request = store.get(id);
+    request.onsuccess = () => {
+      if (request.result) store.put(modify(request.result));
+      else tx.abort();
+    };
+    tx.oncomplete = () => resolve();
+    tx.onabort = () => reject(tx.error ?? new Error(`Workspace ${id} not found.`));
+  });
+};
+
+/**
+ * Applies a partial update to a stored workspace and bumps its `updatedAt`.
+ */
+export const updateWorkspace = (id: string, patch: Partial<Omit<Workspace, "id" | "createdAt">>): Promise<void> =>
+  modifyWorkspace(id, workspace => ({ ...workspace, ...patch, updatedAt: Date.now() }));
+
+/**
+ * Persists a new graph for an existing workspace. Called after every graph mutation.
+ */
+export const saveWorkspaceGraph = (id: string, graph: KnowledgeGraphData): Promise<void> =>
+  updateWorkspace(id, { graph });
+
+export const renameWorkspace = (id: string, name: string): Promise<void> =>
+  updateWorkspace(id, { name });
+
+/**
+ * Persists how the graph view is arranged. Leaves `updatedAt` alone, since arranging
+ * the view isn't an edit.
+ */
+export const saveWorkspaceLayout = (id: string, layout: GraphLayout): Promise<void> =>
+  modifyWorkspace(id, workspace => ({ ...workspace, layout }));
+
+export const duplicateWorkspace = async (id: string, name: string): Promise<Workspace> => {
+  const workspace = await loadWorkspace(id);
+  if (!workspace) throw new Error(`Workspace ${id} not found.`);
+  return createWorkspace(name, structuredClone(workspace.graph), workspace.layout && structuredClone(workspace.layout));
+};
+
+/**
+ * Deletes a workspace together with its scenario history and version history.
+ */
+export const deleteWorkspace = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const historyStores = [SCENARIO_RUN_STORE, GRAPH_VERSION_STORE];
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction([WORKSPACE_STORE, ...historyStores], "readwrite");
+    tx.objectStore(WORKSPACE_STORE).delete(id);
+    historyStores.forEach(storeName => {
+      const records = tx.objectStore(storeName).index("workspaceId").openKeyCursor(IDBKeyRange.only(id));
+      records.onsuccess = () => {
+        const cursor = records.result;
+        if (!cursor) return;
+        tx.objectStore(storeName).delete(cursor.primaryKey);
+        cursor.continue();
+      };
+    });
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+/**
+ * Opens the last active workspace, creating a default one seeded with `seedGraph` on first run.
+ */
+export const initWorkspaces = async (
+  seedGraph: KnowledgeGraphData
+): Promise<{ workspaces: WorkspaceSummary[]; active: Workspace }> => {
+  let workspaces = await listWorkspaces();
+  if (workspaces.length === 0) {
+    await createWorkspace("Default Workspace", seedGraph);
+    workspaces = await listWorkspaces();
+  }
+
+  const storedId = getStoredActiveWorkspaceId();
+  const activeId = workspaces.some(w => w.id === storedId) ? storedId! : workspaces[0].id;
+  const active = (await loadWorkspace(activeId))!;
+  storeActiveWorkspaceId(active.id);
+
+  return { workspaces, active };
+};
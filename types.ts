@@ -1,28 +1,186 @@
+export interface ImportRecord {
+  id: string;
+  kind: 'file' | 'text' | 'scenario';
+  label: string; // File name, or the start of the pasted text or scenario
+  createdAt: number;
+  scenarioRunId?: string; // For 'scenario' imports: the solved scenario the facts were learned from
+}
+
+export interface Provenance {
+  importId: string; // ImportRecord the fact came from
+  excerpt?: string; // Supporting passage quoted from the source
+  confidence?: number; // How sure the extractor was of the fact in this source (0-1)
+}
+
+export type PropertyType = 'string' | 'number' | 'date' | 'url' | 'boolean';
+
+// A typed fact attached to an entity or relationship, e.g. founded: 1998 (number)
+export interface GraphProperty {
+  key: string;
+  value: string | number | boolean; // Dates are ISO strings (YYYY-MM-DD)
+  type: PropertyType;
+}
+
 export interface GraphNode {
   id: string;
   group: string; // e.g., "Concept", "Person", "Technology"
   val?: number; // Visualization size
+  derivedVal?: boolean; // `val` follows mentions and degree rather than being set explicitly
+  aliases?: string[]; // Alternative names resolved to this entity (acronyms, spelling variants)
+  description?: string;
+  properties?: GraphProperty[];
+  confidence?: number; // 0-1, reinforced by every import that confirms it; absent for manual facts
+  mentions?: number; // Number of imports that state it
+  provenance?: Provenance[];
 }
 
 export interface GraphLink {
   source: string; // Node ID
   target: string; // Node ID
   relationship: string; // Label for the edge
+  description?: string;
+  properties?: GraphProperty[];
+  confidence?: number;
+  mentions?: number;
+  provenance?: Provenance[];
+}
+
+export interface EntityType {
+  name: string;
+  description?: string;
+}
+
+export interface RelationshipType {
+  name: string;
+  description?: string;
+  domain: string[]; // Entity types allowed as the source; empty allows any
+  range: string[]; // Entity types allowed as the target; empty allows any
+}
+
+// The workspace's schema. Extraction is constrained to whichever of the two lists is non-empty.
+export interface Ontology {
+  entityTypes: EntityType[];
+  relationshipTypes: RelationshipType[];
 }
 
 export interface KnowledgeGraphData {
   nodes: GraphNode[];
   links: GraphLink[];
+  imports?: ImportRecord[];
+  ontology?: Ontology;
+}
+
+export type GraphOperationKind = 'initial' | 'import' | 'remove-import' | 'edit' | 'undo' | 'redo' | 'restore' | 'snapshot';
+
+// What a graph mutation did, as recorded in the version history
+export interface GraphOperation {
+  kind: GraphOperationKind;
+  label: string; // e.g. "Imported report.pdf", "Deleted entity \"GDPR\""
+  importId?: string; // For 'import' and 'remove-import'
+}
+
+// A full copy of a workspace's graph as it stood after an operation (not a diff)
+export interface GraphVersion extends GraphOperation {
+  id: string;
+  workspaceId: string;
+  createdAt: number;
+  graph: KnowledgeGraphData;
+  snapshotName?: string; // Named snapshots are kept when old versions are pruned
+}
+
+export type PlanPriority = 'high' | 'medium' | 'low';
+
+export interface ActionStep {
+  title: string;
+  description?: string;
+  owner?: string;
+  priority: PlanPriority;
+  timeline?: string; // e.g. "Within 24 hours", "Week 2"
+  nodeIds: string[]; // Knowledge graph entities the step relies on
+  done?: boolean; // Ticked off in the checklist
+}
+
+export interface ActionPlan {
+  summary: string;
+  steps: ActionStep[];
+  risks: Array<{ risk: string; mitigation: string }>;
+  assumptions: string[];
+}
+
+// The slice of the knowledge graph that was sent to the solver
+export interface SolverContext {
+  nodeIds: string[];
+  seedIds: string[]; // Entities matched directly by the scenario
+  linkCount: number;
+  estimatedTokens: number;
+  truncated: boolean; // Relevant entities were left out to fit the budget
+  totalNodes: number;
+  hops: number;
+  tokenBudget: number;
+}
+
+// A passage of the solution backed by web search results
+export interface SourceCitation {
+  text: string; // Passage of the answer, verbatim
+  sourceIndices: number[]; // Positions in ScenarioResult.sources
 }
 
 export interface ScenarioResult {
   solution: string;
   sources: Array<{ title: string; uri: string }>;
+  citations?: SourceCitation[];
   thoughtProcess?: string;
+  plan?: ActionPlan;
+  context?: SolverContext;
+  stopped?: boolean; // Generation was stopped before the model finished
+  learnedImportId?: string; // Set once the solution has been fed back into the graph
+}
+
+// A solved scenario as kept in the workspace's history
+export interface ScenarioRun {
+  id: string;
+  workspaceId: string;
+  scenario: string;
+  result: ScenarioResult;
+  createdAt: number;
+  provider: string;
+  model: string;
+  graph: {
+    nodes: number;
+    links: number;
+    imports: number;
+    fingerprint: string; // Changes whenever the graph's entities or relationships change
+  };
 }
 
 export enum AppMode {
   GRAPH_VIEW = 'GRAPH_VIEW',
   IMPORT_DATA = 'IMPORT_DATA',
-  SOLVE_SCENARIO = 'SOLVE_SCENARIO'
-}
\ No newline at end of file
+  SOLVE_SCENARIO = 'SOLVE_SCENARIO',
+  QUERY_CONSOLE = 'QUERY_CONSOLE',
+  ONTOLOGY = 'ONTOLOGY',
+  VERSION_HISTORY = 'VERSION_HISTORY',
+  SETTINGS = 'SETTINGS'
+}
+
+export type GraphLayoutKind = 'force' | 'hierarchical' | 'radial' | 'clustered';
+
+// How the graph view is arranged; saved with the workspace but not part of the graph,
+// so arranging the view never shows up in the version log
+export interface GraphLayout {
+  kind: GraphLayoutKind;
+  focusId?: string; // Centre of the radial layout
+  pinned: Record<string, [number, number]>; // Nodes dragged into place, held there
+  positions: Record<string, [number, number]>; // Where nodes last settled, restored on reopening
+}
+
+export interface Workspace {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  graph: KnowledgeGraphData;
+  layout?: GraphLayout;
+}
+
+export type WorkspaceSummary = Omit<Workspace, 'graph' | 'layout'>;